@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Question } from '../types/assessment.types';
+import { CatSession } from '../types/adaptive.types';
+import {
+  createCatSession,
+  finalizeCatSession,
+  recordResponse,
+  selectNextQuestion,
+} from './cat-engine';
+
+// Rasch pool with difficulties from -2 to 2 in one category
+const itemPool: Question[] = [-2, -1.5, -1, -0.5, 0, 0.5, 1, 1.5, 2].map((difficulty, index) => ({
+  id: `q-${index}`,
+  text: `Question ${index}`,
+  type: 'multipleChoice',
+  category: 'Logical Reasoning',
+  answers: [
+    { id: 0, text: 'A' },
+    { id: 1, text: 'B' },
+    { id: 2, text: 'C' },
+    { id: 3, text: 'D' },
+  ],
+  correctAnswers: [0],
+  score: 10,
+  weight: 1,
+  irt: { difficulty },
+}));
+
+const input = { assessmentId: 'cat', userId: 'candidate' };
+
+/**
+ * Run a session for a candidate who answers right exactly when the item is
+ * easier than their ability
+ */
+function runSession(trueTheta: number, maxItems: number, startingTheta?: number): CatSession {
+  let session = createCatSession(input, itemPool, { maxItems, startingTheta });
+  while (session.status === 'active') {
+    const next = selectNextQuestion(session, itemPool);
+    if (!next.question) {
+      return next.session;
+    }
+    const correct = next.question.irt!.difficulty < trueTheta;
+    session = recordResponse(next.session, itemPool, correct ? [0] : [1]);
+  }
+  return session;
+}
+
+test('the first question is the most informative at the starting ability', () => {
+  const session = createCatSession(input, itemPool, { maxItems: 3, startingTheta: 1 });
+  assert.equal(selectNextQuestion(session, itemPool).question!.irt!.difficulty, 1);
+});
+
+test('ability moves toward the candidate and the standard error shrinks', () => {
+  const high = runSession(1.2, 6);
+  const low = runSession(-1.2, 6);
+  assert.equal(high.stopReason, 'maxItems');
+  assert.equal(high.administered.length, 6);
+  assert.ok(high.theta > 0.5);
+  assert.ok(low.theta < -0.5);
+  assert.ok(high.standardError < high.administered[0].standardErrorAfter);
+});
+
+test('the final result uses the session prior for ability', async () => {
+  const session = runSession(0.8, 4, 1);
+  const result = await finalizeCatSession(session, itemPool, {
+    includeAnalysis: false,
+    includeRecommendations: false,
+  });
+  assert.ok(Math.abs(result.overall.ability!.theta - result.metadata.adaptive!.theta) < 1e-9);
+});
+
+test('a session cannot be created from items without IRT parameters', () => {
+  const { irt, ...unparameterized } = itemPool[0];
+  assert.throws(() => createCatSession(input, [unparameterized], { maxItems: 1 }), /no IRT difficulty/);
+});
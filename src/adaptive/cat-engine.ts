@@ -0,0 +1,356 @@
+/**
+ * CAT Engine
+ *
+ * This module runs computerized adaptive testing sessions:
+ * 1. Pick the category furthest behind its content target
+ * 2. Pick the question in that category with the most information at the
+ *    current ability estimate (optionally randomly among the top few)
+ * 3. Score the response and update the ability estimate (EAP)
+ * 4. Stop on max items, standard-error target, or an exhausted pool
+ * 5. Score the administered questions with scoreAssessment
+ *
+ * Sessions are plain objects that only hold question IDs, so they can be
+ * stored between requests. Every call returns a new session.
+ */
+
+import {
+  AbilityPrior,
+  AssessmentResult,
+  CategoryName,
+  CatStopReason,
+  Question,
+  ScoringOptions,
+} from '../types/assessment.types';
+import { CatAdministeredItem, CatConfig, CatSession } from '../types/adaptive.types';
+import { ItemResponse } from '../types/irt.types';
+import { estimateAbilityEAP, itemInformation } from '../irt/irt-model';
+import { scoreQuestion } from '../scoring/question-scorer';
+import { scoreAssessment } from '../scoring/overall-scorer';
+import { createSeededRandom } from '../delivery/randomizer';
+
+/**
+ * Create an adaptive session
+ *
+ * @param input - Assessment and user IDs
+ * @param itemPool - Questions available to the session (each must have irt parameters)
+ * @param config - Session configuration
+ * @returns New active session
+ */
+export function createCatSession(
+  input: { assessmentId: string; userId: string },
+  itemPool: Question[],
+  config: CatConfig
+): CatSession {
+  const errors = validateItemPool(itemPool);
+  if (!Number.isInteger(config.maxItems) || config.maxItems < 1) {
+    errors.push('maxItems must be a positive whole number');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid adaptive session: ${errors.join('; ')}`);
+  }
+
+  return {
+    assessmentId: input.assessmentId,
+    userId: input.userId,
+    config,
+    administered: [],
+    theta: config.startingTheta ?? 0,
+    standardError: 1,
+    status: 'active',
+  };
+}
+
+/**
+ * Select the next question for a session
+ *
+ * Returns the pending question again if the last one has not been answered.
+ *
+ * @param session - Current session
+ * @param itemPool - Question pool the session was created with
+ * @returns Updated session (with pendingQuestionId) and the question, or null when complete
+ */
+export function selectNextQuestion(
+  session: CatSession,
+  itemPool: Question[]
+): { session: CatSession; question: Question | null } {
+  if (session.status === 'complete') {
+    return { session, question: null };
+  }
+
+  if (session.pendingQuestionId) {
+    return { session, question: findQuestion(itemPool, session.pendingQuestionId) };
+  }
+
+  const available = getAvailableQuestions(session, itemPool);
+  if (available.length === 0) {
+    return { session: completeSession(session, 'poolExhausted'), question: null };
+  }
+
+  // Content balancing: only consider the category furthest behind its target
+  const category = selectCategory(session, available);
+  const candidates = available
+    .filter(question => question.category === category)
+    .map(question => ({ question, information: itemInformation(session.theta, question.irt!) }))
+    .sort((a, b) => b.information - a.information);
+
+  // Randomesque exposure control: choose among the top few most informative
+  const { randomesque = 1 } = session.config;
+  const topCount = Math.max(1, Math.min(randomesque, candidates.length));
+  const random = createSeededRandom(
+    `${session.config.seed ?? `${session.assessmentId}:${session.userId}`}:${session.administered.length}`
+  );
+  const question = candidates[Math.floor(random() * topCount)].question;
+
+  return {
+    session: { ...session, pendingQuestionId: question.id },
+    question,
+  };
+}
+
+/**
+ * Record the candidate's answer to the pending question
+ *
+ * Scores the answer, updates the ability estimate, and applies the stopping rules.
+ *
+ * @param session - Current session
+ * @param itemPool - Question pool the session was created with
+ * @param userAnswers - Candidate's answer to the pending question
+ * @param timeSpent - Optional time spent in seconds
+ * @returns Updated session
+ */
+export function recordResponse(
+  session: CatSession,
+  itemPool: Question[],
+  userAnswers: number[],
+  timeSpent?: number
+): CatSession {
+  if (session.status === 'complete') {
+    throw new Error('Adaptive session is already complete');
+  }
+  if (!session.pendingQuestionId) {
+    throw new Error('No question is awaiting a response; call selectNextQuestion first');
+  }
+
+  const question = findQuestion(itemPool, session.pendingQuestionId);
+  const result = scoreQuestion(question, userAnswers);
+  const score = result.maxPoints > 0 ? result.earnedPoints / result.maxPoints : 0;
+
+  const administered: CatAdministeredItem[] = [
+    ...session.administered,
+    {
+      questionId: question.id,
+      category: question.category,
+      userAnswers,
+      score,
+      thetaAfter: 0,
+      standardErrorAfter: 0,
+      ...(timeSpent !== undefined ? { timeSpent } : {}),
+    },
+  ];
+
+  const estimate = estimateAbilityEAP(getItemResponses(administered, itemPool), getSessionPrior(session));
+  administered[administered.length - 1].thetaAfter = estimate.theta;
+  administered[administered.length - 1].standardErrorAfter = estimate.standardError;
+
+  const updated: CatSession = {
+    ...session,
+    administered,
+    pendingQuestionId: undefined,
+    theta: estimate.theta,
+    standardError: estimate.standardError,
+  };
+
+  const stopReason = checkStoppingRules(updated, itemPool);
+  return stopReason ? completeSession(updated, stopReason) : updated;
+}
+
+/**
+ * Check whether a session should stop
+ *
+ * @returns The stop reason, or null if the session should continue
+ */
+export function checkStoppingRules(session: CatSession, itemPool: Question[]): CatStopReason | null {
+  const { maxItems, minItems = 1, standardErrorTarget } = session.config;
+  const count = session.administered.length;
+
+  if (count >= maxItems) {
+    return 'maxItems';
+  }
+  if (
+    standardErrorTarget !== undefined &&
+    count >= minItems &&
+    session.standardError <= standardErrorTarget
+  ) {
+    return 'standardErrorTarget';
+  }
+  if (getAvailableQuestions(session, itemPool).length === 0) {
+    return 'poolExhausted';
+  }
+  return null;
+}
+
+/**
+ * Score a finished session
+ *
+ * Administered questions are scored by scoreAssessment exactly as a linear
+ * assessment would be, and the adaptive summary is added to the metadata.
+ * Ability is estimated with the session's prior (mean startingTheta), so
+ * `overall.ability` agrees with the adaptive theta unless options set another.
+ *
+ * @param session - Completed (or abandoned) session
+ * @param itemPool - Question pool the session was created with
+ * @param options - Scoring options
+ * @returns AssessmentResult for the administered questions
+ */
+export async function finalizeCatSession(
+  session: CatSession,
+  itemPool: Question[],
+  options: ScoringOptions = {}
+): Promise<AssessmentResult> {
+  if (session.administered.length === 0) {
+    throw new Error('Cannot score an adaptive session with no responses');
+  }
+
+  const userAnswers: Record<string, number[]> = {};
+  const timeSpent: Record<string, number> = {};
+  for (const item of session.administered) {
+    userAnswers[item.questionId] = item.userAnswers;
+    if (item.timeSpent !== undefined) {
+      timeSpent[item.questionId] = item.timeSpent;
+    }
+  }
+
+  const result = await scoreAssessment({
+    assessmentId: session.assessmentId,
+    userId: session.userId,
+    questions: session.administered.map(item => findQuestion(itemPool, item.questionId)),
+    userAnswers,
+    timeSpent: Object.keys(timeSpent).length > 0 ? timeSpent : undefined,
+  }, {
+    ...options,
+    abilityPrior: options.abilityPrior ?? getSessionPrior(session),
+  });
+
+  result.metadata.adaptive = {
+    theta: session.theta,
+    standardError: session.standardError,
+    itemsAdministered: session.administered.length,
+    stopReason: session.stopReason ?? checkStoppingRules(session, itemPool) ?? 'maxItems',
+    administeredOrder: session.administered.map(item => item.questionId),
+  };
+
+  return result;
+}
+
+/**
+ * Validate that every question in a pool can be used adaptively
+ *
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateItemPool(itemPool: Question[]): string[] {
+  const errors: string[] = [];
+
+  if (itemPool.length === 0) {
+    errors.push('Item pool must contain at least one question');
+  }
+
+  for (const question of itemPool) {
+    if (!question.irt || typeof question.irt.difficulty !== 'number') {
+      errors.push(`Question ${question.id} has no IRT difficulty parameter`);
+    } else if (question.irt.discrimination !== undefined && question.irt.discrimination <= 0) {
+      errors.push(`Question ${question.id} must have a positive discrimination`);
+    } else if (
+      question.irt.guessing !== undefined &&
+      (question.irt.guessing < 0 || question.irt.guessing >= 1)
+    ) {
+      errors.push(`Question ${question.id} guessing must be between 0 and 1`);
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get the ability prior of a session (centered on the starting theta)
+ */
+function getSessionPrior(session: CatSession): AbilityPrior {
+  return { mean: session.config.startingTheta ?? 0, standardDeviation: 1 };
+}
+
+/**
+ * Pick the category furthest behind its content target
+ *
+ * Deficit = target share × (items administered + 1) - items administered in category.
+ * Ties go to the category listed first in the pool.
+ */
+function selectCategory(session: CatSession, available: Question[]): CategoryName {
+  const availableCategories = [...new Set(available.map(question => question.category))];
+  const targets = getContentTargets(session.config, availableCategories);
+  const next = session.administered.length + 1;
+
+  let bestCategory = availableCategories[0];
+  let bestDeficit = -Infinity;
+  for (const category of availableCategories) {
+    const given = session.administered.filter(item => item.category === category).length;
+    const deficit = (targets[category] || 0) * next - given;
+    if (deficit > bestDeficit) {
+      bestCategory = category;
+      bestDeficit = deficit;
+    }
+  }
+
+  return bestCategory;
+}
+
+/**
+ * Get normalized content targets for the categories still available
+ */
+function getContentTargets(
+  config: CatConfig,
+  categories: CategoryName[]
+): Partial<Record<CategoryName, number>> {
+  const raw: Partial<Record<CategoryName, number>> = {};
+  for (const category of categories) {
+    raw[category] = config.contentTargets ? config.contentTargets[category] || 0 : 1;
+  }
+
+  const total = Object.values(raw).reduce((sum, value) => sum + (value || 0), 0);
+  const targets: Partial<Record<CategoryName, number>> = {};
+  for (const category of categories) {
+    targets[category] = total > 0 ? (raw[category] || 0) / total : 1 / categories.length;
+  }
+  return targets;
+}
+
+function getAvailableQuestions(session: CatSession, itemPool: Question[]): Question[] {
+  const used = new Set(session.administered.map(item => item.questionId));
+  return itemPool.filter(question => !used.has(question.id));
+}
+
+function getItemResponses(administered: CatAdministeredItem[], itemPool: Question[]): ItemResponse[] {
+  return administered.map(item => ({
+    parameters: findQuestion(itemPool, item.questionId).irt!,
+    score: item.score,
+  }));
+}
+
+function findQuestion(itemPool: Question[], questionId: string): Question {
+  const question = itemPool.find(q => q.id === questionId);
+  if (!question) {
+    throw new Error(`Question ${questionId} is not in the item pool`);
+  }
+  return question;
+}
+
+function completeSession(session: CatSession, stopReason: CatStopReason): CatSession {
+  return {
+    ...session,
+    pendingQuestionId: undefined,
+    status: 'complete',
+    stopReason,
+  };
+}
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AssessmentResult } from '../types/assessment.types';
+import { analyzeAdverseImpact, fisherExactTest, twoProportionZTest } from './adverse-impact';
+
+// Results carry their group in userId
+function resultsForGroup(group: string, selected: number, count: number): AssessmentResult[] {
+  return Array.from({ length: count }, (_, index) => ({
+    userId: group,
+    overall: { percentage: index < selected ? 80 : 40 },
+  }) as AssessmentResult);
+}
+
+const groupBy = (result: AssessmentResult) => result.userId;
+const gate = { id: 'pass', type: 'tier' as const, level: 3 as const, minPercentage: 60, label: 'Pass' };
+
+test("Fisher's exact test matches published 2 × 2 examples", () => {
+  // Lady tasting tea: 3 of 4 vs 1 of 4, two-sided p = 34 / 70
+  assert.ok(Math.abs(fisherExactTest(3, 4, 1, 4) - 34 / 70) < 1e-9);
+  // 1 of 10 vs 11 of 14, two-sided p = 0.002759
+  assert.ok(Math.abs(fisherExactTest(1, 10, 11, 14) - 0.002759) < 1e-6);
+  assert.ok(Math.abs(fisherExactTest(5, 10, 5, 10) - 1) < 1e-9);
+});
+
+test('two-proportion z-test uses the pooled standard error', () => {
+  // 50/100 vs 30/100: pooled 0.4, z = 0.2 / √(0.4 × 0.6 × 0.02) = 2.88675
+  const { zScore, pValue } = twoProportionZTest(50, 100, 30, 100);
+  assert.ok(Math.abs(zScore - 2.88675) < 1e-5);
+  assert.ok(Math.abs(pValue - 0.003892) < 1e-5);
+  assert.deepEqual(twoProportionZTest(0, 10, 0, 10), { zScore: 0, pValue: 1 });
+});
+
+test('a group below four-fifths of the highest selection rate is adversely impacted', () => {
+  const report = analyzeAdverseImpact(
+    [...resultsForGroup('A', 60, 100), ...resultsForGroup('B', 40, 100), ...resultsForGroup('C', 55, 100)],
+    { groupBy, gates: [gate] }
+  );
+  const [impact] = report.gates;
+  const rates = Object.fromEntries(impact.groups.map(rate => [rate.group, rate]));
+
+  assert.equal(impact.comparisonGroup, 'A');
+  assert.ok(Math.abs(rates.B.impactRatio - 2 / 3) < 1e-12);
+  assert.ok(Math.abs(rates.C.impactRatio - 55 / 60) < 1e-12);
+  assert.deepEqual(impact.adverselyImpactedGroups, ['B']);
+  assert.equal(rates.B.significant, true);
+  assert.equal(rates.C.significant, false);
+  assert.deepEqual(report.flaggedGates, ['pass']);
+  assert.equal(impact.overallSelectionRate, 155 / 300);
+});
+
+test('small groups are reported with a caveat', () => {
+  const report = analyzeAdverseImpact(
+    [...resultsForGroup('A', 6, 10), ...resultsForGroup('B', 4, 40)],
+    { groupBy, gates: [gate] }
+  );
+  assert.equal(report.issues.length, 1);
+  assert.match(report.issues[0], /"A" has 10 result/);
+});
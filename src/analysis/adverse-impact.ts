@@ -0,0 +1,332 @@
+/**
+ * Adverse Impact Analyzer
+ *
+ * This module monitors outcome disparities between candidate groups when tier
+ * or readiness outcomes are used as screening gates:
+ *
+ * 1. Selection rate = Candidates at or above the gate / Candidates in the group
+ * 2. Impact ratio = Group selection rate / Highest group selection rate
+ *    (below 0.8 fails the four-fifths rule)
+ * 3. Two-proportion z-test and Fisher's exact test of each group against the
+ *    group with the highest selection rate
+ *
+ * Tier gates pass candidates whose overall percentage reaches the tier's
+ * minimum (matching `overall.tier` when results were scored with the same
+ * definitions); readiness gates use READINESS_THRESHOLDS, as role suitability
+ * does. Cut changes can be simulated before they are adopted.
+ */
+
+import { AssessmentResult, TierDefinition, TierLevel } from '../types/assessment.types';
+import {
+  AdverseImpactReport,
+  CutChangeSimulation,
+  GateImpact,
+  GateImpactChange,
+  GroupSelectionRate,
+  SelectionGate,
+} from '../types/analysis.types';
+import { CutTier } from '../types/standard-setting.types';
+import { READINESS_THRESHOLDS, TIER_DEFINITIONS } from '../constants/tiers';
+import { createTierConfiguration, validateTierDefinitions } from '../standards/tier-configuration';
+import { logGamma, normalCdf } from '../utils/statistics';
+
+/**
+ * Options for adverse impact analysis
+ */
+export interface AdverseImpactOptions {
+  /** Group of a result (undefined leaves the result out) */
+  groupBy: (result: AssessmentResult) => string | undefined;
+  /** Tier definitions the gates are drawn from (default TIER_DEFINITIONS) */
+  tierDefinitions?: Record<TierLevel, TierDefinition>;
+  /** Gates to analyze (default: every tier and readiness gate) */
+  gates?: SelectionGate[];
+  /** Groups smaller than this are reported with a caveat (default 30) */
+  minGroupSize?: number;
+  /** Significance level for the tests (default 0.05) */
+  significanceLevel?: number;
+}
+
+/**
+ * Impact ratio below which a group is adversely impacted
+ */
+export const FOUR_FIFTHS_RATIO = 0.8;
+
+/**
+ * Default group size below which impact ratios are unstable
+ */
+export const DEFAULT_IMPACT_MIN_GROUP_SIZE = 30;
+
+/**
+ * Default significance level
+ */
+export const DEFAULT_IMPACT_SIGNIFICANCE = 0.05;
+
+/**
+ * Get the screening gates for a set of tier definitions
+ *
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
+ * @returns A gate for tiers 2-5 and for medium and high readiness
+ */
+export function getSelectionGates(
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): SelectionGate[] {
+  const tierGates: SelectionGate[] = ([2, 3, 4, 5] as TierLevel[]).map(level => ({
+    id: `tier-${level}`,
+    type: 'tier',
+    level,
+    minPercentage: definitions[level].minPercentage,
+    label: `Tier ${level} (${definitions[level].rank}) or above`,
+  }));
+
+  return [
+    ...tierGates,
+    {
+      id: 'readiness-medium',
+      type: 'readiness',
+      level: 'medium',
+      minPercentage: READINESS_THRESHOLDS.MEDIUM,
+      label: 'Medium readiness or above',
+    },
+    {
+      id: 'readiness-high',
+      type: 'readiness',
+      level: 'high',
+      minPercentage: READINESS_THRESHOLDS.HIGH,
+      label: 'High readiness',
+    },
+  ];
+}
+
+/**
+ * Analyze adverse impact across a cohort of results
+ *
+ * @param results - Assessment results for a cohort of candidates
+ * @param options - Grouping, gates and test settings
+ * @returns Selection rates, impact ratios and tests per gate and group
+ */
+export function analyzeAdverseImpact(
+  results: AssessmentResult[],
+  options: AdverseImpactOptions
+): AdverseImpactReport {
+  const minGroupSize = options.minGroupSize ?? DEFAULT_IMPACT_MIN_GROUP_SIZE;
+  const significanceLevel = options.significanceLevel ?? DEFAULT_IMPACT_SIGNIFICANCE;
+  const gates = options.gates ?? getSelectionGates(options.tierDefinitions);
+
+  const groups = new Map<string, number[]>();
+  let ungroupedCount = 0;
+  for (const result of results) {
+    const group = options.groupBy(result);
+    if (group === undefined) {
+      ungroupedCount++;
+      continue;
+    }
+    const existing = groups.get(group) || [];
+    existing.push(result.overall.percentage);
+    groups.set(group, existing);
+  }
+
+  const groupNames = [...groups.keys()].sort();
+  const issues: string[] = [];
+  if (groupNames.length < 2) {
+    issues.push(`Adverse impact needs at least 2 groups, found ${groupNames.length}`);
+  }
+  for (const group of groupNames) {
+    const size = groups.get(group)!.length;
+    if (size < minGroupSize) {
+      issues.push(`Group "${group}" has ${size} result(s); impact ratios below ${minGroupSize} are unstable`);
+    }
+  }
+
+  const groupSizes: Record<string, number> = {};
+  for (const group of groupNames) {
+    groupSizes[group] = groups.get(group)!.length;
+  }
+
+  const gateImpacts = gates.map(gate =>
+    analyzeGate(gate, groupNames.map(group => ({ group, scores: groups.get(group)! })), significanceLevel)
+  );
+
+  return {
+    sampleSize: results.length - ungroupedCount,
+    groupSizes,
+    ungroupedCount,
+    gates: gateImpacts,
+    flaggedGates: gateImpacts
+      .filter(impact => impact.adverselyImpactedGroups.length > 0)
+      .map(impact => impact.gate.id),
+    issues,
+  };
+}
+
+/**
+ * Simulate how moving tier cuts would change adverse impact
+ *
+ * @param results - Assessment results for a cohort of candidates
+ * @param cuts - Proposed minimum percentage for each tier that moves
+ * @param options - Grouping and test settings (tierDefinitions are the current cuts)
+ * @returns Reports with the current and proposed cuts, and the change at each gate
+ */
+export function simulateCutChange(
+  results: AssessmentResult[],
+  cuts: Partial<Record<CutTier, number>>,
+  options: AdverseImpactOptions
+): CutChangeSimulation {
+  const current = options.tierDefinitions ?? TIER_DEFINITIONS;
+  const proposedDefinitions = createTierConfiguration(cuts, { id: 'simulation' }, current).tiers;
+  const errors = validateTierDefinitions(proposedDefinitions);
+  if (errors.length > 0) {
+    throw new Error(`Invalid proposed cuts: ${errors.join('; ')}`);
+  }
+
+  const baseline = analyzeAdverseImpact(results, { ...options, tierDefinitions: current });
+  const proposed = analyzeAdverseImpact(results, { ...options, tierDefinitions: proposedDefinitions });
+
+  const changes: GateImpactChange[] = baseline.gates.map((before, index) => {
+    const after = proposed.gates[index];
+    return {
+      gateId: before.gate.id,
+      baselineMinPercentage: before.gate.minPercentage,
+      proposedMinPercentage: after.gate.minPercentage,
+      groups: before.groups.map((group, groupIndex) => ({
+        group: group.group,
+        baselineSelectionRate: group.selectionRate,
+        proposedSelectionRate: after.groups[groupIndex].selectionRate,
+        baselineImpactRatio: group.impactRatio,
+        proposedImpactRatio: after.groups[groupIndex].impactRatio,
+      })),
+      newlyImpacted: after.adverselyImpactedGroups.filter(
+        group => !before.adverselyImpactedGroups.includes(group)
+      ),
+      resolved: before.adverselyImpactedGroups.filter(
+        group => !after.adverselyImpactedGroups.includes(group)
+      ),
+    };
+  });
+
+  return { baseline, proposed, changes };
+}
+
+/**
+ * Two-proportion z-test
+ *
+ * @param selected1 - Selected in the first group
+ * @param count1 - Size of the first group
+ * @param selected2 - Selected in the second group
+ * @param count2 - Size of the second group
+ * @returns z statistic (first minus second) and two-sided p-value
+ */
+export function twoProportionZTest(
+  selected1: number,
+  count1: number,
+  selected2: number,
+  count2: number
+): { zScore: number; pValue: number } {
+  const pooled = (selected1 + selected2) / (count1 + count2);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / count1 + 1 / count2));
+  if (!(standardError > 0)) {
+    return { zScore: 0, pValue: 1 };
+  }
+  const zScore = (selected1 / count1 - selected2 / count2) / standardError;
+  return { zScore, pValue: 2 * (1 - normalCdf(Math.abs(zScore))) };
+}
+
+/**
+ * Two-sided Fisher's exact test for a 2 × 2 table
+ *
+ * Sums the probabilities of every table with the same margins that is no
+ * more likely than the observed one.
+ *
+ * @param selected1 - Selected in the first group
+ * @param count1 - Size of the first group
+ * @param selected2 - Selected in the second group
+ * @param count2 - Size of the second group
+ * @returns Two-sided p-value
+ */
+export function fisherExactTest(
+  selected1: number,
+  count1: number,
+  selected2: number,
+  count2: number
+): number {
+  const total = count1 + count2;
+  const selected = selected1 + selected2;
+  const logFactorial = (n: number) => logGamma(n + 1);
+  const fixed = logFactorial(count1) + logFactorial(count2) + logFactorial(selected) +
+    logFactorial(total - selected) - logFactorial(total);
+  const logProbability = (x: number) =>
+    fixed - logFactorial(x) - logFactorial(count1 - x) - logFactorial(selected - x) -
+    logFactorial(count2 - selected + x);
+
+  const observed = logProbability(selected1);
+  let pValue = 0;
+  for (let x = Math.max(0, selected - count2); x <= Math.min(count1, selected); x++) {
+    const logP = logProbability(x);
+    if (logP <= observed + 1e-7) {
+      pValue += Math.exp(logP);
+    }
+  }
+  return Math.min(pValue, 1);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Calculate selection rates and tests for one gate
+ */
+function analyzeGate(
+  gate: SelectionGate,
+  groups: Array<{ group: string; scores: number[] }>,
+  significanceLevel: number
+): GateImpact {
+  const counts = groups.map(({ group, scores }) => ({
+    group,
+    count: scores.length,
+    selected: scores.filter(score => score >= gate.minPercentage).length,
+  }));
+
+  // Compare every group against the one with the highest selection rate
+  const comparison = counts.reduce<(typeof counts)[number] | undefined>(
+    (best, current) =>
+      !best || current.selected / current.count > best.selected / best.count ? current : best,
+    undefined
+  );
+  const highestRate = comparison ? comparison.selected / comparison.count : 0;
+
+  const rates: GroupSelectionRate[] = counts.map(({ group, count, selected }) => {
+    const selectionRate = selected / count;
+    const impactRatio = highestRate > 0 ? selectionRate / highestRate : 1;
+    const isComparison = group === comparison!.group;
+    const { zScore, pValue } = isComparison
+      ? { zScore: 0, pValue: 1 }
+      : twoProportionZTest(selected, count, comparison!.selected, comparison!.count);
+    const fisherPValue = isComparison
+      ? 1
+      : fisherExactTest(selected, count, comparison!.selected, comparison!.count);
+
+    return {
+      group,
+      count,
+      selected,
+      selectionRate,
+      impactRatio,
+      zScore,
+      zPValue: pValue,
+      fisherPValue,
+      adverseImpact: impactRatio < FOUR_FIFTHS_RATIO,
+      significant: fisherPValue < significanceLevel,
+    };
+  });
+
+  const grouped = counts.reduce((total, group) => total + group.count, 0);
+  return {
+    gate,
+    comparisonGroup: comparison ? comparison.group : '',
+    overallSelectionRate: grouped > 0
+      ? counts.reduce((total, group) => total + group.selected, 0) / grouped
+      : 0,
+    groups: rates,
+    adverselyImpactedGroups: rates.filter(rate => rate.adverseImpact).map(rate => rate.group),
+  };
+}
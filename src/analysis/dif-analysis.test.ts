@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AssessmentResult, QuestionResult } from '../types/assessment.types';
+import { createSeededRandom } from '../delivery/randomizer';
+import { probabilityCorrect } from '../irt/irt-model';
+import { analyzeDif, calculateMantelHaenszel, classifyEts } from './dif-analysis';
+
+/**
+ * Expand 2 × 2 tables ([A, B, C, D] per total score) into responses
+ */
+function responsesFromTables(tables: Record<number, number[]>) {
+  const responses: Array<{ correct: boolean; total: number; focal: boolean }> = [];
+  for (const [total, cells] of Object.entries(tables)) {
+    cells.forEach((count, cell) => {
+      for (let i = 0; i < count; i++) {
+        responses.push({ correct: cell % 2 === 0, total: Number(total), focal: cell >= 2 });
+      }
+    });
+  }
+  return responses;
+}
+
+function questionResult(questionId: string, correct: boolean): QuestionResult {
+  return {
+    questionId,
+    category: 'Logical Reasoning',
+    type: 'multipleChoice',
+    userAnswers: [correct ? 0 : 1],
+    correctAnswers: [0],
+    earnedPoints: correct ? 1 : 0,
+    maxPoints: 1,
+    percentage: correct ? 100 : 0,
+    isCorrect: correct,
+    isPartialCredit: false,
+    weight: 1,
+    responseStatus: 'answered',
+  };
+}
+
+/**
+ * Simulate Rasch responses for two equally able groups; q-0 is one logit
+ * harder for the focal group
+ */
+function simulateGroups(size: number, seed: string): Array<AssessmentResult & { group: string }> {
+  const random = createSeededRandom(seed);
+  const results: Array<AssessmentResult & { group: string }> = [];
+  for (let person = 0; person < 2 * size; person++) {
+    const group = person < size ? 'reference' : 'focal';
+    const theta = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const questions = [-1.5, -1, -0.5, 0, 0.5, 1, 1.5, -0.25, 0.25, 0.75].map((difficulty, item) => {
+      const shifted = item === 0 && group === 'focal' ? difficulty + 1 : difficulty;
+      return questionResult(`q-${item}`, random() < probabilityCorrect(theta, { difficulty: shifted }));
+    });
+    results.push({ questions, group } as AssessmentResult & { group: string });
+  }
+  return results;
+}
+
+test('Mantel-Haenszel statistics for a worked two-stratum example', () => {
+  // α = (10·25/60 + 30·20/80) / (20·5/60 + 10·20/80) = 2.8
+  // χ² = (|40 - 32.5| - 0.5)² / (2.860169 + 4.746835) = 6.44143
+  const mh = calculateMantelHaenszel(responsesFromTables({ 1: [10, 20, 5, 25], 2: [30, 10, 20, 20] }))!;
+  assert.ok(Math.abs(mh.commonOddsRatio - 2.8) < 1e-12);
+  assert.ok(Math.abs(mh.deltaDif - -2.35 * Math.log(2.8)) < 1e-12);
+  assert.ok(Math.abs(mh.chiSquare - 6.44143) < 1e-4);
+  assert.ok(Math.abs(mh.pValue - 0.01115) < 1e-4);
+  assert.equal(mh.strataCount, 2);
+});
+
+test('Mantel-Haenszel needs both groups and both outcomes in a stratum', () => {
+  assert.equal(calculateMantelHaenszel(responsesFromTables({ 1: [10, 0, 5, 0] })), null);
+});
+
+test('ETS classes follow the D-DIF magnitude and significance', () => {
+  assert.equal(classifyEts(-0.5, 0.3, 0.001), 'A');
+  assert.equal(classifyEts(-1.2, 0.3, 0.001), 'B');
+  assert.equal(classifyEts(-2, 0.2, 0.001), 'C');
+  assert.equal(classifyEts(-2, 0.2, 0.2), 'A');
+  // Large but imprecise: not significantly above 1
+  assert.equal(classifyEts(-1.6, 0.5, 0.001), 'B');
+});
+
+test('analyzeDif flags a question that is harder for the focal group', () => {
+  const results = simulateGroups(500, 'dif-simulation');
+  const report = analyzeDif(results, {
+    groupBy: result => (result as AssessmentResult & { group: string }).group,
+    referenceGroup: 'reference',
+  });
+  const [comparison] = report.comparisons;
+  const shifted = comparison.questions.find(question => question.questionId === 'q-0')!;
+
+  assert.equal(comparison.focalGroup, 'focal');
+  assert.notEqual(shifted.etsClass, 'A');
+  assert.equal(shifted.favors, 'reference');
+  assert.ok(shifted.mantelHaenszel!.deltaDif < -1);
+  assert.ok(shifted.logisticRegression!.uniformPValue < 0.001);
+  assert.ok(comparison.questions.filter(question => question.flagged).length <= 2);
+});
+
+test('excluded responses are left out of DIF', () => {
+  const results = simulateGroups(200, 'dif-exclusion').map((result, index) => index % 2 === 0 ? result : {
+    ...result,
+    questions: result.questions.map(question => question.questionId === 'q-1'
+      ? { ...question, earnedPoints: 0, maxPoints: 0, weight: 0, excluded: true, responseStatus: 'omitted' as const }
+      : question),
+  });
+  const report = analyzeDif(results, {
+    groupBy: result => (result as AssessmentResult & { group: string }).group,
+    referenceGroup: 'reference',
+  });
+  const q1 = report.comparisons[0].questions.find(question => question.questionId === 'q-1')!;
+  assert.deepEqual(q1.responseCounts, { reference: 100, focal: 100 });
+});
@@ -0,0 +1,548 @@
+/**
+ * Differential Item Functioning (DIF) Analyzer
+ *
+ * This module checks whether questions behave differently for candidates of
+ * equal ability from different groups (e.g. background or language), so
+ * unfair questions can be reviewed. Candidates are matched on total earned
+ * points (before formula-scoring penalties); a question is right only when fully correct. Responses the response
+ * policy excluded from the score are left out.
+ *
+ * 1. Mantel-Haenszel, across total-score strata k:
+ *    Common odds ratio α = Σ(A_k × D_k / N_k) / Σ(B_k × C_k / N_k)
+ *    (A/B = reference right/wrong, C/D = focal right/wrong)
+ *    MH D-DIF = -2.35 × ln(α)
+ *    χ² = (|Σ A_k - Σ E(A_k)| - 0.5)² / Σ Var(A_k)
+ * 2. ETS classes from MH D-DIF:
+ *    A: |D-DIF| < 1 or not significant
+ *    C: |D-DIF| ≥ 1.5 and significantly above 1
+ *    B: otherwise
+ * 3. Logistic regression of the item on total (T), group (G) and T × G:
+ *    Uniform DIF = model with G vs. T only (χ², df = 1)
+ *    Non-uniform DIF = model with T × G vs. with G (χ², df = 1)
+ *    Effect size = Nagelkerke R² gain from both terms
+ *    (A < 0.035 ≤ B < 0.07 ≤ C, and only when significant)
+ *
+ * Negative D-DIF (or group coefficient) means the question is harder for the
+ * focal group than for reference candidates with the same total.
+ */
+
+import { AssessmentResult, CategoryName, QuestionType } from '../types/assessment.types';
+import {
+  CategoryFairness,
+  DifClass,
+  DifComparison,
+  DifDirection,
+  DifReport,
+  LogisticRegressionDif,
+  MantelHaenszelDif,
+  QuestionDif,
+} from '../types/analysis.types';
+import { calculateTotalEarned, getScoredQuestions } from './item-analysis';
+import { chiSquarePValue, mean, normalQuantile, standardDeviation } from '../utils/statistics';
+
+/**
+ * Options for DIF analysis
+ */
+export interface DifOptions {
+  /** Group of a result (undefined leaves the result out) */
+  groupBy: (result: AssessmentResult) => string | undefined;
+  /** Group the others are compared against */
+  referenceGroup: string;
+  /** Groups to compare (default: every other group) */
+  focalGroups?: string[];
+  /** Minimum responses per group for a question to be analyzed (default 100) */
+  minGroupSize?: number;
+  /** Significance level for DIF tests (default 0.05) */
+  significanceLevel?: number;
+}
+
+/**
+ * Default minimum responses per group
+ */
+export const DEFAULT_DIF_MIN_GROUP_SIZE = 100;
+
+/**
+ * Default significance level
+ */
+export const DEFAULT_DIF_SIGNIFICANCE = 0.05;
+
+/**
+ * ETS class boundaries on the MH D-DIF metric
+ */
+export const ETS_DELTA_THRESHOLDS = { B: 1, C: 1.5 };
+
+/**
+ * Jodoin-Gierl class boundaries on the Nagelkerke R² change
+ */
+export const R_SQUARED_THRESHOLDS = { B: 0.035, C: 0.07 };
+
+/**
+ * One candidate's response to a question, with their total and group
+ */
+interface DifResponse {
+  correct: boolean;
+  total: number;
+  focal: boolean;
+}
+
+/**
+ * Fitted logistic-regression model
+ */
+interface LogisticFit {
+  coefficients: number[];
+  logLikelihood: number;
+}
+
+/**
+ * Analyze DIF across a cohort of results
+ *
+ * @param results - Assessment results for a cohort of candidates
+ * @param options - Grouping, reference group and test settings
+ * @returns DIF statistics per question and a fairness summary per category, for each focal group
+ */
+export function analyzeDif(results: AssessmentResult[], options: DifOptions): DifReport {
+  const minGroupSize = options.minGroupSize ?? DEFAULT_DIF_MIN_GROUP_SIZE;
+  const significanceLevel = options.significanceLevel ?? DEFAULT_DIF_SIGNIFICANCE;
+
+  const groups = new Map<string, AssessmentResult[]>();
+  let ungroupedCount = 0;
+  for (const result of results) {
+    const group = options.groupBy(result);
+    if (group === undefined) {
+      ungroupedCount++;
+      continue;
+    }
+    const existing = groups.get(group) || [];
+    existing.push(result);
+    groups.set(group, existing);
+  }
+
+  const referenceResults = groups.get(options.referenceGroup);
+  if (!referenceResults) {
+    throw new Error(`No results in reference group "${options.referenceGroup}"`);
+  }
+
+  const issues: string[] = [];
+  if (referenceResults.length < minGroupSize) {
+    issues.push(
+      `Reference group "${options.referenceGroup}" has ${referenceResults.length} result(s); ${minGroupSize} needed per question`
+    );
+  }
+
+  const focalGroups = options.focalGroups ??
+    [...groups.keys()].filter(group => group !== options.referenceGroup).sort();
+  const comparisons: DifComparison[] = [];
+  for (const focalGroup of focalGroups) {
+    const focalResults = groups.get(focalGroup) || [];
+    if (focalResults.length < minGroupSize) {
+      issues.push(
+        `Focal group "${focalGroup}" has ${focalResults.length} result(s); at least ${minGroupSize} needed`
+      );
+      continue;
+    }
+    comparisons.push(
+      compareGroups(
+        options.referenceGroup,
+        referenceResults,
+        focalGroup,
+        focalResults,
+        minGroupSize,
+        significanceLevel
+      )
+    );
+  }
+
+  return {
+    referenceGroup: options.referenceGroup,
+    comparisons,
+    ungroupedCount,
+    issues,
+  };
+}
+
+/**
+ * Calculate Mantel-Haenszel DIF statistics
+ *
+ * @param responses - Responses with total score and group
+ * @param significanceLevel - Significance level for the ETS class (default 0.05)
+ * @returns Statistics, or null if no stratum has both groups and both outcomes
+ */
+export function calculateMantelHaenszel(
+  responses: Array<{ correct: boolean; total: number; focal: boolean }>,
+  significanceLevel: number = DEFAULT_DIF_SIGNIFICANCE
+): MantelHaenszelDif | null {
+  // 2 × 2 table per whole-point total score: [A, B, C, D]
+  const strata = new Map<number, number[]>();
+  for (const response of responses) {
+    const key = Math.round(response.total);
+    const cells = strata.get(key) || [0, 0, 0, 0];
+    cells[(response.focal ? 2 : 0) + (response.correct ? 0 : 1)]++;
+    strata.set(key, cells);
+  }
+
+  const informative = [...strata.values()].filter(([a, b, c, d]) =>
+    a + b > 0 && c + d > 0 && a + c > 0 && b + d > 0
+  );
+  if (informative.length === 0) {
+    return null;
+  }
+
+  let observed = 0;
+  let expected = 0;
+  let varianceA = 0;
+  for (const [a, b, c, d] of informative) {
+    const n = a + b + c + d;
+    observed += a;
+    expected += ((a + b) * (a + c)) / n;
+    varianceA += ((a + b) * (c + d) * (a + c) * (b + d)) / (n * n * (n - 1));
+  }
+  const chiSquare = varianceA > 0
+    ? Math.pow(Math.max(Math.abs(observed - expected) - 0.5, 0), 2) / varianceA
+    : 0;
+
+  // Haldane correction when a group never (or always) wins a stratum
+  const degenerate = informative.every(([a, , , d]) => a * d === 0) ||
+    informative.every(([, b, c]) => b * c === 0);
+  const tables = degenerate
+    ? informative.map(cells => cells.map(cell => cell + 0.5))
+    : informative;
+
+  // Robins-Breslow-Greenland variance of ln(α)
+  let sumR = 0;
+  let sumS = 0;
+  let sumPR = 0;
+  let sumPSQR = 0;
+  let sumQS = 0;
+  for (const [a, b, c, d] of tables) {
+    const n = a + b + c + d;
+    const p = (a + d) / n;
+    const q = (b + c) / n;
+    const r = (a * d) / n;
+    const s = (b * c) / n;
+    sumR += r;
+    sumS += s;
+    sumPR += p * r;
+    sumPSQR += p * s + q * r;
+    sumQS += q * s;
+  }
+  const commonOddsRatio = sumR / sumS;
+  const logVariance = sumPR / (2 * sumR * sumR) +
+    sumPSQR / (2 * sumR * sumS) +
+    sumQS / (2 * sumS * sumS);
+
+  const deltaDif = -2.35 * Math.log(commonOddsRatio);
+  const standardError = 2.35 * Math.sqrt(logVariance);
+  const pValue = chiSquarePValue(chiSquare, 1);
+
+  return {
+    commonOddsRatio,
+    deltaDif,
+    standardError,
+    chiSquare,
+    pValue,
+    strataCount: informative.length,
+    etsClass: classifyEts(deltaDif, standardError, pValue, significanceLevel),
+  };
+}
+
+/**
+ * Calculate logistic-regression DIF statistics
+ *
+ * @param responses - Responses with total score and group
+ * @param significanceLevel - Significance level for the effect class (default 0.05)
+ * @returns Statistics, or null if every response was right or every response wrong
+ */
+export function calculateLogisticRegressionDif(
+  responses: Array<{ correct: boolean; total: number; focal: boolean }>,
+  significanceLevel: number = DEFAULT_DIF_SIGNIFICANCE
+): LogisticRegressionDif | null {
+  const n = responses.length;
+  const outcomes = responses.map(response => (response.correct ? 1 : 0));
+  const base = mean(outcomes);
+  if (base === 0 || base === 1) {
+    return null;
+  }
+
+  // Standardize the total so coefficients stay on a similar scale
+  const totals = responses.map(response => response.total);
+  const center = mean(totals);
+  const spread = standardDeviation(totals) || 1;
+  const rows = responses.map(response => {
+    const t = (response.total - center) / spread;
+    const g = response.focal ? 1 : 0;
+    return [1, t, g, t * g];
+  });
+
+  const nullLogLikelihood = n * (base * Math.log(base) + (1 - base) * Math.log(1 - base));
+  const totalOnly = fitLogistic(rows.map(row => row.slice(0, 2)), outcomes);
+  const uniform = fitLogistic(rows.map(row => row.slice(0, 3)), outcomes);
+  const full = fitLogistic(rows, outcomes);
+
+  const uniformChiSquare = Math.max(2 * (uniform.logLikelihood - totalOnly.logLikelihood), 0);
+  const nonUniformChiSquare = Math.max(2 * (full.logLikelihood - uniform.logLikelihood), 0);
+  const totalChiSquare = Math.max(2 * (full.logLikelihood - totalOnly.logLikelihood), 0);
+  const totalPValue = chiSquarePValue(totalChiSquare, 2);
+
+  const nagelkerke = (logLikelihood: number) =>
+    (1 - Math.exp((2 / n) * (nullLogLikelihood - logLikelihood))) /
+    (1 - Math.exp((2 / n) * nullLogLikelihood));
+  const rSquaredChange = Math.max(nagelkerke(full.logLikelihood) - nagelkerke(totalOnly.logLikelihood), 0);
+
+  let effectClass: DifClass = 'A';
+  if (totalPValue < significanceLevel) {
+    if (rSquaredChange >= R_SQUARED_THRESHOLDS.C) {
+      effectClass = 'C';
+    } else if (rSquaredChange >= R_SQUARED_THRESHOLDS.B) {
+      effectClass = 'B';
+    }
+  }
+
+  return {
+    uniformChiSquare,
+    uniformPValue: chiSquarePValue(uniformChiSquare, 1),
+    nonUniformChiSquare,
+    nonUniformPValue: chiSquarePValue(nonUniformChiSquare, 1),
+    totalChiSquare,
+    totalPValue,
+    rSquaredChange,
+    effectClass,
+    groupCoefficient: uniform.coefficients[2],
+  };
+}
+
+/**
+ * Classify MH D-DIF into an ETS class
+ *
+ * @param deltaDif - MH D-DIF
+ * @param standardError - Standard error of MH D-DIF
+ * @param pValue - Significance of the MH chi-square
+ * @param significanceLevel - Significance level (default 0.05)
+ */
+export function classifyEts(
+  deltaDif: number,
+  standardError: number,
+  pValue: number,
+  significanceLevel: number = DEFAULT_DIF_SIGNIFICANCE
+): DifClass {
+  const magnitude = Math.abs(deltaDif);
+  if (magnitude < ETS_DELTA_THRESHOLDS.B || pValue >= significanceLevel) {
+    return 'A';
+  }
+  // One-sided test that |D-DIF| exceeds 1
+  const critical = normalQuantile(1 - significanceLevel);
+  if (
+    magnitude >= ETS_DELTA_THRESHOLDS.C &&
+    standardError > 0 &&
+    (magnitude - ETS_DELTA_THRESHOLDS.B) / standardError > critical
+  ) {
+    return 'C';
+  }
+  return 'B';
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Run DIF analysis for one focal group
+ */
+function compareGroups(
+  referenceGroup: string,
+  referenceResults: AssessmentResult[],
+  focalGroup: string,
+  focalResults: AssessmentResult[],
+  minGroupSize: number,
+  significanceLevel: number
+): DifComparison {
+  const questionInfo = new Map<string, { category: CategoryName; type: QuestionType }>();
+  const responses = new Map<string, DifResponse[]>();
+
+  for (const [groupResults, focal] of [[referenceResults, false], [focalResults, true]] as const) {
+    for (const result of groupResults) {
+      const total = calculateTotalEarned(result);
+      for (const question of getScoredQuestions(result)) {
+        if (!questionInfo.has(question.questionId)) {
+          questionInfo.set(question.questionId, { category: question.category, type: question.type });
+        }
+        const existing = responses.get(question.questionId) || [];
+        existing.push({ correct: question.isCorrect, total, focal });
+        responses.set(question.questionId, existing);
+      }
+    }
+  }
+
+  const questions: QuestionDif[] = [];
+  const skippedQuestions: string[] = [];
+  for (const [questionId, questionResponses] of responses.entries()) {
+    const reference = questionResponses.filter(response => !response.focal);
+    const focal = questionResponses.filter(response => response.focal);
+    if (reference.length < minGroupSize || focal.length < minGroupSize) {
+      skippedQuestions.push(questionId);
+      continue;
+    }
+
+    const mantelHaenszel = calculateMantelHaenszel(questionResponses, significanceLevel);
+    const logisticRegression = calculateLogisticRegressionDif(questionResponses, significanceLevel);
+    const etsClass = mantelHaenszel ? mantelHaenszel.etsClass : 'A';
+    const effectClass = logisticRegression ? logisticRegression.effectClass : 'A';
+
+    let favors: DifDirection = 'none';
+    if (etsClass !== 'A') {
+      favors = mantelHaenszel!.deltaDif < 0 ? 'reference' : 'focal';
+    } else if (effectClass !== 'A') {
+      favors = logisticRegression!.groupCoefficient < 0 ? 'reference' : 'focal';
+    }
+
+    questions.push({
+      questionId,
+      ...questionInfo.get(questionId)!,
+      responseCounts: { reference: reference.length, focal: focal.length },
+      proportionCorrect: {
+        reference: reference.filter(response => response.correct).length / reference.length,
+        focal: focal.filter(response => response.correct).length / focal.length,
+      },
+      mantelHaenszel,
+      logisticRegression,
+      etsClass,
+      favors,
+      flagged: etsClass !== 'A' || effectClass !== 'A',
+    });
+  }
+
+  return {
+    referenceGroup,
+    focalGroup,
+    sampleSizes: { reference: referenceResults.length, focal: focalResults.length },
+    questions,
+    categories: summarizeCategories(questions),
+    skippedQuestions,
+    flaggedCount: questions.filter(question => question.flagged).length,
+  };
+}
+
+/**
+ * Summarize DIF for each category
+ */
+function summarizeCategories(questions: QuestionDif[]): CategoryFairness[] {
+  const categoryMap = new Map<CategoryName, QuestionDif[]>();
+  for (const question of questions) {
+    const existing = categoryMap.get(question.category) || [];
+    existing.push(question);
+    categoryMap.set(question.category, existing);
+  }
+
+  return [...categoryMap.entries()].map(([category, categoryQuestions]) => {
+    const flagged = categoryQuestions.filter(question => question.flagged);
+    const classCounts: Record<DifClass, number> = { A: 0, B: 0, C: 0 };
+    for (const question of categoryQuestions) {
+      classCounts[question.etsClass]++;
+    }
+    return {
+      category,
+      itemCount: categoryQuestions.length,
+      classCounts,
+      netDeltaDif: categoryQuestions.reduce(
+        (total, question) => total + (question.mantelHaenszel?.deltaDif ?? 0),
+        0
+      ),
+      favorsReference: flagged.filter(q => q.favors === 'reference').map(q => q.questionId),
+      favorsFocal: flagged.filter(q => q.favors === 'focal').map(q => q.questionId),
+      flaggedQuestions: flagged.map(question => question.questionId),
+      fair: classCounts.C === 0,
+    };
+  });
+}
+
+/**
+ * Fit a logistic regression by iteratively reweighted least squares
+ */
+function fitLogistic(rows: number[][], outcomes: number[]): LogisticFit {
+  const size = rows[0].length;
+  const coefficients = new Array(size).fill(0);
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const gradient = new Array(size).fill(0);
+    const hessian = Array.from({ length: size }, () => new Array(size).fill(0));
+    rows.forEach((row, index) => {
+      const p = logistic(dot(row, coefficients));
+      const weight = p * (1 - p);
+      for (let i = 0; i < size; i++) {
+        gradient[i] += row[i] * (outcomes[index] - p);
+        for (let j = 0; j < size; j++) {
+          hessian[i][j] += row[i] * row[j] * weight;
+        }
+      }
+    });
+    // Small ridge keeps the step finite under (quasi-)separation
+    for (let i = 0; i < size; i++) {
+      hessian[i][i] += 1e-8;
+    }
+
+    const step = solveLinearSystem(hessian, gradient);
+    for (let i = 0; i < size; i++) {
+      coefficients[i] += step[i];
+    }
+    if (Math.max(...step.map(Math.abs)) < 1e-8) {
+      break;
+    }
+  }
+
+  let logLikelihood = 0;
+  rows.forEach((row, index) => {
+    const p = Math.min(Math.max(logistic(dot(row, coefficients)), 1e-12), 1 - 1e-12);
+    logLikelihood += outcomes[index] ? Math.log(p) : Math.log(1 - p);
+  });
+  return { coefficients, logLikelihood };
+}
+
+/**
+ * Solve A × x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const size = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) {
+        pivot = row;
+      }
+    }
+    [a[column], a[pivot]] = [a[pivot], a[column]];
+    if (Math.abs(a[column][column]) < 1e-300) {
+      continue;
+    }
+    for (let row = column + 1; row < size; row++) {
+      const factor = a[row][column] / a[column][column];
+      for (let k = column; k <= size; k++) {
+        a[row][k] -= factor * a[column][k];
+      }
+    }
+  }
+
+  const solution = new Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let value = a[row][size];
+    for (let k = row + 1; k < size; k++) {
+      value -= a[row][k] * solution[k];
+    }
+    solution[row] = Math.abs(a[row][row]) < 1e-300 ? 0 : value / a[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Logistic function
+ */
+function logistic(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+/**
+ * Dot product of two vectors
+ */
+function dot(x: number[], y: number[]): number {
+  return x.reduce((total, value, index) => total + value * y[index], 0);
+}
@@ -0,0 +1,170 @@
+/**
+ * Distractor Analyzer
+ *
+ * This module checks how every answer option of multiple choice and
+ * multiple select questions behaves across a cohort of results:
+ *
+ * 1. Candidates are split into lower, middle and upper ability groups by
+ *    total earned points before formula-scoring penalties (upper and lower
+ *    27% by default)
+ * 2. Each option's selection rate is computed overall and per group
+ * 3. Discrimination = Upper-group rate - Lower-group rate
+ *    (keys should be positive, distractors negative)
+ *
+ * A distractor is non-functioning when almost nobody picks it, and a likely
+ * miskey when upper-group candidates pick it more often than the key.
+ */
+
+import { AssessmentResult, Question, QuestionResult } from '../types/assessment.types';
+import {
+  AbilityGroup,
+  DistractorAnalysisReport,
+  OptionStatistics,
+  QuestionDistractorAnalysis,
+} from '../types/analysis.types';
+import { calculateTotalEarned } from './item-analysis';
+import { countResponseStatuses } from '../scoring/response-status';
+import { mean } from '../utils/statistics';
+
+/**
+ * Options for distractor analysis
+ */
+export interface DistractorAnalysisOptions {
+  /** Share of candidates in each of the upper and lower groups (default 0.27) */
+  groupFraction?: number;
+  /** Selection rate below which a distractor is non-functioning (default 0.05) */
+  nonFunctioningRate?: number;
+}
+
+/**
+ * Default distractor analysis options
+ */
+export const DEFAULT_DISTRACTOR_OPTIONS: Required<DistractorAnalysisOptions> = {
+  groupFraction: 0.27,
+  nonFunctioningRate: 0.05,
+};
+
+/**
+ * Analyze answer options across a cohort of results
+ *
+ * @param results - Assessment results for a cohort of candidates
+ * @param questions - Questions the results belong to (for the full option list)
+ * @param options - Analysis options
+ * @returns Option statistics for every multiple choice and multiple select question
+ */
+export function analyzeDistractors(
+  results: AssessmentResult[],
+  questions: Question[],
+  options: DistractorAnalysisOptions = {}
+): DistractorAnalysisReport {
+  const settings = { ...DEFAULT_DISTRACTOR_OPTIONS, ...options };
+  const groups = assignAbilityGroups(results, settings.groupFraction);
+
+  const groupSizes: Record<AbilityGroup, number> = { lower: 0, middle: 0, upper: 0 };
+  for (const group of groups) {
+    groupSizes[group]++;
+  }
+
+  const analyzed = questions.filter(
+    question => question.type === 'multipleChoice' || question.type === 'multipleSelect'
+  );
+
+  return {
+    sampleSize: results.length,
+    groupSizes,
+    questions: analyzed.map(question => analyzeQuestion(question, results, groups, settings)),
+  };
+}
+
+/**
+ * Assign each result to an ability group by total earned points
+ *
+ * Ties at a group boundary go to the group reached first in score order.
+ *
+ * @param results - Assessment results
+ * @param groupFraction - Share of candidates in each of the upper and lower groups
+ * @returns Group for each result, in the same order as results
+ */
+export function assignAbilityGroups(
+  results: AssessmentResult[],
+  groupFraction: number = DEFAULT_DISTRACTOR_OPTIONS.groupFraction
+): AbilityGroup[] {
+  const groupSize = Math.max(1, Math.round(results.length * groupFraction));
+  const ranked = results
+    .map((result, index) => ({ index, total: calculateTotalEarned(result) }))
+    .sort((a, b) => a.total - b.total);
+
+  const groups: AbilityGroup[] = new Array(results.length).fill('middle');
+  ranked.forEach(({ index }, rank) => {
+    if (rank < groupSize) {
+      groups[index] = 'lower';
+    } else if (rank >= results.length - groupSize) {
+      groups[index] = 'upper';
+    }
+  });
+  return groups;
+}
+
+/**
+ * Calculate option statistics for a single question
+ */
+function analyzeQuestion(
+  question: Question,
+  results: AssessmentResult[],
+  groups: AbilityGroup[],
+  settings: Required<DistractorAnalysisOptions>
+): QuestionDistractorAnalysis {
+  // Responses to this question, tagged with the candidate's ability group
+  const responses: Array<{ result: QuestionResult; group: AbilityGroup }> = [];
+  results.forEach((result, index) => {
+    const questionResult = result.questions.find(q => q.questionId === question.id);
+    if (questionResult) {
+      responses.push({ result: questionResult, group: groups[index] });
+    }
+  });
+
+  const selectionRate = (optionId: number, group?: AbilityGroup): number => {
+    const pool = group ? responses.filter(response => response.group === group) : responses;
+    return mean(pool.map(response => (response.result.userAnswers.includes(optionId) ? 1 : 0)));
+  };
+
+  const keyUpperRates = question.correctAnswers.map(key => selectionRate(key, 'upper'));
+  const keyUpperRate = keyUpperRates.length > 0 ? Math.min(...keyUpperRates) : 0;
+
+  const optionStatistics: OptionStatistics[] = question.answers.map(answer => {
+    const isKey = question.correctAnswers.includes(answer.id);
+    const rate = selectionRate(answer.id);
+    const byGroup: Record<AbilityGroup, number> = {
+      lower: selectionRate(answer.id, 'lower'),
+      middle: selectionRate(answer.id, 'middle'),
+      upper: selectionRate(answer.id, 'upper'),
+    };
+
+    return {
+      optionId: answer.id,
+      text: answer.text,
+      isKey,
+      selectionRate: rate,
+      selectionRateByGroup: byGroup,
+      discrimination: byGroup.upper - byGroup.lower,
+      nonFunctioning: !isKey && rate < settings.nonFunctioningRate,
+      likelyMiskey: !isKey && responses.length > 0 && byGroup.upper > keyUpperRate,
+    };
+  });
+
+  return {
+    questionId: question.id,
+    category: question.category,
+    type: question.type,
+    responseCount: responses.length,
+    omissionRate: mean(responses.map(response => (response.result.responseStatus !== 'answered' ? 1 : 0))),
+    responseCounts: countResponseStatuses(responses.map(response => response.result)),
+    options: optionStatistics,
+    nonFunctioningDistractors: optionStatistics
+      .filter(option => option.nonFunctioning)
+      .map(option => option.optionId),
+    likelyMiskeys: optionStatistics
+      .filter(option => option.likelyMiskey)
+      .map(option => option.optionId),
+  };
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AssessmentResult, FormulaScoringOptions, Question, ResponsePolicy } from '../types/assessment.types';
+import { scoreQuestions } from '../scoring/question-scorer';
+import { analyzeItems } from './item-analysis';
+import { analyzeDistractors } from './distractor-analysis';
+
+const choice = (id: string): Question => ({
+  id,
+  text: id,
+  type: 'multipleChoice',
+  category: 'Logical Reasoning',
+  answers: [
+    { id: 0, text: 'A' },
+    { id: 1, text: 'B' },
+    { id: 2, text: 'C' },
+    { id: 3, text: 'D' },
+  ],
+  correctAnswers: [0],
+  score: 10,
+  weight: 1,
+});
+
+const matching: Question = {
+  id: 'match',
+  text: 'Match each item',
+  type: 'matching',
+  category: 'Logical Reasoning',
+  premises: [
+    { id: 0, text: 'One' },
+    { id: 1, text: 'Two' },
+  ],
+  answers: [
+    { id: 0, text: '1' },
+    { id: 1, text: '2' },
+  ],
+  correctAnswers: [0, 1],
+  score: 10,
+  weight: 1,
+};
+
+const questions = [choice('q-1'), matching, choice('q-2'), choice('q-3')];
+
+function score(
+  answers: Record<string, number[]>[],
+  responsePolicy?: ResponsePolicy,
+  formulaScoring?: FormulaScoringOptions
+): AssessmentResult[] {
+  return answers.map(userAnswers => ({
+    questions: scoreQuestions(
+      questions,
+      userAnswers,
+      undefined,
+      undefined,
+      undefined,
+      formulaScoring,
+      undefined,
+      responsePolicy
+    ),
+  }) as AssessmentResult);
+}
+
+// q-1 is skipped by two candidates who go on to answer later questions
+const cohort = [
+  { 'q-1': [0], match: [0, 1], 'q-2': [0], 'q-3': [0] },
+  { 'q-1': [0], match: [0, -1], 'q-2': [0], 'q-3': [1] },
+  { 'q-1': [1], match: [-1, -1], 'q-2': [1], 'q-3': [0] },
+  { 'q-1': [], match: [1, 0], 'q-2': [0], 'q-3': [1] },
+  { 'q-1': [], match: [-1, -1], 'q-2': [1], 'q-3': [1] },
+  { 'q-1': [2], match: [0, 1], 'q-2': [1], 'q-3': [0] },
+];
+
+test('excluded responses are left out of item statistics', () => {
+  const included = analyzeItems(score(cohort)).items.find(item => item.questionId === 'q-1')!;
+  const excluded = analyzeItems(score(cohort, { omitted: 'excluded' })).items.find(item => item.questionId === 'q-1')!;
+
+  // Scored as wrong: 2 right of 6; excluded: 2 right of the 4 who answered
+  assert.equal(included.pValue, 2 / 6);
+  assert.equal(excluded.pValue, 2 / 4);
+  assert.equal(excluded.scoredCount, 4);
+  assert.equal(excluded.responseCount, 6);
+  assert.equal(excluded.omissionRate, 2 / 6);
+});
+
+test('omission follows the response status, including unmatched matching answers', () => {
+  const match = analyzeItems(score(cohort)).items.find(item => item.questionId === 'match')!;
+  assert.equal(match.omissionRate, 2 / 6);
+  assert.deepEqual(match.responseCounts, { answered: 4, omitted: 2, notReached: 0, timedOut: 0 });
+
+  const distractors = analyzeDistractors(score(cohort, { omitted: 'excluded' }), questions);
+  const q1 = distractors.questions.find(question => question.questionId === 'q-1')!;
+  assert.equal(q1.omissionRate, 2 / 6);
+  assert.deepEqual(q1.responseCounts, { answered: 4, omitted: 2, notReached: 0, timedOut: 0 });
+});
+
+test('item statistics use points before formula-scoring penalties', () => {
+  const raw = analyzeItems(score(cohort)).items;
+  const penalized = analyzeItems(score(cohort, undefined, { mode: 'negativeMarking', penalty: 0.5 })).items;
+  assert.deepEqual(
+    penalized.map(item => [item.pValue, item.correctedItemTotal]),
+    raw.map(item => [item.pValue, item.correctedItemTotal])
+  );
+});
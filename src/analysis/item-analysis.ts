@@ -0,0 +1,183 @@
+/**
+ * Item Analyzer
+ *
+ * This module computes classical test theory statistics for every question
+ * across a cohort of results, so broken questions can be found and fixed:
+ *
+ * 1. Item score = Earned Points / Max Points (0-1), using the points before any
+ *    formula-scoring penalty so negative marking does not distort the statistics
+ * 2. p-value = Mean item score (difficulty, higher = easier)
+ * 3. Point-biserial = Correlation of item score with total earned points
+ * 4. Corrected item-total = Correlation with total excluding the question itself
+ * 5. Omission rate = Share of responses not answered (omitted, not reached or
+ *    timed out), with a count of each response status
+ *
+ * Questions are flagged when too easy, too hard, or negatively discriminating
+ * (candidates who do well overall do worse on the question). Responses the
+ * response policy excluded from the score are left out of the statistics.
+ */
+
+import { AssessmentResult, CategoryName, QuestionResult } from '../types/assessment.types';
+import {
+  CategoryItemAnalysis,
+  ItemAnalysisReport,
+  ItemFlag,
+  ItemStatistics,
+} from '../types/analysis.types';
+import { countResponseStatuses } from '../scoring/response-status';
+import { mean, pearsonCorrelation } from '../utils/statistics';
+
+/**
+ * Thresholds for flagging questions
+ */
+export interface ItemAnalysisThresholds {
+  /** p-value above which a question is too easy (default 0.9) */
+  tooEasy: number;
+  /** p-value below which a question is too hard (default 0.2) */
+  tooHard: number;
+}
+
+/**
+ * Default flagging thresholds
+ */
+export const DEFAULT_ITEM_THRESHOLDS: ItemAnalysisThresholds = {
+  tooEasy: 0.9,
+  tooHard: 0.2,
+};
+
+/**
+ * Analyze every question across a cohort of results
+ *
+ * @param results - Assessment results for a cohort of candidates
+ * @param thresholds - Flagging thresholds
+ * @returns Item statistics with a summary per category
+ */
+export function analyzeItems(
+  results: AssessmentResult[],
+  thresholds: Partial<ItemAnalysisThresholds> = {}
+): ItemAnalysisReport {
+  const limits = { ...DEFAULT_ITEM_THRESHOLDS, ...thresholds };
+  const totals = results.map(calculateTotalEarned);
+
+  // Collect each question's results alongside the candidate's total
+  const responses = new Map<string, Array<{ result: QuestionResult; total: number }>>();
+  results.forEach((result, index) => {
+    for (const question of result.questions) {
+      const existing = responses.get(question.questionId) || [];
+      existing.push({ result: question, total: totals[index] });
+      responses.set(question.questionId, existing);
+    }
+  });
+
+  const items: ItemStatistics[] = [];
+  for (const [questionId, questionResponses] of responses.entries()) {
+    items.push(calculateItemStatistics(questionId, questionResponses, limits));
+  }
+
+  return {
+    sampleSize: results.length,
+    items,
+    categories: summarizeCategories(items),
+    flaggedCount: items.filter(item => item.flags.length > 0).length,
+  };
+}
+
+/**
+ * Get the points earned on a question before any formula-scoring penalty
+ */
+export function getRawPoints(result: QuestionResult): number {
+  return result.formulaScore?.rawPoints ?? result.earnedPoints;
+}
+
+/**
+ * Get the item score of a question result (earned / max points, 0-1)
+ */
+export function getItemScore(result: QuestionResult): number {
+  return result.maxPoints > 0 ? getRawPoints(result) / result.maxPoints : 0;
+}
+
+/**
+ * Get the question results that count toward a candidate's score
+ * (questions the response policy excluded are left out)
+ */
+export function getScoredQuestions(result: AssessmentResult): QuestionResult[] {
+  return result.questions.filter(question => !question.excluded);
+}
+
+/**
+ * Get a candidate's total earned points (before formula-scoring penalties)
+ */
+export function calculateTotalEarned(result: AssessmentResult): number {
+  return getScoredQuestions(result).reduce((total, question) => total + getRawPoints(question), 0);
+}
+
+/**
+ * Calculate statistics for a single question
+ */
+function calculateItemStatistics(
+  questionId: string,
+  responses: Array<{ result: QuestionResult; total: number }>,
+  limits: ItemAnalysisThresholds
+): ItemStatistics {
+  const { category, type } = responses[0].result;
+  const scored = responses.filter(response => !response.result.excluded);
+  const itemScores = scored.map(response => getItemScore(response.result));
+  const totals = scored.map(response => response.total);
+  const restTotals = scored.map(response => response.total - getRawPoints(response.result));
+
+  const times = responses
+    .map(response => response.result.timeSpent)
+    .filter((time): time is number => typeof time === 'number');
+
+  const pValue = mean(itemScores);
+  const correctedItemTotal = pearsonCorrelation(itemScores, restTotals);
+
+  const flags: ItemFlag[] = [];
+  if (pValue > limits.tooEasy) {
+    flags.push('tooEasy');
+  }
+  if (pValue < limits.tooHard) {
+    flags.push('tooHard');
+  }
+  if (correctedItemTotal < 0) {
+    flags.push('negativeDiscrimination');
+  }
+
+  return {
+    questionId,
+    category,
+    type,
+    responseCount: responses.length,
+    scoredCount: scored.length,
+    pValue,
+    pointBiserial: pearsonCorrelation(itemScores, totals),
+    correctedItemTotal,
+    omissionRate: responses.filter(response => response.result.responseStatus !== 'answered').length /
+      responses.length,
+    responseCounts: countResponseStatuses(responses.map(response => response.result)),
+    meanTimeSpent: times.length > 0 ? mean(times) : null,
+    flags,
+  };
+}
+
+/**
+ * Summarize item statistics by category
+ */
+function summarizeCategories(items: ItemStatistics[]): CategoryItemAnalysis[] {
+  const categoryMap = new Map<CategoryName, ItemStatistics[]>();
+  for (const item of items) {
+    const existing = categoryMap.get(item.category) || [];
+    existing.push(item);
+    categoryMap.set(item.category, existing);
+  }
+
+  return [...categoryMap.entries()].map(([category, categoryItems]) => ({
+    category,
+    itemCount: categoryItems.length,
+    meanPValue: mean(categoryItems.map(item => item.pValue)),
+    meanDiscrimination: mean(categoryItems.map(item => item.correctedItemTotal)),
+    flaggedQuestions: categoryItems
+      .filter(item => item.flags.length > 0)
+      .map(item => item.questionId),
+  }));
+}
@@ -0,0 +1,142 @@
+/**
+ * Local Dependence Analyzer
+ *
+ * This module checks whether questions that share a stimulus behave as
+ * independent items across a cohort of results. Questions in the same
+ * group often depend on each other (e.g. misreading the passage costs
+ * every question), which inflates reliability and distorts scores.
+ *
+ * Method (Yen's Q3, using rest score in place of ability):
+ * 1. Item score = Earned Points / Max Points (before formula-scoring penalties)
+ * 2. Rest score = Total item score on questions outside the group
+ * 3. Residual = Item score - value predicted by regressing on rest score
+ * 4. Q3 = Correlation of the residuals of two questions in the group
+ *
+ * Responses the response policy excluded from the score are treated as
+ * missing, so a result with an excluded question in the group is left out.
+ */
+
+import { AssessmentResult } from '../types/assessment.types';
+import {
+  GroupDependence,
+  LocalDependenceReport,
+  QuestionPairDependence,
+} from '../types/analysis.types';
+import { getItemScore, getScoredQuestions } from './item-analysis';
+import { mean, covariance, variance, pearsonCorrelation } from '../utils/statistics';
+
+/**
+ * Default residual correlation above which a pair is flagged
+ */
+export const DEFAULT_DEPENDENCE_THRESHOLD = 0.2;
+
+/**
+ * Analyze local dependence within question groups
+ *
+ * @param results - Assessment results for a cohort of candidates
+ * @param threshold - Residual correlation above which a pair is flagged
+ * @returns Local dependence statistics for every question group
+ */
+export function analyzeLocalDependence(
+  results: AssessmentResult[],
+  threshold: number = DEFAULT_DEPENDENCE_THRESHOLD
+): LocalDependenceReport {
+  // Collect the questions in each group
+  const groupQuestions = new Map<string, Set<string>>();
+  for (const result of results) {
+    for (const question of result.questions) {
+      if (!question.groupId) {
+        continue;
+      }
+      const existing = groupQuestions.get(question.groupId) || new Set<string>();
+      existing.add(question.questionId);
+      groupQuestions.set(question.groupId, existing);
+    }
+  }
+
+  const groups: GroupDependence[] = [];
+  for (const [groupId, questionIds] of groupQuestions.entries()) {
+    groups.push(analyzeGroupDependence(results, groupId, [...questionIds], threshold));
+  }
+
+  return {
+    sampleSize: results.length,
+    threshold,
+    groups,
+  };
+}
+
+/**
+ * Calculate residual correlations for every question pair in a group
+ */
+function analyzeGroupDependence(
+  results: AssessmentResult[],
+  groupId: string,
+  questionIds: string[],
+  threshold: number
+): GroupDependence {
+  const groupSet = new Set(questionIds);
+
+  // Item scores and rest scores for results that answered the whole group
+  const itemScores: number[][] = questionIds.map(() => []);
+  const restScores: number[] = [];
+
+  for (const result of results) {
+    const scores = new Map<string, number>();
+    let restScore = 0;
+
+    for (const question of getScoredQuestions(result)) {
+      const itemScore = getItemScore(question);
+      if (groupSet.has(question.questionId)) {
+        scores.set(question.questionId, itemScore);
+      } else {
+        restScore += itemScore;
+      }
+    }
+
+    if (scores.size !== questionIds.length) {
+      continue;
+    }
+
+    questionIds.forEach((questionId, index) => itemScores[index].push(scores.get(questionId)!));
+    restScores.push(restScore);
+  }
+
+  const residuals = itemScores.map(scores => calculateResiduals(scores, restScores));
+
+  const pairs: QuestionPairDependence[] = [];
+  for (let i = 0; i < questionIds.length; i++) {
+    for (let j = i + 1; j < questionIds.length; j++) {
+      const residualCorrelation = pearsonCorrelation(residuals[i], residuals[j]);
+      pairs.push({
+        questionA: questionIds[i],
+        questionB: questionIds[j],
+        residualCorrelation,
+        flagged: residualCorrelation > threshold,
+      });
+    }
+  }
+
+  const correlations = pairs.map(pair => pair.residualCorrelation);
+
+  return {
+    groupId,
+    questionCount: questionIds.length,
+    sampleSize: restScores.length,
+    meanResidualCorrelation: mean(correlations),
+    maxResidualCorrelation: correlations.length > 0 ? Math.max(...correlations) : 0,
+    pairs,
+    flagged: pairs.some(pair => pair.flagged),
+  };
+}
+
+/**
+ * Calculate residuals of item scores after a linear regression on rest score
+ */
+function calculateResiduals(itemScores: number[], restScores: number[]): number[] {
+  const restVariance = variance(restScores);
+  const slope = restVariance > 0 ? covariance(itemScores, restScores) / restVariance : 0;
+  const intercept = mean(itemScores) - slope * mean(restScores);
+
+  return itemScores.map((score, index) => score - (intercept + slope * restScores[index]));
+}
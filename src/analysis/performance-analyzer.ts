@@ -11,8 +11,10 @@
 import {
   CategoryResult,
   CategorySummary,
+  NormGroup,
   OverallResult,
   PerformanceClassification,
+  PerformanceThresholds,
 } from '../types/assessment.types';
 import {
   PerformanceAnalysis,
@@ -20,21 +22,28 @@ import {
   PerformanceProfile,
   ProfileAnalysis,
 } from '../types/analysis.types';
-import { getPerformanceClassification, PERFORMANCE_THRESHOLDS } from '../constants/tiers';
+import { PERFORMANCE_THRESHOLDS } from '../constants/tiers';
+import { getIntervalClassifications } from '../scoring/score-precision';
+import { compareToNorms } from '../norms/norm-table';
 
 /**
  * Analyze performance across all categories
  *
  * @param categoryResults - Category results to analyze
  * @param overall - Overall result
+ * @param norms - Reference group for percentile and comparisons (optional)
+ * @param performanceThresholds - Thresholds the categories were classified with
+ *   (default PERFORMANCE_THRESHOLDS)
  * @returns Complete performance analysis
  */
 export function analyzePerformance(
   categoryResults: CategoryResult[],
-  overall: OverallResult
+  overall: OverallResult,
+  norms?: NormGroup,
+  performanceThresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
 ): PerformanceAnalysis {
   // Classify categories by performance level
-  const classified = classifyCategories(categoryResults);
+  const classified = classifyCategories(categoryResults, performanceThresholds);
 
   // Calculate consistency metrics
   const consistency = calculateConsistency(categoryResults);
@@ -45,7 +54,7 @@ export function analyzePerformance(
     consistency.consistencyScore
   );
 
-  return {
+  const analysis: PerformanceAnalysis = {
     exceptional: classified.exceptional,
     strengths: classified.strengths,
     adequate: classified.adequate,
@@ -54,12 +63,29 @@ export function analyzePerformance(
     consistencyScore: consistency.consistencyScore,
     improvementPotential,
   };
+
+  // Compare against the reference group, if any
+  if (norms) {
+    const comparative = compareToNorms(categoryResults, overall, norms);
+    analysis.percentile = comparative.percentile;
+    analysis.averageScore = comparative.benchmarkScore;
+    analysis.comparative = comparative;
+  }
+
+  return analysis;
 }
 
 /**
  * Classify categories into performance levels
+ *
+ * A category is only labeled a critical weakness when its confidence interval
+ * stays within that classification; otherwise it is listed as a weakness and
+ * marked uncertain.
  */
-function classifyCategories(categoryResults: CategoryResult[]): {
+function classifyCategories(
+  categoryResults: CategoryResult[],
+  performanceThresholds: PerformanceThresholds
+): {
   exceptional: CategorySummary[];
   strengths: CategorySummary[];
   adequate: CategorySummary[];
@@ -73,14 +99,19 @@ function classifyCategories(categoryResults: CategoryResult[]): {
   const criticalWeaknesses: CategorySummary[] = [];
 
   for (const category of categoryResults) {
+    const uncertain = getIntervalClassifications(category.confidenceInterval, performanceThresholds).length > 1;
     const summary: CategorySummary = {
       name: category.name,
       percentage: category.percentage,
       tier: category.tier,
       questionCount: category.questionCount,
+      uncertain,
     };
 
-    const classification = getPerformanceClassification(category.percentage);
+    let classification = category.classification;
+    if (classification === 'critical-weakness' && uncertain) {
+      classification = 'weakness';
+    }
 
     switch (classification) {
       case 'exceptional':
@@ -281,7 +312,7 @@ export function generateCategoryInsights(
   categoryResults: CategoryResult[]
 ): CategoryInsight[] {
   return categoryResults.map(category => {
-    const classification = getPerformanceClassification(category.percentage);
+    const classification = category.classification;
     let insight: string;
     let recommendation: string;
     let priority: 'critical' | 'high' | 'medium' | 'low';
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AssessmentResult, QuestionResult } from '../types/assessment.types';
+import { analyzeReliability, cronbachAlpha, spearmanBrown } from './reliability';
+
+// Perfect Guttman pattern: 5 candidates × 4 right/wrong questions
+// KR-20 = (4 / 3) × (1 - Σpq / σ²) = (4 / 3) × (1 - 0.8 / 2) = 0.8
+const guttman = [
+  [1, 1, 1, 1],
+  [1, 1, 1, 0],
+  [1, 1, 0, 0],
+  [1, 0, 0, 0],
+  [0, 0, 0, 0],
+];
+
+function questionResult(questionId: string, points: number): QuestionResult {
+  return {
+    questionId,
+    category: 'Logical Reasoning',
+    type: 'multipleChoice',
+    userAnswers: [points > 0 ? 0 : 1],
+    correctAnswers: [0],
+    earnedPoints: points,
+    maxPoints: 1,
+    percentage: points * 100,
+    isCorrect: points === 1,
+    isPartialCredit: false,
+    weight: 1,
+    responseStatus: 'answered',
+  };
+}
+
+function toResults(matrix: number[][]): AssessmentResult[] {
+  return matrix.map(row => ({
+    questions: row.map((points, item) => questionResult(`q-${item}`, points)),
+  }) as AssessmentResult);
+}
+
+test('KR-20 of a Guttman pattern', () => {
+  const { overall } = analyzeReliability(toResults(guttman));
+  assert.equal(overall.coefficient, 'KR-20');
+  assert.ok(Math.abs(overall.alpha - 0.8) < 1e-12);
+  assert.ok(Math.abs(overall.standardErrorOfMeasurement - Math.sqrt(0.5)) < 1e-12);
+  // Odd/even halves correlate 11 / 14, stepped up to 22 / 25
+  assert.ok(Math.abs(overall.splitHalf - 11 / 14) < 1e-12);
+  assert.ok(Math.abs(overall.spearmanBrown - 0.88) < 1e-12);
+});
+
+test('cronbachAlpha matches KR-20 on item columns', () => {
+  const columns = guttman[0].map((_, item) => guttman.map(row => row[item]));
+  assert.ok(Math.abs(cronbachAlpha(columns) - 0.8) < 1e-12);
+  assert.equal(cronbachAlpha([columns[0]]), 0);
+});
+
+test('spearmanBrown steps reliability up and down', () => {
+  assert.equal(spearmanBrown(0.5, 3), 0.75);
+  assert.ok(Math.abs(spearmanBrown(0.75, 1 / 3) - 0.5) < 1e-12);
+});
+
+test('questions missing from a result are left out', () => {
+  const results = toResults(guttman);
+  results[0] = { ...results[0], questions: results[0].questions.slice(0, 3) };
+  const report = analyzeReliability(results);
+  assert.deepEqual(report.excludedQuestions, ['q-3']);
+  assert.equal(report.overall.itemCount, 3);
+});
+
+test('results with an excluded response are left out', () => {
+  const results = toResults(guttman);
+  results[0] = {
+    ...results[0],
+    questions: results[0].questions.map((question, item) => item === 0
+      ? { ...question, earnedPoints: 0, maxPoints: 0, weight: 0, excluded: true, responseStatus: 'omitted' as const }
+      : question),
+  };
+  const { overall } = analyzeReliability(results);
+  assert.equal(overall.sampleSize, 4);
+  assert.equal(overall.itemCount, 4);
+  assert.equal(overall.maxPoints, 4);
+});
+
+test('item scores are the points before formula-scoring penalties', () => {
+  const results = toResults(guttman).map(result => ({
+    ...result,
+    questions: result.questions.map(question => question.isCorrect ? question : {
+      ...question,
+      earnedPoints: -0.25,
+      formulaScore: { mode: 'negativeMarking' as const, rawPoints: 0, correctedPoints: -0.25, penaltyPoints: 0.25, omitted: false },
+    }),
+  }));
+  const { overall } = analyzeReliability(results);
+  assert.equal(overall.coefficient, 'KR-20');
+  assert.ok(Math.abs(overall.alpha - 0.8) < 1e-12);
+});
@@ -0,0 +1,231 @@
+/**
+ * Reliability Analyzer
+ *
+ * This module estimates how consistently the test measures across a cohort of
+ * results, overall and per category:
+ *
+ * 1. Cronbach's alpha = (k / (k - 1)) × (1 - Σ Item Variance / Total Variance)
+ *    (equal to KR-20 when every question is scored right/wrong)
+ * 2. SEM = Total SD × √(1 - alpha)
+ * 3. Split-half = Correlation of odd and even question totals
+ * 4. Spearman-Brown = 2 × Split-half / (1 + Split-half)
+ * 5. Alpha if item deleted = Alpha recomputed without each question
+ *
+ * Item scores are earned points before formula-scoring penalties, so
+ * weighted and partial-credit questions count as they do in the total. Only questions present in every result are
+ * used; adaptive or multi-form cohorts should be analyzed per form. Results
+ * with a response the response policy excluded from the score are left out.
+ */
+
+import { AssessmentResult, CategoryName } from '../types/assessment.types';
+import {
+  CategoryReliability,
+  ItemDeletionStatistic,
+  ReliabilityReport,
+  ReliabilityStatistics,
+} from '../types/analysis.types';
+import { getRawPoints } from './item-analysis';
+import { mean, pearsonCorrelation, standardDeviation, sum, variance } from '../utils/statistics';
+
+/**
+ * Thresholds for reporting a category on its own
+ */
+export interface ReliabilityThresholds {
+  /** Minimum alpha for a reportable category (default 0.7) */
+  minReliability: number;
+  /** Minimum number of questions for a reportable category (default 3) */
+  minItems: number;
+}
+
+/**
+ * Default reporting thresholds
+ */
+export const DEFAULT_RELIABILITY_THRESHOLDS: ReliabilityThresholds = {
+  minReliability: 0.7,
+  minItems: 3,
+};
+
+/**
+ * Points earned on one question by every candidate
+ */
+interface ItemColumn {
+  questionId: string;
+  category: CategoryName;
+  maxPoints: number;
+  dichotomous: boolean;
+  scores: number[];
+}
+
+/**
+ * Analyze reliability across a cohort of results
+ *
+ * @param results - Assessment results for a cohort of candidates
+ * @param thresholds - Thresholds for reporting categories
+ * @returns Overall and per-category reliability
+ */
+export function analyzeReliability(
+  results: AssessmentResult[],
+  thresholds: Partial<ReliabilityThresholds> = {}
+): ReliabilityReport {
+  const limits = { ...DEFAULT_RELIABILITY_THRESHOLDS, ...thresholds };
+  const scored = results.filter(result => result.questions.every(question => !question.excluded));
+  const { items, excludedQuestions } = buildItemColumns(scored);
+
+  const categoryMap = new Map<CategoryName, ItemColumn[]>();
+  for (const item of items) {
+    const existing = categoryMap.get(item.category) || [];
+    existing.push(item);
+    categoryMap.set(item.category, existing);
+  }
+
+  const categories: CategoryReliability[] = [...categoryMap.entries()].map(
+    ([category, categoryItems]) => {
+      const statistics = calculateReliability(categoryItems, scored.length);
+      const issues: string[] = [];
+      if (statistics.itemCount < limits.minItems) {
+        issues.push(
+          `Only ${statistics.itemCount} question(s); at least ${limits.minItems} needed for a reliable score`
+        );
+      }
+      if (statistics.itemCount >= 2 && statistics.alpha < limits.minReliability) {
+        issues.push(
+          `${statistics.coefficient} of ${statistics.alpha.toFixed(2)} is below ${limits.minReliability}`
+        );
+      }
+      return { category, ...statistics, reportable: issues.length === 0, issues };
+    }
+  );
+
+  return {
+    overall: calculateReliability(items, scored.length),
+    categories,
+    excludedQuestions,
+  };
+}
+
+/**
+ * Calculate Cronbach's alpha from per-question score columns
+ *
+ * @param itemScores - Scores for each question (one array per question, candidates in the same order)
+ * @returns Alpha (0 with fewer than two questions or no total-score variance)
+ */
+export function cronbachAlpha(itemScores: number[][]): number {
+  const k = itemScores.length;
+  if (k < 2) {
+    return 0;
+  }
+  const totals = sumColumns(itemScores);
+  const totalVariance = variance(totals, true);
+  if (totalVariance === 0) {
+    return 0;
+  }
+  const itemVariance = sum(itemScores.map(scores => variance(scores, true)));
+  return (k / (k - 1)) * (1 - itemVariance / totalVariance);
+}
+
+/**
+ * Step a reliability coefficient up (or down) with the Spearman-Brown formula
+ *
+ * @param reliability - Reliability of the current test
+ * @param lengthFactor - New length / current length (default 2, for split-half)
+ */
+export function spearmanBrown(reliability: number, lengthFactor: number = 2): number {
+  const denominator = 1 + (lengthFactor - 1) * reliability;
+  return denominator !== 0 ? (lengthFactor * reliability) / denominator : 0;
+}
+
+/**
+ * Collect earned points per question for questions present in every result
+ */
+function buildItemColumns(
+  results: AssessmentResult[]
+): { items: ItemColumn[]; excludedQuestions: string[] } {
+  const counts = new Map<string, number>();
+  for (const result of results) {
+    for (const question of result.questions) {
+      counts.set(question.questionId, (counts.get(question.questionId) || 0) + 1);
+    }
+  }
+
+  const items: ItemColumn[] = [];
+  const excludedQuestions: string[] = [];
+  if (results.length === 0) {
+    return { items, excludedQuestions };
+  }
+
+  // Keep the question order of the first result (used for the odd/even split)
+  const ordered = [...counts.keys()];
+  for (const questionId of ordered) {
+    if (counts.get(questionId) !== results.length) {
+      excludedQuestions.push(questionId);
+      continue;
+    }
+    const questionResults = results.map(
+      result => result.questions.find(question => question.questionId === questionId)!
+    );
+    const maxPoints = questionResults[0].maxPoints;
+    items.push({
+      questionId,
+      category: questionResults[0].category,
+      maxPoints,
+      dichotomous: questionResults.every(
+        question => getRawPoints(question) === 0 || getRawPoints(question) === maxPoints
+      ),
+      scores: questionResults.map(getRawPoints),
+    });
+  }
+
+  return { items, excludedQuestions };
+}
+
+/**
+ * Calculate reliability statistics for a set of questions
+ */
+function calculateReliability(items: ItemColumn[], sampleSize: number): ReliabilityStatistics {
+  const itemScores = items.map(item => item.scores);
+  const totals = sumColumns(itemScores);
+  const maxPoints = sum(items.map(item => item.maxPoints));
+
+  const alpha = cronbachAlpha(itemScores);
+  const sd = standardDeviation(totals, true);
+  const sem = sd * Math.sqrt(1 - Math.max(0, Math.min(1, alpha)));
+
+  // Odd/even split keeps categories and difficulty spread across both halves
+  let splitHalf = 0;
+  if (items.length >= 2) {
+    splitHalf = pearsonCorrelation(
+      sumColumns(itemScores.filter((_, index) => index % 2 === 0)),
+      sumColumns(itemScores.filter((_, index) => index % 2 === 1))
+    );
+  }
+
+  const alphaIfItemDeleted: ItemDeletionStatistic[] = items.map((item, index) => ({
+    questionId: item.questionId,
+    alphaIfDeleted: cronbachAlpha(itemScores.filter((_, other) => other !== index)),
+  }));
+
+  return {
+    itemCount: items.length,
+    sampleSize,
+    coefficient: items.length > 0 && items.every(item => item.dichotomous) ? 'KR-20' : 'alpha',
+    alpha,
+    splitHalf,
+    spearmanBrown: spearmanBrown(splitHalf),
+    maxPoints,
+    meanScore: mean(totals),
+    standardDeviation: sd,
+    standardErrorOfMeasurement: sem,
+    standardErrorPercentage: maxPoints > 0 ? (sem / maxPoints) * 100 : 0,
+    alphaIfItemDeleted,
+  };
+}
+
+/**
+ * Sum score columns into one total per candidate
+ */
+function sumColumns(columns: number[][]): number[] {
+  if (columns.length === 0) {
+    return [];
+  }
+  return columns[0].map((_, candidate) => sum(columns.map(scores => scores[candidate])));
+}
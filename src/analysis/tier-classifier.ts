@@ -10,9 +10,12 @@ import {
   TierRank,
   TierDefinition,
   PerformanceClassification,
+  PerformanceThresholds,
   CategoryResult,
+  AssessmentResult,
 } from '../types/assessment.types';
 import {
+  PERFORMANCE_THRESHOLDS,
   TIER_DEFINITIONS,
   getTierFromPercentage,
   getTierRank,
@@ -21,6 +24,7 @@ import {
   getTierProgression,
   TierProgression,
 } from '../constants/tiers';
+import { getEquatedPercentage } from '../forms/equating';
 
 /**
  * Classify a single score
@@ -38,14 +42,20 @@ export interface ScoreClassification {
  * Classify a score into tier and performance level
  *
  * @param percentage - Score percentage (0-100)
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
+ * @param thresholds - Classification thresholds (default PERFORMANCE_THRESHOLDS)
  * @returns Complete classification with tier and performance details
  */
-export function classifyScore(percentage: number): ScoreClassification {
-  const tier = getTierFromPercentage(percentage);
-  const rank = getTierRank(tier);
-  const classification = getPerformanceClassification(percentage);
-  const tierDefinition = getTierDefinition(tier);
-  const progression = getTierProgression(percentage);
+export function classifyScore(
+  percentage: number,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS,
+  thresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
+): ScoreClassification {
+  const tier = getTierFromPercentage(percentage, definitions);
+  const rank = getTierRank(tier, definitions);
+  const classification = getPerformanceClassification(percentage, thresholds);
+  const tierDefinition = getTierDefinition(tier, definitions);
+  const progression = getTierProgression(percentage, definitions);
 
   return {
     percentage,
@@ -60,8 +70,12 @@ export function classifyScore(percentage: number): ScoreClassification {
 /**
  * Classify multiple scores at once
  */
-export function classifyScores(percentages: number[]): ScoreClassification[] {
-  return percentages.map(classifyScore);
+export function classifyScores(
+  percentages: number[],
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS,
+  thresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
+): ScoreClassification[] {
+  return percentages.map(percentage => classifyScore(percentage, definitions, thresholds));
 }
 
 /**
@@ -80,20 +94,21 @@ export interface TierDistribution {
  * Calculate tier distribution across multiple scores
  *
  * @param percentages - Array of score percentages
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
  * @returns Distribution showing count and percentage in each tier
  */
-export function getTierDistribution(percentages: number[]): TierDistribution {
-  const distribution: TierDistribution = {
-    1: { tier: 1, rank: 'Novice', count: 0, percentage: 0 },
-    2: { tier: 2, rank: 'Beginner', count: 0, percentage: 0 },
-    3: { tier: 3, rank: 'Intermediate', count: 0, percentage: 0 },
-    4: { tier: 4, rank: 'Advanced', count: 0, percentage: 0 },
-    5: { tier: 5, rank: 'Expert', count: 0, percentage: 0 },
-  };
+export function getTierDistribution(
+  percentages: number[],
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): TierDistribution {
+  const distribution: TierDistribution = {};
+  for (const tier of [1, 2, 3, 4, 5] as TierLevel[]) {
+    distribution[tier] = { tier, rank: definitions[tier].rank, count: 0, percentage: 0 };
+  }
 
   // Count scores in each tier
   for (const score of percentages) {
-    const tier = getTierFromPercentage(score);
+    const tier = getTierFromPercentage(score, definitions);
     distribution[tier].count++;
   }
 
@@ -123,10 +138,12 @@ export interface ClassificationDistribution {
  * Calculate performance classification distribution
  *
  * @param percentages - Array of score percentages
+ * @param thresholds - Classification thresholds (default PERFORMANCE_THRESHOLDS)
  * @returns Distribution showing count and percentage in each classification
  */
 export function getClassificationDistribution(
-  percentages: number[]
+  percentages: number[],
+  thresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
 ): ClassificationDistribution {
   const distribution: ClassificationDistribution = {
     exceptional: { count: 0, percentage: 0 },
@@ -138,7 +155,7 @@ export function getClassificationDistribution(
 
   // Count scores in each classification
   for (const score of percentages) {
-    const classification = getPerformanceClassification(score);
+    const classification = getPerformanceClassification(score, thresholds);
     distribution[classification].count++;
   }
 
@@ -171,17 +188,25 @@ export interface ScoreComparison {
 /**
  * Compare two scores
  *
- * Useful for tracking progress over time
+ * Useful for tracking progress over time. Results taken on different forms
+ * are compared by their equated percentages (see `equateResult`).
  *
- * @param score1 - First score (e.g., previous attempt)
- * @param score2 - Second score (e.g., current attempt)
+ * @param first - First score or result (e.g., previous attempt)
+ * @param second - Second score or result (e.g., current attempt)
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
  * @returns Comparison details
  */
-export function compareScores(score1: number, score2: number): ScoreComparison {
+export function compareScores(
+  first: number | AssessmentResult,
+  second: number | AssessmentResult,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): ScoreComparison {
+  const score1 = typeof first === 'number' ? first : getEquatedPercentage(first);
+  const score2 = typeof second === 'number' ? second : getEquatedPercentage(second);
   const difference = score2 - score1;
   const percentChange = score1 !== 0 ? (difference / score1) * 100 : 0;
-  const tier1 = getTierFromPercentage(score1);
-  const tier2 = getTierFromPercentage(score2);
+  const tier1 = getTierFromPercentage(score1, definitions);
+  const tier2 = getTierFromPercentage(score2, definitions);
   const tierChange = tier2 - tier1;
 
   return {
@@ -5,7 +5,13 @@
  * for the 5-tier ranking system (Novice to Expert).
  */
 
-import { TierLevel, TierRank, TierDefinition, PerformanceClassification } from '../types/assessment.types';
+import {
+  TierLevel,
+  TierRank,
+  TierDefinition,
+  PerformanceClassification,
+  PerformanceThresholds,
+} from '../types/assessment.types';
 
 /**
  * Tier definitions with thresholds and metadata
@@ -56,64 +62,90 @@ export const TIER_DEFINITIONS: Record<TierLevel, TierDefinition> = {
 /**
  * Performance classification thresholds
  */
-export const PERFORMANCE_THRESHOLDS = {
+export const PERFORMANCE_THRESHOLDS: PerformanceThresholds = {
   EXCEPTIONAL: { min: 85, max: 100 },
   STRENGTH: { min: 75, max: 84 },
   ADEQUATE: { min: 60, max: 74 },
   WEAKNESS: { min: 45, max: 59 },
   CRITICAL_WEAKNESS: { min: 0, max: 44 },
-} as const;
+};
 
 /**
  * Get tier level from percentage score
- */
-export function getTierFromPercentage(percentage: number): TierLevel {
-  if (percentage >= 85) return 5;
-  if (percentage >= 70) return 4;
-  if (percentage >= 55) return 3;
-  if (percentage >= 40) return 2;
+ *
+ * @param percentage - Score percentage (0-100)
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS; e.g. a
+ *   configuration from standard setting)
+ */
+export function getTierFromPercentage(
+  percentage: number,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): TierLevel {
+  for (const level of [5, 4, 3, 2] as TierLevel[]) {
+    if (percentage >= definitions[level].minPercentage) return level;
+  }
   return 1;
 }
 
 /**
  * Get tier rank label from tier level
  */
-export function getTierRank(tier: TierLevel): TierRank {
-  return TIER_DEFINITIONS[tier].rank;
+export function getTierRank(
+  tier: TierLevel,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): TierRank {
+  return definitions[tier].rank;
 }
 
 /**
  * Get tier definition
  */
-export function getTierDefinition(tier: TierLevel): TierDefinition {
-  return TIER_DEFINITIONS[tier];
+export function getTierDefinition(
+  tier: TierLevel,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): TierDefinition {
+  return definitions[tier];
 }
 
 /**
  * Get performance classification from percentage
- */
-export function getPerformanceClassification(percentage: number): PerformanceClassification {
-  if (percentage >= PERFORMANCE_THRESHOLDS.EXCEPTIONAL.min) return 'exceptional';
-  if (percentage >= PERFORMANCE_THRESHOLDS.STRENGTH.min) return 'strength';
-  if (percentage >= PERFORMANCE_THRESHOLDS.ADEQUATE.min) return 'adequate';
-  if (percentage >= PERFORMANCE_THRESHOLDS.WEAKNESS.min) return 'weakness';
+ *
+ * @param percentage - Score percentage (0-100)
+ * @param thresholds - Classification thresholds (default PERFORMANCE_THRESHOLDS; e.g.
+ *   from a tier configuration)
+ */
+export function getPerformanceClassification(
+  percentage: number,
+  thresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
+): PerformanceClassification {
+  if (percentage >= thresholds.EXCEPTIONAL.min) return 'exceptional';
+  if (percentage >= thresholds.STRENGTH.min) return 'strength';
+  if (percentage >= thresholds.ADEQUATE.min) return 'adequate';
+  if (percentage >= thresholds.WEAKNESS.min) return 'weakness';
   return 'critical-weakness';
 }
 
 /**
  * Get next tier threshold
  */
-export function getNextTierThreshold(currentTier: TierLevel): number | null {
+export function getNextTierThreshold(
+  currentTier: TierLevel,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): number | null {
   if (currentTier === 5) return null; // Already at max tier
   const nextTier = (currentTier + 1) as TierLevel;
-  return TIER_DEFINITIONS[nextTier].minPercentage;
+  return definitions[nextTier].minPercentage;
 }
 
 /**
  * Calculate distance to next tier
  */
-export function getDistanceToNextTier(percentage: number, currentTier: TierLevel): number {
-  const nextThreshold = getNextTierThreshold(currentTier);
+export function getDistanceToNextTier(
+  percentage: number,
+  currentTier: TierLevel,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): number {
+  const nextThreshold = getNextTierThreshold(currentTier, definitions);
   if (nextThreshold === null) return 0; // Already at max
   return Math.max(0, nextThreshold - percentage);
 }
@@ -121,8 +153,11 @@ export function getDistanceToNextTier(percentage: number, currentTier: TierLevel
 /**
  * Get tier color
  */
-export function getTierColor(tier: TierLevel): string {
-  return TIER_DEFINITIONS[tier].color;
+export function getTierColor(
+  tier: TierLevel,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): string {
+  return definitions[tier].color;
 }
 
 /**
@@ -169,12 +204,18 @@ export interface TierProgression {
 
 /**
  * Get detailed tier progression information
- */
-export function getTierProgression(percentage: number): TierProgression {
-  const currentTier = getTierFromPercentage(percentage);
-  const currentDef = TIER_DEFINITIONS[currentTier];
+ *
+ * @param percentage - Score percentage (0-100)
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
+ */
+export function getTierProgression(
+  percentage: number,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): TierProgression {
+  const currentTier = getTierFromPercentage(percentage, definitions);
+  const currentDef = definitions[currentTier];
   const nextTier = currentTier === 5 ? null : ((currentTier + 1) as TierLevel);
-  const nextDef = nextTier ? TIER_DEFINITIONS[nextTier] : null;
+  const nextDef = nextTier ? definitions[nextTier] : null;
 
   // Calculate progress within current tier
   const tierRange = currentDef.maxPercentage - currentDef.minPercentage;
@@ -0,0 +1,234 @@
+/**
+ * Randomizer
+ *
+ * This module produces deterministic, seed-based presentations of an
+ * assessment so every candidate sees their own question and option order:
+ * - Seeded random number generation (same seed = same presentation)
+ * - Question order shuffling (question groups move as one unit)
+ * - Answer option shuffling
+ * - Mapping presented option indices back to canonical indices for scoring
+ */
+
+import {
+  Question,
+  QuestionGroup,
+  QuestionPresentation,
+  AssessmentPresentation,
+} from '../types/assessment.types';
+
+/**
+ * Options for creating a presentation
+ */
+export interface PresentationOptions {
+  /** Shuffle question order (default true) */
+  shuffleQuestions?: boolean;
+  /** Shuffle answer options (default true, per-question shuffleAnswers can opt out) */
+  shuffleAnswers?: boolean;
+  /** Shuffle question order inside question groups (default false) */
+  shuffleWithinGroups?: boolean;
+}
+
+/**
+ * Create a seeded pseudo-random number generator
+ *
+ * Uses a string hash to seed mulberry32, giving a fast generator whose
+ * sequence is fully determined by the seed.
+ *
+ * @param seed - Any string (e.g. `${assessmentId}:${userId}`)
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  // Hash the seed string into a 32-bit state
+  let state = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 3432918353);
+    state = (state << 13) | (state >>> 19);
+  }
+
+  // mulberry32
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle an array with a seeded generator (Fisher-Yates)
+ *
+ * @param items - Items to shuffle (not modified)
+ * @param random - Seeded generator from createSeededRandom
+ * @returns New shuffled array
+ */
+export function shuffleWithSeed<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Create a per-candidate presentation of an assessment
+ *
+ * @param questions - Standalone questions
+ * @param questionGroups - Question groups (each group stays together)
+ * @param seed - Per-candidate seed (e.g. `${assessmentId}:${userId}`)
+ * @param options - Presentation options
+ * @returns AssessmentPresentation describing question and option order
+ */
+export function createPresentation(
+  questions: Question[],
+  questionGroups: QuestionGroup[] = [],
+  seed: string,
+  options: PresentationOptions = {}
+): AssessmentPresentation {
+  const {
+    shuffleQuestions = true,
+    shuffleAnswers = true,
+    shuffleWithinGroups = false,
+  } = options;
+  const random = createSeededRandom(seed);
+
+  // Standalone questions and groups are shuffled as units
+  let units: Question[][] = [
+    ...questions.map(question => [question]),
+    ...questionGroups.map(group =>
+      shuffleWithinGroups ? shuffleWithSeed(group.questions, random) : group.questions
+    ),
+  ];
+  if (shuffleQuestions) {
+    units = shuffleWithSeed(units, random);
+  }
+
+  const presentations: QuestionPresentation[] = units.flat().map((question, position) => ({
+    questionId: question.id,
+    position,
+    answerOrder: canShuffleAnswers(question) && shuffleAnswers
+      ? shuffleWithSeed(getIdentityOrder(question), random)
+      : getIdentityOrder(question),
+  }));
+
+  return {
+    seed,
+    questions: presentations,
+  };
+}
+
+/**
+ * Get questions as the candidate sees them
+ *
+ * Questions are returned in presented order with answers reordered.
+ * Answer ids and correctAnswers are rewritten to presented indices, so each
+ * returned question is self-consistent.
+ *
+ * @param questions - All questions (standalone and grouped)
+ * @param presentation - Presentation from createPresentation
+ * @returns Questions in presented order
+ */
+export function getPresentedQuestions(
+  questions: Question[],
+  presentation: AssessmentPresentation
+): Question[] {
+  const questionMap = new Map(questions.map(question => [question.id, question]));
+
+  return presentation.questions.map(questionPresentation => {
+    const question = questionMap.get(questionPresentation.questionId);
+    if (!question) {
+      throw new Error(
+        `Presentation references unknown question: ${questionPresentation.questionId}`
+      );
+    }
+
+    const { answerOrder } = questionPresentation;
+    const toPresented = invertOrder(answerOrder);
+
+    return {
+      ...question,
+      answers: answerOrder.map((canonical, presented) => ({
+        ...question.answers[canonical],
+        id: presented,
+      })),
+      correctAnswers: canShuffleAnswers(question)
+        ? question.correctAnswers.map(canonical => toPresented[canonical])
+        : question.correctAnswers,
+    };
+  });
+}
+
+/**
+ * Map an answer from presented option indices to canonical indices
+ *
+ * Negative indices (an unmatched matching premise) pass through unchanged.
+ *
+ * @param question - The canonical question
+ * @param questionPresentation - How the question was presented
+ * @param presentedAnswers - Answer as submitted by the candidate
+ * @returns Answer using canonical indices
+ */
+export function toCanonicalAnswers(
+  question: Question,
+  questionPresentation: QuestionPresentation,
+  presentedAnswers: number[]
+): number[] {
+  if (!canShuffleAnswers(question)) {
+    return presentedAnswers;
+  }
+
+  return presentedAnswers.map(presented => {
+    if (presented < 0) {
+      return presented;
+    }
+    const canonical = questionPresentation.answerOrder[presented];
+    if (canonical === undefined) {
+      throw new Error(
+        `Invalid presented answer index ${presented} for question ${question.id}`
+      );
+    }
+    return canonical;
+  });
+}
+
+/**
+ * Find how a question was presented
+ */
+export function findQuestionPresentation(
+  presentation: AssessmentPresentation,
+  questionId: string
+): QuestionPresentation | undefined {
+  return presentation.questions.find(q => q.questionId === questionId);
+}
+
+/**
+ * Whether a question's answer options can be shuffled
+ *
+ * True/false keeps its natural order; numeric entry and grid questions
+ * have no options to shuffle.
+ */
+function canShuffleAnswers(question: Question): boolean {
+  if (question.shuffleAnswers === false) {
+    return false;
+  }
+  return ['multipleChoice', 'multipleSelect', 'ordering', 'matching'].includes(question.type);
+}
+
+/**
+ * Get the unshuffled option order for a question
+ */
+function getIdentityOrder(question: Question): number[] {
+  return question.answers.map((_, index) => index);
+}
+
+/**
+ * Invert an order mapping (presented → canonical becomes canonical → presented)
+ */
+function invertOrder(order: number[]): number[] {
+  const inverted: number[] = [];
+  order.forEach((canonical, presented) => {
+    inverted[canonical] = presented;
+  });
+  return inverted;
+}
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AssessmentResult, Question } from '../types/assessment.types';
+import { applyEquating, createEquatingFunction, createIrtEquatingFunction } from './equating';
+
+function resultsWithPercentages(percentages: number[]): AssessmentResult[] {
+  return percentages.map(percentage => ({ overall: { percentage } }) as AssessmentResult);
+}
+
+function calibratedQuestion(id: string, difficulty: number): Question {
+  return {
+    id,
+    text: id,
+    type: 'multipleChoice',
+    category: 'Logical Reasoning',
+    answers: [
+      { id: 0, text: 'A' },
+      { id: 1, text: 'B' },
+    ],
+    correctAnswers: [0],
+    score: 10,
+    weight: 1,
+    irt: { difficulty },
+  };
+}
+
+const formIds = { fromFormId: 'B', toFormId: 'A' };
+
+test('mean equating shifts by the difference in means', () => {
+  const equating = createEquatingFunction(
+    'mean',
+    resultsWithPercentages([40, 50, 60]),
+    resultsWithPercentages([50, 60, 70]),
+    formIds
+  );
+  assert.equal(equating.slope, 1);
+  assert.equal(equating.intercept, 10);
+  assert.equal(applyEquating(95, equating), 100);
+});
+
+test('linear equating matches means and standard deviations', () => {
+  // Base = 2 × form - 30: slope 2, intercept -30
+  const equating = createEquatingFunction(
+    'linear',
+    resultsWithPercentages([40, 50, 60]),
+    resultsWithPercentages([50, 70, 90]),
+    formIds
+  );
+  assert.ok(Math.abs(equating.slope! - 2) < 1e-12);
+  assert.ok(Math.abs(equating.intercept! + 30) < 1e-9);
+  assert.ok(Math.abs(applyEquating(55, equating) - 80) < 1e-9);
+  assert.equal(applyEquating(10, equating), 0);
+});
+
+test('equipercentile equating of identical distributions is the identity', () => {
+  const scores = Array.from({ length: 101 }, (_, score) => score);
+  const equating = createEquatingFunction(
+    'equipercentile',
+    resultsWithPercentages(scores),
+    resultsWithPercentages(scores),
+    formIds
+  );
+  for (const raw of [10, 37, 50, 82]) {
+    assert.ok(Math.abs(applyEquating(raw, equating) - raw) < 1, `${raw} → ${applyEquating(raw, equating)}`);
+  }
+});
+
+test('equipercentile equating follows a shifted base distribution', () => {
+  const scores = Array.from({ length: 61 }, (_, score) => score + 10);
+  const equating = createEquatingFunction(
+    'equipercentile',
+    resultsWithPercentages(scores),
+    resultsWithPercentages(scores.map(score => score + 20)),
+    formIds
+  );
+  for (const raw of [20, 40, 60]) {
+    assert.ok(Math.abs(applyEquating(raw, equating) - (raw + 20)) < 1, `${raw} → ${applyEquating(raw, equating)}`);
+  }
+});
+
+test('IRT true-score equating maps a harder form onto the base form', () => {
+  // One Rasch item 0.5 logits harder: 50% on the form is θ = 0.5,
+  // where the base item is answered right with P = 1 / (1 + e^-0.5) ≈ 62.25%
+  const equating = createIrtEquatingFunction(
+    { id: 'B', questions: [calibratedQuestion('b-1', 0.5)] },
+    { id: 'A', questions: [calibratedQuestion('a-1', 0)] }
+  );
+  const expected = 100 / (1 + Math.exp(-0.5));
+  assert.ok(Math.abs(applyEquating(50, equating) - expected) < 0.1);
+  assert.equal(applyEquating(0, equating), 0);
+  assert.equal(applyEquating(100, equating), 100);
+});
+
+test('IRT true-score equating requires calibrated questions', () => {
+  const { irt, ...uncalibrated } = calibratedQuestion('b-1', 0);
+  assert.throws(
+    () => createIrtEquatingFunction({ id: 'B', questions: [uncalibrated] }, { id: 'A', questions: [calibratedQuestion('a-1', 0)] }),
+    /missing them for b-1/
+  );
+});
@@ -0,0 +1,297 @@
+/**
+ * Form Equating
+ *
+ * This module maps overall percentages on one form onto the metric of a base
+ * form, so results from rotated forms can be compared. Observed-score methods
+ * use results from randomly equivalent groups who took each form:
+ *
+ * 1. Mean: Equated = x + (Mean_base - Mean_form)
+ * 2. Linear: Equated = Mean_base + (SD_base / SD_form) × (x - Mean_form)
+ * 3. Equipercentile: Equated = score on the base form with the same percentile rank
+ *
+ * IRT true-score equating needs no results, only calibrated questions:
+ * 4. Equated = base form's expected percentage at the theta whose expected
+ *    percentage on the form is x
+ *
+ * Equated percentages are clamped to 0-100 and recorded in the result's
+ * metadata; the raw percentage is left as scored.
+ */
+
+import * as fs from 'fs';
+import {
+  AssessmentResult,
+  EquatingMethod,
+  NormDistribution,
+  Question,
+  QuestionGroup,
+} from '../types/assessment.types';
+import { EquatingFunction, EquatingPoint } from '../types/equating.types';
+import { buildNormDistribution, getPercentileRank } from '../norms/norm-table';
+import { flattenQuestionGroups } from '../scoring/group-scorer';
+import { calculateExpectedOverallScore } from '../scoring/overall-scorer';
+import { probabilityCorrect, THETA_RANGE } from '../irt/irt-model';
+import { mean, standardDeviation } from '../utils/statistics';
+
+/**
+ * Form content needed for IRT true-score equating
+ */
+export interface EquatingForm {
+  id: string;
+  questions: Question[];
+  questionGroups?: QuestionGroup[];
+}
+
+/**
+ * Number of theta points used for IRT true-score equating
+ */
+const TRUE_SCORE_POINTS = 161;
+
+/**
+ * Create an observed-score equating function from two groups of results
+ *
+ * @param method - 'mean', 'linear' or 'equipercentile'
+ * @param formResults - Results on the form being equated
+ * @param baseResults - Results on the base form
+ * @param options - Form IDs (default: the `formId` recorded on the results)
+ * @returns Equating function from the form onto the base form
+ */
+export function createEquatingFunction(
+  method: Exclude<EquatingMethod, 'irtTrueScore'>,
+  formResults: AssessmentResult[],
+  baseResults: AssessmentResult[],
+  options: { fromFormId?: string; toFormId?: string } = {}
+): EquatingFunction {
+  if (formResults.length === 0 || baseResults.length === 0) {
+    throw new Error('Equating needs results on both forms');
+  }
+
+  const formScores = formResults.map(result => result.overall.percentage);
+  const baseScores = baseResults.map(result => result.overall.percentage);
+  const equatingFunction: EquatingFunction = {
+    method,
+    fromFormId: options.fromFormId ?? getResultsFormId(formResults),
+    toFormId: options.toFormId ?? getResultsFormId(baseResults),
+    createdAt: new Date().toISOString(),
+    sampleSizes: { from: formResults.length, to: baseResults.length },
+  };
+
+  if (method === 'mean') {
+    equatingFunction.slope = 1;
+    equatingFunction.intercept = mean(baseScores) - mean(formScores);
+  } else if (method === 'linear') {
+    const formSd = standardDeviation(formScores);
+    const slope = formSd > 0 ? standardDeviation(baseScores) / formSd : 1;
+    equatingFunction.slope = slope;
+    equatingFunction.intercept = mean(baseScores) - slope * mean(formScores);
+  } else {
+    equatingFunction.points = equipercentilePoints(
+      buildNormDistribution(formScores),
+      buildNormDistribution(baseScores)
+    );
+  }
+
+  return equatingFunction;
+}
+
+/**
+ * Create an IRT true-score equating function
+ *
+ * Every question on both forms must have IRT parameters on the same scale.
+ *
+ * @param form - Form being equated
+ * @param baseForm - Base form
+ * @returns Equating function from the form onto the base form
+ */
+export function createIrtEquatingFunction(
+  form: EquatingForm,
+  baseForm: EquatingForm
+): EquatingFunction {
+  const formQuestions = flattenQuestionGroups(form.questions, form.questionGroups);
+  const baseQuestions = flattenQuestionGroups(baseForm.questions, baseForm.questionGroups);
+
+  for (const [formId, questions] of [[form.id, formQuestions], [baseForm.id, baseQuestions]] as const) {
+    const uncalibrated = questions.filter(question => !question.irt).map(question => question.id);
+    if (uncalibrated.length > 0) {
+      throw new Error(
+        `IRT true-score equating needs IRT parameters; form ${formId} is missing them for ${uncalibrated.join(', ')}`
+      );
+    }
+  }
+
+  // Pair expected percentages on both forms over the theta range
+  const points: EquatingPoint[] = [{ raw: 0, equated: 0 }];
+  const step = (THETA_RANGE.max - THETA_RANGE.min) / (TRUE_SCORE_POINTS - 1);
+  for (let i = 0; i < TRUE_SCORE_POINTS; i++) {
+    const theta = THETA_RANGE.min + i * step;
+    const raw = calculateExpectedPercentage(formQuestions, theta);
+    if (raw > points[points.length - 1].raw) {
+      points.push({ raw, equated: calculateExpectedPercentage(baseQuestions, theta) });
+    }
+  }
+  if (points[points.length - 1].raw < 100) {
+    points.push({ raw: 100, equated: 100 });
+  }
+
+  return {
+    method: 'irtTrueScore',
+    fromFormId: form.id,
+    toFormId: baseForm.id,
+    createdAt: new Date().toISOString(),
+    points,
+  };
+}
+
+/**
+ * Calculate the expected overall percentage at a given ability
+ *
+ * Mirrors overall scoring (see calculateExpectedOverallScore).
+ *
+ * @param questions - Calibrated questions
+ * @param theta - Candidate ability
+ * @returns Expected overall percentage (0-100)
+ */
+export function calculateExpectedPercentage(questions: Question[], theta: number): number {
+  return calculateExpectedOverallScore(questions, question => probabilityCorrect(theta, question.irt!));
+}
+
+/**
+ * Apply an equating function to a percentage
+ *
+ * @returns Equated percentage (0-100)
+ */
+export function applyEquating(percentage: number, equatingFunction: EquatingFunction): number {
+  let equated: number;
+
+  if (equatingFunction.points && equatingFunction.points.length > 0) {
+    const points = equatingFunction.points;
+    if (percentage <= points[0].raw) {
+      equated = points[0].equated;
+    } else if (percentage >= points[points.length - 1].raw) {
+      equated = points[points.length - 1].equated;
+    } else {
+      const upperIndex = points.findIndex(point => point.raw >= percentage);
+      const lower = points[upperIndex - 1];
+      const upper = points[upperIndex];
+      equated = lower.equated +
+        (upper.equated - lower.equated) * (percentage - lower.raw) / (upper.raw - lower.raw);
+    }
+  } else {
+    equated = (equatingFunction.slope ?? 1) * percentage + (equatingFunction.intercept ?? 0);
+  }
+
+  return Math.min(Math.max(equated, 0), 100);
+}
+
+/**
+ * Equate a result onto the base form
+ *
+ * @param result - Result on the form being equated
+ * @param equatingFunction - Equating function for that form
+ * @returns Result with `metadata.equating` set
+ */
+export function equateResult(
+  result: AssessmentResult,
+  equatingFunction: EquatingFunction
+): AssessmentResult {
+  const formId = result.metadata.formId;
+  if (formId && formId !== equatingFunction.fromFormId) {
+    throw new Error(
+      `Result ${result.assessmentId} is on form ${formId}, but the equating function is for form ${equatingFunction.fromFormId}`
+    );
+  }
+
+  return {
+    ...result,
+    metadata: {
+      ...result.metadata,
+      equating: {
+        method: equatingFunction.method,
+        formId: equatingFunction.fromFormId,
+        baseFormId: equatingFunction.toFormId,
+        rawPercentage: result.overall.percentage,
+        equatedPercentage: applyEquating(result.overall.percentage, equatingFunction),
+      },
+    },
+  };
+}
+
+/**
+ * Get the score to compare a result by: the equated percentage if the result
+ * was equated, otherwise the overall percentage
+ */
+export function getEquatedPercentage(result: AssessmentResult): number {
+  return result.metadata.equating?.equatedPercentage ?? result.overall.percentage;
+}
+
+/**
+ * Save an equating function as JSON
+ */
+export function saveEquatingFunction(equatingFunction: EquatingFunction, filePath: string): void {
+  fs.writeFileSync(filePath, JSON.stringify(equatingFunction, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Load an equating function saved with saveEquatingFunction
+ */
+export function loadEquatingFunction(filePath: string): EquatingFunction {
+  const equatingFunction: EquatingFunction = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (
+    !equatingFunction.method ||
+    !equatingFunction.fromFormId ||
+    !equatingFunction.toFormId ||
+    (equatingFunction.points === undefined && equatingFunction.slope === undefined)
+  ) {
+    throw new Error(`${filePath} is not a valid equating function`);
+  }
+  return equatingFunction;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get the form ID shared by a set of results
+ */
+function getResultsFormId(results: AssessmentResult[]): string {
+  const formIds = new Set(results.map(result => result.metadata.formId));
+  if (formIds.size !== 1 || formIds.has(undefined)) {
+    throw new Error('Results must all record the same formId, or pass form IDs explicitly');
+  }
+  return [...formIds][0]!;
+}
+
+/**
+ * Pair each whole percentage on the form with the base-form score of equal percentile rank
+ */
+function equipercentilePoints(
+  formDistribution: NormDistribution,
+  baseDistribution: NormDistribution
+): EquatingPoint[] {
+  const points: EquatingPoint[] = [];
+  let previous = 0;
+  for (let raw = 0; raw <= 100; raw++) {
+    const rank = getPercentileRank(formDistribution, raw);
+    // Keep the conversion non-decreasing where either distribution is flat
+    const equated = Math.max(previous, getScoreAtPercentileRank(baseDistribution, rank));
+    points.push({ raw, equated });
+    previous = equated;
+  }
+  return points;
+}
+
+/**
+ * Get the score with a given percentile rank (inverse of getPercentileRank)
+ */
+function getScoreAtPercentileRank(distribution: NormDistribution, rank: number): number {
+  const ranks = distribution.percentileRanks;
+  if (rank <= ranks[0]) {
+    return 0;
+  }
+  if (rank >= ranks[100]) {
+    return 100;
+  }
+  const upper = ranks.findIndex(value => value >= rank);
+  const span = ranks[upper] - ranks[upper - 1];
+  return span > 0 ? upper - 1 + (rank - ranks[upper - 1]) / span : upper;
+}
@@ -0,0 +1,644 @@
+/**
+ * Form Assembler
+ *
+ * This module builds test forms from a larger question bank:
+ * - Checks a blueprint against the bank and explains unmeetable constraints
+ * - Selects questions meeting every blueprint constraint (seeded, repeatable)
+ * - Keeps question groups together (a group is selected as a whole unit)
+ * - Emits versioned forms that scoreAssessment can consume
+ *
+ * Selection is a randomized greedy search: each attempt first takes units
+ * that help an unmet minimum, then fills the remaining length, never
+ * exceeding a maximum. Attempts repeat with new seeds until one meets
+ * every constraint.
+ */
+
+import * as fs from 'fs';
+import {
+  AssessmentInput,
+  CategoryName,
+  Question,
+  QuestionBank,
+  QuestionGroup,
+} from '../types/assessment.types';
+import {
+  AssessmentForm,
+  BlueprintRange,
+  BlueprintViolation,
+  FormAssemblyResult,
+  FormBlueprint,
+  FormSummary,
+} from '../types/form.types';
+import { createSeededRandom, shuffleWithSeed } from '../delivery/randomizer';
+import { flattenQuestionGroups } from '../scoring/group-scorer';
+
+/**
+ * Options for assembling a form
+ */
+export interface FormAssemblyOptions {
+  /** Selection seed (default: blueprint id) */
+  seed?: string;
+  /** Form ID (default: `${blueprint.id}-${seed}`) */
+  formId?: string;
+  /** Form version (default '1.0.0') */
+  version?: string;
+  /** Number of selection attempts before giving up (default 200) */
+  maxAttempts?: number;
+  /** Question IDs that must not be selected (in addition to the blueprint's exclusions) */
+  excludeQuestions?: string[];
+}
+
+/**
+ * Default number of selection attempts
+ */
+export const DEFAULT_ASSEMBLY_ATTEMPTS = 200;
+
+/**
+ * Candidate unit for selection: a standalone question or a whole group
+ */
+interface SelectionUnit {
+  id: string;
+  questions: Question[];
+  group?: QuestionGroup;
+}
+
+/**
+ * Assemble a form from a question bank
+ *
+ * @param bank - Question bank (questions and optional question groups)
+ * @param blueprint - Blueprint the form must meet
+ * @param options - Assembly options
+ * @returns FormAssemblyResult with the form or the constraints that could not be met
+ */
+export function assembleForm(
+  bank: QuestionBank,
+  blueprint: FormBlueprint,
+  options: FormAssemblyOptions = {}
+): FormAssemblyResult {
+  const {
+    seed = blueprint.id,
+    formId = `${blueprint.id}-${seed}`,
+    version = '1.0.0',
+    maxAttempts = DEFAULT_ASSEMBLY_ATTEMPTS,
+  } = options;
+
+  const excluded = new Set([...(blueprint.excludedQuestions || []), ...(options.excludeQuestions || [])]);
+  const units = getSelectionUnits(bank).filter(
+    unit => !unit.questions.some(question => excluded.has(question.id))
+  );
+
+  // Explain constraints no selection could meet before searching
+  const feasibilityViolations = checkBlueprintFeasibility(units, blueprint);
+  if (feasibilityViolations.length > 0) {
+    return { success: false, violations: feasibilityViolations };
+  }
+
+  const required = new Set(blueprint.requiredQuestions || []);
+  const requiredUnits = units.filter(unit => unit.questions.some(q => required.has(q.id)));
+  const optionalUnits = units.filter(unit => !requiredUnits.includes(unit));
+
+  let bestViolations: BlueprintViolation[] | undefined;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const random = createSeededRandom(`${seed}:${attempt}`);
+    const selected = selectUnits(requiredUnits, shuffleWithSeed(optionalUnits, random), blueprint);
+    const violations = checkFormAgainstBlueprint(
+      calculateFormSummary(selected.flatMap(unit => unit.questions)),
+      blueprint
+    );
+
+    if (violations.length === 0) {
+      selected.sort((a, b) => units.indexOf(a) - units.indexOf(b));
+      return {
+        success: true,
+        form: createForm(selected, blueprint, { formId, version, seed }),
+        violations: [],
+      };
+    }
+
+    if (!bestViolations || violations.length < bestViolations.length) {
+      bestViolations = violations;
+    }
+  }
+
+  return {
+    success: false,
+    violations: (bestViolations || []).map(violation => ({
+      ...violation,
+      message: `${violation.message} (best of ${maxAttempts} attempts)`,
+    })),
+  };
+}
+
+/**
+ * Check whether a bank can possibly meet a blueprint
+ *
+ * Reports constraints that no selection could meet (e.g. asking for 5
+ * questions in a category the bank only has 3 of). Passing this check does
+ * not guarantee a form exists, since constraints can conflict.
+ *
+ * @param bank - Question bank
+ * @param blueprint - Blueprint to check
+ * @returns Array of violations (empty if no constraint is obviously unmeetable)
+ */
+export function checkBlueprint(
+  bank: QuestionBank,
+  blueprint: FormBlueprint
+): BlueprintViolation[] {
+  const excluded = new Set(blueprint.excludedQuestions || []);
+  return checkBlueprintFeasibility(
+    getSelectionUnits(bank).filter(unit => !unit.questions.some(q => excluded.has(q.id))),
+    blueprint
+  );
+}
+
+/**
+ * Check a set of questions against a blueprint
+ *
+ * @param summary - Summary of the questions (see calculateFormSummary)
+ * @param blueprint - Blueprint to check against
+ * @returns Array of violations (empty if the questions meet the blueprint)
+ */
+export function checkFormAgainstBlueprint(
+  summary: FormSummary,
+  blueprint: FormBlueprint
+): BlueprintViolation[] {
+  const violations: BlueprintViolation[] = [];
+
+  if (summary.questionCount !== blueprint.length) {
+    violations.push({
+      constraint: 'length',
+      message: `Form has ${summary.questionCount} questions, blueprint requires ${blueprint.length}`,
+      expected: { min: blueprint.length, max: blueprint.length },
+      actual: summary.questionCount,
+    });
+  }
+
+  for (const [category, target] of Object.entries(blueprint.categories || {})) {
+    const actual = summary.byCategory[category as CategoryName] || 0;
+    if (actual !== target) {
+      violations.push({
+        constraint: 'category',
+        key: category,
+        message: `${category} has ${actual} questions, blueprint requires ${target}`,
+        expected: { min: target, max: target },
+        actual,
+      });
+    }
+  }
+
+  for (const [type, range] of Object.entries(blueprint.questionTypes || {})) {
+    const actual = summary.byType[type as keyof FormSummary['byType']] || 0;
+    if (!isInRange(actual, range)) {
+      violations.push({
+        constraint: 'questionType',
+        key: type,
+        message: `${type} has ${actual} questions, blueprint requires ${formatRange(range)}`,
+        expected: range,
+        actual,
+      });
+    }
+  }
+
+  for (const [difficulty, range] of Object.entries(blueprint.difficulty || {})) {
+    const actual = summary.byDifficulty[difficulty as keyof FormSummary['byDifficulty']] || 0;
+    if (!isInRange(actual, range)) {
+      violations.push({
+        constraint: 'difficulty',
+        key: difficulty,
+        message: `${difficulty} has ${actual} questions, blueprint requires ${formatRange(range)}`,
+        expected: range,
+        actual,
+      });
+    }
+  }
+
+  if (blueprint.totalWeight && !isInRange(summary.totalWeight, blueprint.totalWeight)) {
+    violations.push({
+      constraint: 'totalWeight',
+      message: `Total weight is ${summary.totalWeight}, blueprint requires ${formatRange(blueprint.totalWeight)}`,
+      expected: blueprint.totalWeight,
+      actual: summary.totalWeight,
+    });
+  }
+
+  if (blueprint.totalScore && !isInRange(summary.totalScore, blueprint.totalScore)) {
+    violations.push({
+      constraint: 'totalScore',
+      message: `Total score is ${summary.totalScore}, blueprint requires ${formatRange(blueprint.totalScore)}`,
+      expected: blueprint.totalScore,
+      actual: summary.totalScore,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Summarize the content of a set of questions
+ */
+export function calculateFormSummary(questions: Question[]): FormSummary {
+  const summary: FormSummary = {
+    questionCount: questions.length,
+    byCategory: {},
+    byType: {},
+    byDifficulty: {},
+    totalWeight: 0,
+    totalScore: 0,
+  };
+
+  for (const question of questions) {
+    summary.byCategory[question.category] = (summary.byCategory[question.category] || 0) + 1;
+    summary.byType[question.type] = (summary.byType[question.type] || 0) + 1;
+    if (question.difficulty) {
+      summary.byDifficulty[question.difficulty] = (summary.byDifficulty[question.difficulty] || 0) + 1;
+    }
+    summary.totalWeight += question.weight;
+    summary.totalScore += question.score;
+  }
+
+  return summary;
+}
+
+/**
+ * Get every question on a form (standalone questions, then groups)
+ */
+export function getFormQuestions(form: AssessmentForm): Question[] {
+  return flattenQuestionGroups(form.questions, form.questionGroups);
+}
+
+/**
+ * Build scoring input for a candidate who took a form
+ *
+ * @param form - The delivered form
+ * @param input - Candidate-specific input (IDs, answers, timing, presentation)
+ * @returns AssessmentInput for scoreAssessment, tagged with the form ID and version
+ */
+export function createFormAssessmentInput(
+  form: AssessmentForm,
+  input: Omit<AssessmentInput, 'questions' | 'questionGroups' | 'formId' | 'formVersion'>
+): AssessmentInput {
+  return {
+    ...input,
+    questions: form.questions,
+    questionGroups: form.questionGroups,
+    formId: form.id,
+    formVersion: form.version,
+  };
+}
+
+/**
+ * Save a form as JSON
+ */
+export function saveForm(form: AssessmentForm, filePath: string): void {
+  fs.writeFileSync(filePath, JSON.stringify(form, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Load a form saved with saveForm
+ */
+export function loadForm(filePath: string): AssessmentForm {
+  const form: AssessmentForm = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!form.id || !form.version || !Array.isArray(form.questions)) {
+    throw new Error(`${filePath} is not a valid assessment form`);
+  }
+  return form;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Split a bank into selection units (groups stay whole)
+ */
+function getSelectionUnits(bank: QuestionBank): SelectionUnit[] {
+  return [
+    ...bank.questions.map(question => ({ id: question.id, questions: [question] })),
+    ...(bank.questionGroups || []).map(group => ({
+      id: group.id,
+      questions: group.questions,
+      group,
+    })),
+  ];
+}
+
+/**
+ * Greedily select units for one attempt
+ *
+ * Pass 1 takes units that help an unmet minimum; pass 2 fills the remaining
+ * length. Units are only taken if no maximum would be exceeded.
+ */
+function selectUnits(
+  requiredUnits: SelectionUnit[],
+  candidates: SelectionUnit[],
+  blueprint: FormBlueprint
+): SelectionUnit[] {
+  const selected = [...requiredUnits];
+  let summary = calculateFormSummary(selected.flatMap(unit => unit.questions));
+  const remaining = [...candidates];
+
+  for (const needsDeficit of [true, false]) {
+    for (let i = 0; i < remaining.length && summary.questionCount < blueprint.length; i++) {
+      const unit = remaining[i];
+      if (needsDeficit && !helpsDeficit(summary, unit, blueprint)) {
+        continue;
+      }
+      const next = addToSummary(summary, unit.questions);
+      if (!exceedsMaximum(next, blueprint)) {
+        selected.push(unit);
+        summary = next;
+        remaining.splice(i, 1);
+        i--;
+      }
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Whether adding a unit moves an unmet minimum toward its target
+ */
+function helpsDeficit(summary: FormSummary, unit: SelectionUnit, blueprint: FormBlueprint): boolean {
+  return unit.questions.some(question => {
+    const categoryTarget = blueprint.categories?.[question.category];
+    if (categoryTarget !== undefined && (summary.byCategory[question.category] || 0) < categoryTarget) {
+      return true;
+    }
+    const typeMin = blueprint.questionTypes?.[question.type]?.min;
+    if (typeMin !== undefined && (summary.byType[question.type] || 0) < typeMin) {
+      return true;
+    }
+    const difficultyMin = question.difficulty
+      ? blueprint.difficulty?.[question.difficulty]?.min
+      : undefined;
+    if (
+      difficultyMin !== undefined &&
+      (summary.byDifficulty[question.difficulty!] || 0) < difficultyMin
+    ) {
+      return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Whether a summary exceeds any blueprint maximum
+ */
+function exceedsMaximum(summary: FormSummary, blueprint: FormBlueprint): boolean {
+  if (summary.questionCount > blueprint.length) {
+    return true;
+  }
+
+  // Listed categories are exact; unlisted categories share the leftover length
+  const categoryTargets = blueprint.categories || {};
+  let targetedTotal = 0;
+  let otherCount = 0;
+  for (const [category, count] of Object.entries(summary.byCategory)) {
+    const target = categoryTargets[category as CategoryName];
+    if (target === undefined) {
+      otherCount += count || 0;
+    } else if ((count || 0) > target) {
+      return true;
+    }
+  }
+  for (const target of Object.values(categoryTargets)) {
+    targetedTotal += target || 0;
+  }
+  if (otherCount > blueprint.length - targetedTotal) {
+    return true;
+  }
+
+  for (const [type, range] of Object.entries(blueprint.questionTypes || {})) {
+    const count = summary.byType[type as keyof FormSummary['byType']] || 0;
+    if (range.max !== undefined && count > range.max) {
+      return true;
+    }
+  }
+
+  for (const [difficulty, range] of Object.entries(blueprint.difficulty || {})) {
+    const count = summary.byDifficulty[difficulty as keyof FormSummary['byDifficulty']] || 0;
+    if (range.max !== undefined && count > range.max) {
+      return true;
+    }
+  }
+
+  if (blueprint.totalWeight?.max !== undefined && summary.totalWeight > blueprint.totalWeight.max) {
+    return true;
+  }
+
+  if (blueprint.totalScore?.max !== undefined && summary.totalScore > blueprint.totalScore.max) {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Check constraints that no selection from the available units could meet
+ */
+function checkBlueprintFeasibility(
+  units: SelectionUnit[],
+  blueprint: FormBlueprint
+): BlueprintViolation[] {
+  const violations: BlueprintViolation[] = [];
+  const questions = units.flatMap(unit => unit.questions);
+  const available = calculateFormSummary(questions);
+
+  if (!Number.isInteger(blueprint.length) || blueprint.length < 1) {
+    return [{
+      constraint: 'length',
+      message: `Blueprint length must be a positive whole number, got ${blueprint.length}`,
+      expected: { min: 1 },
+      actual: blueprint.length,
+    }];
+  }
+
+  if (available.questionCount < blueprint.length) {
+    violations.push({
+      constraint: 'length',
+      message: `Bank has ${available.questionCount} eligible questions, blueprint requires ${blueprint.length}`,
+      expected: { min: blueprint.length, max: blueprint.length },
+      actual: available.questionCount,
+    });
+  }
+
+  const categoryTargets = Object.entries(blueprint.categories || {});
+  const categoryTotal = categoryTargets.reduce((total, [, target]) => total + (target || 0), 0);
+  if (categoryTotal > blueprint.length) {
+    violations.push({
+      constraint: 'category',
+      message: `Category counts add up to ${categoryTotal}, more than the form length ${blueprint.length}`,
+      expected: { max: blueprint.length },
+      actual: categoryTotal,
+    });
+  }
+  for (const [category, target] of categoryTargets) {
+    const actual = available.byCategory[category as CategoryName] || 0;
+    if (actual < (target || 0)) {
+      violations.push({
+        constraint: 'category',
+        key: category,
+        message: `Bank has ${actual} eligible ${category} questions, blueprint requires ${target}`,
+        expected: { min: target, max: target },
+        actual,
+      });
+    }
+  }
+
+  const rangeGroups: Array<[
+    'questionType' | 'difficulty',
+    Record<string, BlueprintRange | undefined>,
+    Record<string, number | undefined>
+  ]> = [
+    ['questionType', blueprint.questionTypes || {}, available.byType],
+    ['difficulty', blueprint.difficulty || {}, available.byDifficulty],
+  ];
+  for (const [constraint, ranges, counts] of rangeGroups) {
+    let minimumTotal = 0;
+    for (const [key, range] of Object.entries(ranges)) {
+      const min = range?.min || 0;
+      minimumTotal += min;
+      if (range?.max !== undefined && min > range.max) {
+        violations.push({
+          constraint,
+          key,
+          message: `${key} minimum ${min} is greater than its maximum ${range.max}`,
+          expected: range,
+          actual: counts[key] || 0,
+        });
+      } else if ((counts[key] || 0) < min) {
+        violations.push({
+          constraint,
+          key,
+          message: `Bank has ${counts[key] || 0} eligible ${key} questions, blueprint requires at least ${min}`,
+          expected: range!,
+          actual: counts[key] || 0,
+        });
+      }
+    }
+    if (minimumTotal > blueprint.length) {
+      violations.push({
+        constraint,
+        message: `${constraint} minimums add up to ${minimumTotal}, more than the form length ${blueprint.length}`,
+        expected: { max: blueprint.length },
+        actual: minimumTotal,
+      });
+    }
+  }
+
+  // Sum constraints: compare with the smallest and largest possible sums
+  const sumConstraints: Array<['totalWeight' | 'totalScore', BlueprintRange | undefined, number[]]> = [
+    ['totalWeight', blueprint.totalWeight, questions.map(q => q.weight)],
+    ['totalScore', blueprint.totalScore, questions.map(q => q.score)],
+  ];
+  for (const [constraint, range, values] of sumConstraints) {
+    if (!range) {
+      continue;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const smallest = sorted.slice(0, blueprint.length).reduce((total, value) => total + value, 0);
+    const largest = sorted.slice(-blueprint.length).reduce((total, value) => total + value, 0);
+    if (range.min !== undefined && largest < range.min) {
+      violations.push({
+        constraint,
+        message: `Largest possible ${constraint} is ${largest}, blueprint requires ${formatRange(range)}`,
+        expected: range,
+        actual: largest,
+      });
+    }
+    if (range.max !== undefined && smallest > range.max) {
+      violations.push({
+        constraint,
+        message: `Smallest possible ${constraint} is ${smallest}, blueprint requires ${formatRange(range)}`,
+        expected: range,
+        actual: smallest,
+      });
+    }
+  }
+
+  const availableIds = new Set(questions.map(question => question.id));
+  for (const questionId of blueprint.requiredQuestions || []) {
+    if (!availableIds.has(questionId)) {
+      violations.push({
+        constraint: 'requiredQuestion',
+        key: questionId,
+        message: `Required question ${questionId} is not in the bank or is excluded`,
+        expected: { min: 1 },
+        actual: 0,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Create a form from selected units (already in bank order)
+ */
+function createForm(
+  selected: SelectionUnit[],
+  blueprint: FormBlueprint,
+  details: { formId: string; version: string; seed: string }
+): AssessmentForm {
+  const questions = selected.filter(unit => !unit.group).flatMap(unit => unit.questions);
+  const questionGroups = selected
+    .filter(unit => unit.group)
+    .map(unit => unit.group!);
+
+  const form: AssessmentForm = {
+    id: details.formId,
+    version: details.version,
+    blueprintId: blueprint.id,
+    seed: details.seed,
+    createdAt: new Date().toISOString(),
+    questions,
+    summary: calculateFormSummary(flattenQuestionGroups(questions, questionGroups)),
+  };
+
+  if (blueprint.version) {
+    form.blueprintVersion = blueprint.version;
+  }
+  if (questionGroups.length > 0) {
+    form.questionGroups = questionGroups;
+  }
+
+  return form;
+}
+
+function addToSummary(summary: FormSummary, questions: Question[]): FormSummary {
+  const added = calculateFormSummary(questions);
+  const merge = <K extends string>(a: Partial<Record<K, number>>, b: Partial<Record<K, number>>) => {
+    const merged: Partial<Record<K, number>> = { ...a };
+    for (const [key, count] of Object.entries(b) as Array<[K, number]>) {
+      merged[key] = (merged[key] || 0) + count;
+    }
+    return merged;
+  };
+
+  return {
+    questionCount: summary.questionCount + added.questionCount,
+    byCategory: merge(summary.byCategory, added.byCategory),
+    byType: merge(summary.byType, added.byType),
+    byDifficulty: merge(summary.byDifficulty, added.byDifficulty),
+    totalWeight: summary.totalWeight + added.totalWeight,
+    totalScore: summary.totalScore + added.totalScore,
+  };
+}
+
+function isInRange(value: number, range: BlueprintRange): boolean {
+  return (range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value <= range.max);
+}
+
+function formatRange(range: BlueprintRange): string {
+  const format = (value: number) => Number(value.toFixed(2));
+  if (range.min !== undefined && range.max !== undefined) {
+    return range.min === range.max ? `${format(range.min)}` : `${format(range.min)}-${format(range.max)}`;
+  }
+  if (range.min !== undefined) {
+    return `at least ${format(range.min)}`;
+  }
+  return `at most ${format(range.max!)}`;
+}
@@ -0,0 +1,383 @@
+/**
+ * Parallel Forms
+ *
+ * This module generates multiple equivalent forms from one bank so a
+ * candidate retaking the assessment never sees the same questions twice:
+ * - Generates K forms from one blueprint with limited question overlap
+ * - Matches total score, total weight and estimated difficulty to the first form
+ * - Reports how equivalent a set of forms are
+ *
+ * Every form is assembled from the same blueprint, so category counts match.
+ * Forms after the first have their score and weight ranges narrowed to the
+ * first form's totals (within tolerance).
+ */
+
+import {
+  CategoryName,
+  Question,
+  QuestionBank,
+  QuestionDifficulty,
+} from '../types/assessment.types';
+import {
+  AssessmentForm,
+  BlueprintRange,
+  BlueprintViolation,
+  FormBlueprint,
+  FormEquivalenceReport,
+  FormEquivalenceSummary,
+  FormOverlap,
+  ParallelFormsResult,
+  StatisticSpread,
+} from '../types/form.types';
+import { assembleForm, calculateFormSummary, getFormQuestions } from './form-assembler';
+import { createSeededRandom, shuffleWithSeed } from '../delivery/randomizer';
+import { mean } from '../utils/statistics';
+import { CATEGORY_NAMES } from '../constants/categories';
+
+/**
+ * Allowed differences between parallel forms
+ */
+export interface EquivalenceTolerance {
+  /** Allowed total score spread as a fraction of the mean total score (default 0.05) */
+  totalScoreRatio?: number;
+  /** Allowed total weight spread as a fraction of the mean total weight (default 0.05) */
+  totalWeightRatio?: number;
+  /** Allowed spread of mean estimated difficulty (default 0.25) */
+  meanDifficulty?: number;
+}
+
+/**
+ * Options for generating parallel forms
+ */
+export interface ParallelFormOptions {
+  /** Generation seed (default: blueprint id) */
+  seed?: string;
+  /** Version given to every form (default '1.0.0') */
+  version?: string;
+  /** Maximum questions any two forms may share (default 0) */
+  maxOverlap?: number;
+  /** Allowed differences between forms */
+  tolerance?: EquivalenceTolerance;
+  /** Difficulty estimates by question ID (default: from each question's difficulty rating) */
+  difficultyEstimates?: Record<string, number>;
+  /** Attempts per form before giving up (default 20) */
+  maxAttempts?: number;
+}
+
+/**
+ * Difficulty estimate for each rating (logit-like scale, higher = harder)
+ */
+export const DIFFICULTY_ESTIMATES: Record<QuestionDifficulty, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+const DEFAULT_TOLERANCE: Required<EquivalenceTolerance> = {
+  totalScoreRatio: 0.05,
+  totalWeightRatio: 0.05,
+  meanDifficulty: 0.25,
+};
+
+/**
+ * Generate parallel forms from a question bank
+ *
+ * @param bank - Question bank
+ * @param blueprint - Blueprint every form must meet
+ * @param count - Number of forms to generate
+ * @param options - Generation options
+ * @returns ParallelFormsResult with the forms and an equivalence report
+ */
+export function generateParallelForms(
+  bank: QuestionBank,
+  blueprint: FormBlueprint,
+  count: number,
+  options: ParallelFormOptions = {}
+): ParallelFormsResult {
+  const {
+    seed = blueprint.id,
+    version = '1.0.0',
+    maxOverlap = 0,
+    maxAttempts = 20,
+  } = options;
+  const tolerance = { ...DEFAULT_TOLERANCE, ...options.tolerance };
+
+  const forms: AssessmentForm[] = [];
+  let violations: BlueprintViolation[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const reference = forms[0];
+    const formBlueprint = reference ? narrowBlueprint(blueprint, reference, tolerance) : blueprint;
+    let form: AssessmentForm | undefined;
+
+    for (let attempt = 0; attempt < maxAttempts && !form; attempt++) {
+      const attemptSeed = `${seed}:${index}:${attempt}`;
+      const result = assembleForm(bank, formBlueprint, {
+        seed: attemptSeed,
+        formId: `${blueprint.id}-${getFormSuffix(index)}`,
+        version,
+        excludeQuestions: getExcludedQuestions(forms, maxOverlap, attemptSeed),
+      });
+
+      if (!result.success) {
+        violations = result.violations;
+        continue;
+      }
+
+      if (
+        isWithinOverlap(result.form!, forms, maxOverlap) &&
+        (!reference || isDifficultyMatched(result.form!, reference, tolerance, options.difficultyEstimates))
+      ) {
+        form = result.form;
+      }
+    }
+
+    if (!form) {
+      return {
+        success: false,
+        forms,
+        violations: violations.length > 0 ? violations : [{
+          constraint: 'length',
+          message: `Could not generate form ${index + 1} within the overlap and difficulty limits`,
+          expected: { min: blueprint.length, max: blueprint.length },
+          actual: 0,
+        }],
+        report: compareForms(forms, options),
+      };
+    }
+
+    forms.push(form);
+  }
+
+  return {
+    success: true,
+    forms,
+    violations: [],
+    report: compareForms(forms, options),
+  };
+}
+
+/**
+ * Report how equivalent a set of forms are
+ *
+ * @param forms - Forms to compare
+ * @param options - Tolerance and difficulty estimates
+ * @returns FormEquivalenceReport
+ */
+export function compareForms(
+  forms: AssessmentForm[],
+  options: Pick<ParallelFormOptions, 'tolerance' | 'difficultyEstimates'> = {}
+): FormEquivalenceReport {
+  const tolerance = { ...DEFAULT_TOLERANCE, ...options.tolerance };
+  const issues: string[] = [];
+
+  const summaries: FormEquivalenceSummary[] = forms.map(form => {
+    const questions = getFormQuestions(form);
+    return {
+      formId: form.id,
+      summary: calculateFormSummary(questions),
+      meanDifficulty: calculateMeanDifficulty(questions, options.difficultyEstimates),
+    };
+  });
+
+  const overlaps: FormOverlap[] = [];
+  for (let i = 0; i < forms.length; i++) {
+    for (let j = i + 1; j < forms.length; j++) {
+      overlaps.push(calculateOverlap(forms[i], forms[j]));
+    }
+  }
+
+  const categorySpread: Partial<Record<CategoryName, StatisticSpread>> = {};
+  for (const category of CATEGORY_NAMES) {
+    const counts = summaries.map(s => s.summary.byCategory[category] || 0);
+    if (counts.every(value => value === 0)) {
+      continue;
+    }
+    categorySpread[category] = calculateSpread(counts);
+    if (categorySpread[category]!.spread > 0) {
+      issues.push(`${category} question counts differ (${counts.join(', ')})`);
+    }
+  }
+
+  const totalScore = calculateSpread(summaries.map(s => s.summary.totalScore));
+  const totalWeight = calculateSpread(summaries.map(s => s.summary.totalWeight));
+  const meanDifficulty = calculateSpread(
+    summaries.map(s => s.meanDifficulty).filter((value): value is number => value !== null)
+  );
+
+  const averageScore = mean(summaries.map(s => s.summary.totalScore));
+  if (totalScore.spread > averageScore * tolerance.totalScoreRatio) {
+    issues.push(`Total scores differ by ${totalScore.spread} (${totalScore.min}-${totalScore.max})`);
+  }
+
+  const averageWeight = mean(summaries.map(s => s.summary.totalWeight));
+  if (totalWeight.spread > averageWeight * tolerance.totalWeightRatio) {
+    issues.push(`Total weights differ by ${totalWeight.spread} (${totalWeight.min}-${totalWeight.max})`);
+  }
+
+  if (meanDifficulty.spread > tolerance.meanDifficulty) {
+    issues.push(
+      `Mean difficulty differs by ${meanDifficulty.spread.toFixed(2)} ` +
+      `(${meanDifficulty.min.toFixed(2)} to ${meanDifficulty.max.toFixed(2)})`
+    );
+  }
+
+  return {
+    formCount: forms.length,
+    forms: summaries,
+    overlaps,
+    maxSharedQuestions: overlaps.length > 0
+      ? Math.max(...overlaps.map(overlap => overlap.sharedQuestions.length))
+      : 0,
+    categorySpread,
+    totalScore,
+    totalWeight,
+    meanDifficulty,
+    equivalent: issues.length === 0,
+    issues,
+  };
+}
+
+/**
+ * Get a question's estimated difficulty
+ *
+ * @returns Estimate from the map, else from the difficulty rating, else null
+ */
+export function getDifficultyEstimate(
+  question: Question,
+  difficultyEstimates?: Record<string, number>
+): number | null {
+  if (difficultyEstimates && difficultyEstimates[question.id] !== undefined) {
+    return difficultyEstimates[question.id];
+  }
+  return question.difficulty ? DIFFICULTY_ESTIMATES[question.difficulty] : null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get the letter suffix of a form ID (A…Z, then AA, AB…)
+ */
+function getFormSuffix(index: number): string {
+  let suffix = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    suffix = String.fromCharCode(65 + ((n - 1) % 26)) + suffix;
+  }
+  return suffix;
+}
+
+/**
+ * Narrow the blueprint's score and weight ranges to a reference form's totals
+ */
+function narrowBlueprint(
+  blueprint: FormBlueprint,
+  reference: AssessmentForm,
+  tolerance: Required<EquivalenceTolerance>
+): FormBlueprint {
+  const { totalScore, totalWeight } = reference.summary;
+
+  return {
+    ...blueprint,
+    totalScore: intersectRanges(blueprint.totalScore, {
+      min: totalScore * (1 - tolerance.totalScoreRatio / 2),
+      max: totalScore * (1 + tolerance.totalScoreRatio / 2),
+    }),
+    totalWeight: intersectRanges(blueprint.totalWeight, {
+      min: totalWeight * (1 - tolerance.totalWeightRatio / 2),
+      max: totalWeight * (1 + tolerance.totalWeightRatio / 2),
+    }),
+  };
+}
+
+/**
+ * Get questions a new form must avoid to stay within the overlap limit
+ *
+ * Each earlier form releases up to maxOverlap of its questions (chosen by
+ * seed); everything else already used is excluded.
+ */
+function getExcludedQuestions(
+  forms: AssessmentForm[],
+  maxOverlap: number,
+  seed: string
+): string[] {
+  const random = createSeededRandom(seed);
+  const excluded = new Set<string>();
+  const released = new Set<string>();
+
+  for (const form of forms) {
+    const questionIds = getFormQuestions(form).map(question => question.id);
+    shuffleWithSeed(questionIds, random).forEach((questionId, index) => {
+      if (index < maxOverlap) {
+        released.add(questionId);
+      } else {
+        excluded.add(questionId);
+      }
+    });
+  }
+
+  return [...excluded].filter(questionId => !released.has(questionId));
+}
+
+function isWithinOverlap(form: AssessmentForm, forms: AssessmentForm[], maxOverlap: number): boolean {
+  return forms.every(other => calculateOverlap(form, other).sharedQuestions.length <= maxOverlap);
+}
+
+function isDifficultyMatched(
+  form: AssessmentForm,
+  reference: AssessmentForm,
+  tolerance: Required<EquivalenceTolerance>,
+  difficultyEstimates?: Record<string, number>
+): boolean {
+  const formDifficulty = calculateMeanDifficulty(getFormQuestions(form), difficultyEstimates);
+  const referenceDifficulty = calculateMeanDifficulty(getFormQuestions(reference), difficultyEstimates);
+  if (formDifficulty === null || referenceDifficulty === null) {
+    return true;
+  }
+  // Half the tolerance either side of the reference keeps every pair within tolerance
+  return Math.abs(formDifficulty - referenceDifficulty) <= tolerance.meanDifficulty / 2;
+}
+
+function calculateOverlap(formA: AssessmentForm, formB: AssessmentForm): FormOverlap {
+  const questionsA = getFormQuestions(formA);
+  const questionsB = getFormQuestions(formB);
+  const idsB = new Set(questionsB.map(question => question.id));
+  const sharedQuestions = questionsA
+    .map(question => question.id)
+    .filter(questionId => idsB.has(questionId));
+  const shorter = Math.min(questionsA.length, questionsB.length);
+
+  return {
+    formA: formA.id,
+    formB: formB.id,
+    sharedQuestions,
+    overlapPercentage: shorter > 0 ? (sharedQuestions.length / shorter) * 100 : 0,
+  };
+}
+
+function calculateMeanDifficulty(
+  questions: Question[],
+  difficultyEstimates?: Record<string, number>
+): number | null {
+  const estimates = questions
+    .map(question => getDifficultyEstimate(question, difficultyEstimates))
+    .filter((value): value is number => value !== null);
+  return estimates.length > 0 ? mean(estimates) : null;
+}
+
+function calculateSpread(values: number[]): StatisticSpread {
+  if (values.length === 0) {
+    return { min: 0, max: 0, spread: 0 };
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return { min, max, spread: max - min };
+}
+
+function intersectRanges(a: BlueprintRange | undefined, b: BlueprintRange): BlueprintRange {
+  return {
+    min: Math.max(a?.min ?? -Infinity, b.min ?? -Infinity),
+    max: Math.min(a?.max ?? Infinity, b.max ?? Infinity),
+  };
+}
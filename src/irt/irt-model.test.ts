@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  estimateAbilityEAP,
+  estimateAbilityMLE,
+  itemInformation,
+  probabilityCorrect,
+} from './irt-model';
+
+test('probabilityCorrect is 0.5 at the item difficulty and lifted by guessing', () => {
+  assert.equal(probabilityCorrect(1, { difficulty: 1 }), 0.5);
+  const p = probabilityCorrect(0, { difficulty: 0, discrimination: 1.7, guessing: 0.2 });
+  assert.ok(Math.abs(p - 0.6) < 1e-12);
+});
+
+test('itemInformation is a² × P × (1 - P) without guessing', () => {
+  assert.equal(itemInformation(0, { difficulty: 0 }), 0.25);
+  assert.equal(itemInformation(0, { difficulty: 0, discrimination: 2 }), 1);
+});
+
+test('MLE solves the likelihood equation for a symmetric pattern', () => {
+  // Rasch items at -1 and +1, first right and second wrong: θ = 0 by symmetry,
+  // SE = 1 / √(2 × P(1 - P)) with P = 1 / (1 + e)
+  const estimate = estimateAbilityMLE([
+    { parameters: { difficulty: -1 }, score: 1 },
+    { parameters: { difficulty: 1 }, score: 0 },
+  ]);
+  const p = 1 / (1 + Math.E);
+  assert.ok(Math.abs(estimate.theta) < 1e-6);
+  assert.ok(Math.abs(estimate.standardError - 1 / Math.sqrt(2 * p * (1 - p))) < 1e-6);
+  assert.equal(estimate.boundary, undefined);
+});
+
+test('MLE matches the raw score to the expected score (Rasch sufficiency)', () => {
+  const difficulties = [-1.5, -0.5, 0, 0.7, 1.4];
+  const scores = [1, 1, 0, 1, 0];
+  const estimate = estimateAbilityMLE(
+    difficulties.map((difficulty, index) => ({ parameters: { difficulty }, score: scores[index] }))
+  );
+  const expected = difficulties.reduce(
+    (total, difficulty) => total + probabilityCorrect(estimate.theta, { difficulty }),
+    0
+  );
+  assert.ok(Math.abs(expected - 3) < 1e-4);
+});
+
+test('MLE reports a boundary for all-correct patterns', () => {
+  const estimate = estimateAbilityMLE([
+    { parameters: { difficulty: 0 }, score: 1 },
+    { parameters: { difficulty: 1 }, score: 1 },
+  ]);
+  assert.equal(estimate.boundary, true);
+});
+
+test('EAP with no responses returns the prior', () => {
+  const estimate = estimateAbilityEAP([], { mean: 0.5, standardDeviation: 1 });
+  assert.ok(Math.abs(estimate.theta - 0.5) < 1e-3);
+  assert.ok(Math.abs(estimate.standardError - 1) < 1e-2);
+});
+
+test('EAP shrinks toward the prior relative to MLE', () => {
+  const responses = [
+    { parameters: { difficulty: -1 }, score: 1 },
+    { parameters: { difficulty: 0 }, score: 1 },
+    { parameters: { difficulty: 1 }, score: 0 },
+  ];
+  const mle = estimateAbilityMLE(responses).theta;
+  const eap = estimateAbilityEAP(responses).theta;
+  assert.ok(mle > 0);
+  assert.ok(eap > 0 && eap < mle);
+});
@@ -0,0 +1,241 @@
+/**
+ * IRT Model
+ *
+ * This module contains the item response theory functions shared by the
+ * adaptive and ability-scoring modules:
+ * - Probability of a correct response (1PL/2PL/3PL logistic model)
+ * - Item and test information
+ * - Expected a posteriori (EAP) and maximum-likelihood (MLE) ability estimation
+ *
+ * Model:
+ * P(theta) = c + (1 - c) / (1 + e^(-a × (theta - b)))
+ * where b = difficulty, a = discrimination (default 1), c = guessing (default 0)
+ */
+
+import { AbilityEstimate, IrtModel, ItemParameters } from '../types/assessment.types';
+import { ItemResponse } from '../types/irt.types';
+
+/**
+ * Theta range covered by quadrature
+ */
+export const THETA_RANGE = { min: -4, max: 4 };
+
+/**
+ * Number of quadrature points used for EAP estimation
+ */
+const QUADRATURE_POINTS = 81;
+
+/**
+ * Maximum Newton-Raphson iterations for MLE estimation
+ */
+const MAX_MLE_ITERATIONS = 50;
+
+/**
+ * Get the model item parameters belong to
+ *
+ * Uses the explicit model if set, otherwise the parameters present.
+ */
+export function getItemModel(parameters: ItemParameters): IrtModel {
+  if (parameters.model) {
+    return parameters.model;
+  }
+  if (parameters.guessing !== undefined && parameters.guessing > 0) {
+    return '3PL';
+  }
+  return parameters.discrimination !== undefined ? '2PL' : '1PL';
+}
+
+/**
+ * Resolve item parameters to the values the model uses
+ *
+ * 1PL fixes discrimination at 1 and guessing at 0; 2PL fixes guessing at 0.
+ */
+export function resolveItemParameters(
+  parameters: ItemParameters
+): { difficulty: number; discrimination: number; guessing: number } {
+  const model = getItemModel(parameters);
+  return {
+    difficulty: parameters.difficulty,
+    discrimination: model === '1PL' ? 1 : parameters.discrimination ?? 1,
+    guessing: model === '3PL' ? parameters.guessing ?? 0 : 0,
+  };
+}
+
+/**
+ * Calculate the probability of a correct response
+ *
+ * @param theta - Candidate ability
+ * @param parameters - Item parameters
+ * @returns Probability between guessing and 1
+ */
+export function probabilityCorrect(theta: number, parameters: ItemParameters): number {
+  const { difficulty, discrimination, guessing } = resolveItemParameters(parameters);
+  return guessing + (1 - guessing) / (1 + Math.exp(-discrimination * (theta - difficulty)));
+}
+
+/**
+ * Calculate item information at a given ability
+ *
+ * I(theta) = a² × ((P - c)² / (1 - c)²) × ((1 - P) / P)
+ * (reduces to a² × P × (1 - P) when c = 0)
+ *
+ * @param theta - Candidate ability
+ * @param parameters - Item parameters
+ * @returns Fisher information contributed by the item
+ */
+export function itemInformation(theta: number, parameters: ItemParameters): number {
+  const { discrimination, guessing } = resolveItemParameters(parameters);
+  const p = probabilityCorrect(theta, parameters);
+  if (p <= 0 || p >= 1) {
+    return 0;
+  }
+  return Math.pow(discrimination, 2) *
+    (Math.pow(p - guessing, 2) / Math.pow(1 - guessing, 2)) *
+    ((1 - p) / p);
+}
+
+/**
+ * Calculate test information (sum of item information)
+ */
+export function testInformation(theta: number, parameters: ItemParameters[]): number {
+  return parameters.reduce((total, item) => total + itemInformation(theta, item), 0);
+}
+
+/**
+ * Calculate the log-likelihood of a set of responses at a given ability
+ *
+ * Fractional scores (partial credit) contribute score × log P + (1 - score) × log(1 - P).
+ */
+export function logLikelihood(theta: number, responses: ItemResponse[]): number {
+  let total = 0;
+  for (const { parameters, score } of responses) {
+    const p = clampProbability(probabilityCorrect(theta, parameters));
+    total += score * Math.log(p) + (1 - score) * Math.log(1 - p);
+  }
+  return total;
+}
+
+/**
+ * Estimate ability with expected a posteriori (EAP) estimation
+ *
+ * Uses a normal prior and numerical quadrature over THETA_RANGE. EAP always
+ * returns a finite estimate, even for all-correct or all-incorrect patterns,
+ * which makes it suitable after every response in an adaptive session.
+ *
+ * @param responses - Scored responses with item parameters
+ * @param prior - Prior mean and standard deviation (default standard normal)
+ * @returns Ability estimate with posterior standard deviation as standard error
+ */
+export function estimateAbilityEAP(
+  responses: ItemResponse[],
+  prior: { mean: number; standardDeviation: number } = { mean: 0, standardDeviation: 1 }
+): AbilityEstimate {
+  const step = (THETA_RANGE.max - THETA_RANGE.min) / (QUADRATURE_POINTS - 1);
+  const points: number[] = [];
+  const logPosterior: number[] = [];
+
+  for (let i = 0; i < QUADRATURE_POINTS; i++) {
+    const theta = THETA_RANGE.min + i * step;
+    const z = (theta - prior.mean) / prior.standardDeviation;
+    points.push(theta);
+    logPosterior.push(logLikelihood(theta, responses) - (z * z) / 2);
+  }
+
+  // Normalize in log space to avoid underflow on long tests
+  const maxLog = Math.max(...logPosterior);
+  const weights = logPosterior.map(value => Math.exp(value - maxLog));
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+
+  const theta = points.reduce((total, point, i) => total + point * weights[i], 0) / totalWeight;
+  const variance = points.reduce(
+    (total, point, i) => total + Math.pow(point - theta, 2) * weights[i],
+    0
+  ) / totalWeight;
+
+  return {
+    theta,
+    standardError: Math.sqrt(variance),
+    method: 'EAP',
+    itemCount: responses.length,
+  };
+}
+
+/**
+ * Estimate ability with maximum likelihood (MLE)
+ *
+ * Uses Fisher scoring (Newton-Raphson with expected information), bounded to
+ * THETA_RANGE. All-correct and all-incorrect patterns have no finite MLE;
+ * they return the range boundary with `boundary: true`.
+ *
+ * @param responses - Scored responses with item parameters
+ * @returns Ability estimate with standard error 1 / √(test information)
+ */
+export function estimateAbilityMLE(responses: ItemResponse[]): AbilityEstimate {
+  if (responses.length === 0) {
+    return { theta: 0, standardError: Infinity, method: 'MLE', itemCount: 0 };
+  }
+
+  const totalScore = responses.reduce((total, response) => total + response.score, 0);
+  let boundary: number | undefined;
+  if (totalScore >= responses.length) {
+    boundary = THETA_RANGE.max;
+  } else if (totalScore <= 0) {
+    boundary = THETA_RANGE.min;
+  }
+
+  let theta = boundary ?? 0;
+  if (boundary === undefined) {
+    for (let iteration = 0; iteration < MAX_MLE_ITERATIONS; iteration++) {
+      let gradient = 0;
+      let information = 0;
+      for (const { parameters, score } of responses) {
+        const { discrimination, guessing } = resolveItemParameters(parameters);
+        const p = clampProbability(probabilityCorrect(theta, parameters));
+        gradient += discrimination * (p - guessing) * (score - p) / ((1 - guessing) * p);
+        information += itemInformation(theta, parameters);
+      }
+      if (information <= 0) {
+        break;
+      }
+
+      const next = Math.min(Math.max(theta + gradient / information, THETA_RANGE.min), THETA_RANGE.max);
+      const change = Math.abs(next - theta);
+      theta = next;
+      if (change < 1e-6) {
+        break;
+      }
+    }
+  }
+
+  const information = testInformation(theta, responses.map(response => response.parameters));
+  const estimate: AbilityEstimate = {
+    theta,
+    standardError: information > 0 ? 1 / Math.sqrt(information) : Infinity,
+    method: 'MLE',
+    itemCount: responses.length,
+  };
+  if (boundary !== undefined || theta <= THETA_RANGE.min || theta >= THETA_RANGE.max) {
+    estimate.boundary = true;
+  }
+  return estimate;
+}
+
+/**
+ * Estimate ability with the given method
+ *
+ * @param prior - Prior for EAP (default standard normal; MLE uses none)
+ */
+export function estimateAbility(
+  responses: ItemResponse[],
+  method: AbilityEstimate['method'] = 'EAP',
+  prior?: { mean: number; standardDeviation: number }
+): AbilityEstimate {
+  return method === 'MLE' ? estimateAbilityMLE(responses) : estimateAbilityEAP(responses, prior);
+}
+
+/**
+ * Keep probabilities away from 0 and 1 so logarithms stay finite
+ */
+function clampProbability(p: number): number {
+  return Math.min(Math.max(p, 1e-9), 1 - 1e-9);
+}
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AssessmentResult, QuestionResult } from '../types/assessment.types';
+import { createSeededRandom } from '../delivery/randomizer';
+import { mean, pearsonCorrelation } from '../utils/statistics';
+import { probabilityCorrect } from './irt-model';
+import { calibrateItems } from './item-calibration';
+
+const difficulties = [-2, -1.5, -1, -0.5, 0, 0.5, 1, 1.5, 2];
+
+function questionResult(questionId: string, score: number, extra: Partial<QuestionResult> = {}): QuestionResult {
+  return {
+    questionId,
+    category: 'Logical Reasoning',
+    type: 'multipleChoice',
+    userAnswers: [score > 0 ? 0 : 1],
+    correctAnswers: [0],
+    earnedPoints: score * 10,
+    maxPoints: 10,
+    percentage: score * 100,
+    isCorrect: score === 1,
+    isPartialCredit: false,
+    weight: 1,
+    responseStatus: 'answered',
+    ...extra,
+  };
+}
+
+/**
+ * Simulate Rasch responses for standard normal abilities
+ */
+function simulateCohort(size: number, seed: string): AssessmentResult[] {
+  const random = createSeededRandom(seed);
+  const results: AssessmentResult[] = [];
+  for (let person = 0; person < size; person++) {
+    const theta = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const questions = difficulties.map((difficulty, item) =>
+      questionResult(`q-${item}`, random() < probabilityCorrect(theta, { difficulty }) ? 1 : 0)
+    );
+    results.push({ questions } as AssessmentResult);
+  }
+  return results;
+}
+
+test('Rasch calibration recovers simulated difficulties', () => {
+  const calibration = calibrateItems(simulateCohort(1500, 'rasch-recovery'));
+  const estimated = calibration.items.map(item => item.parameters.difficulty);
+
+  assert.equal(calibration.diagnostics.converged, true);
+  assert.equal(calibration.items.length, difficulties.length);
+  assert.ok(Math.abs(mean(estimated)) < 1e-6);
+  assert.ok(pearsonCorrelation(estimated, difficulties) > 0.99);
+  // JMLE overstates the spread by about k / (k - 1), well within 0.35 logits here
+  estimated.forEach((difficulty, index) => {
+    assert.ok(Math.abs(difficulty - difficulties[index]) < 0.35, `q-${index}: ${difficulty}`);
+  });
+  for (const item of calibration.items) {
+    assert.ok(item.infit > 0.8 && item.infit < 1.2, `${item.questionId} infit ${item.infit}`);
+  }
+});
+
+test('2PL calibration orders discriminations correctly', () => {
+  const random = createSeededRandom('2pl-recovery');
+  const discriminations = [0.5, 1, 2];
+  const results: AssessmentResult[] = [];
+  for (let person = 0; person < 2000; person++) {
+    const theta = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const questions = difficulties.map((difficulty, item) => {
+      const discrimination = discriminations[item % 3];
+      return questionResult(`q-${item}`, random() < probabilityCorrect(theta, { difficulty, discrimination }) ? 1 : 0);
+    });
+    results.push({ questions } as AssessmentResult);
+  }
+
+  const calibration = calibrateItems(results, { model: '2PL' });
+  const byLevel = discriminations.map((_, level) =>
+    mean(calibration.items.filter((_, item) => item % 3 === level).map(item => item.parameters.discrimination!))
+  );
+  assert.ok(byLevel[0] < byLevel[1] && byLevel[1] < byLevel[2], byLevel.join(', '));
+});
+
+test('excluded responses are treated as missing', () => {
+  const results = simulateCohort(400, 'calibration-exclusion');
+  const excluded = results.map(result => ({
+    ...result,
+    questions: result.questions.map(question => question.questionId === 'q-0' && !question.isCorrect
+      ? questionResult(question.questionId, 0, { maxPoints: 0, weight: 0, excluded: true, responseStatus: 'omitted' })
+      : question),
+  }));
+  // With its wrong answers excluded, q-0 is only ever answered correctly
+  const reasons = calibrateItems(excluded).diagnostics.excludedItems.map(item => [item.questionId, item.reason]);
+  assert.deepEqual(reasons, [['q-0', 'allCorrect']]);
+});
+
+test('formula-scoring penalties do not change the item scores', () => {
+  const results = simulateCohort(400, 'calibration-formula');
+  const penalized = results.map(result => ({
+    ...result,
+    questions: result.questions.map(question => question.isCorrect ? question : questionResult(question.questionId, 0, {
+      earnedPoints: -2.5,
+      formulaScore: { mode: 'negativeMarking', rawPoints: 0, correctedPoints: -2.5, penaltyPoints: 2.5, omitted: false },
+    })),
+  }));
+  assert.deepEqual(
+    calibrateItems(penalized).items.map(item => item.parameters),
+    calibrateItems(results).items.map(item => item.parameters)
+  );
+});
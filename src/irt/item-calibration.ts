@@ -0,0 +1,443 @@
+/**
+ * Item Calibration
+ *
+ * This module estimates IRT item parameters offline from historical results:
+ * - Builds a candidate × question response matrix from AssessmentResults
+ * - Fits Rasch or 2PL parameters with joint maximum likelihood (JMLE)
+ * - Reports convergence diagnostics and infit/outfit fit statistics
+ * - Writes the parameters back into a question bank file
+ *
+ * Item score = Earned Points / Max Points, so partial credit counts as a
+ * fractional response, and formula-scoring penalties are left out. Responses the response policy excluded from the score
+ * are treated as missing. Candidates with all-correct or all-incorrect
+ * patterns (no finite ability) and questions everyone or no one got right
+ * (no finite difficulty) are excluded.
+ *
+ * Scale identification:
+ * - Rasch: difficulties are centered on 0
+ * - 2PL: abilities are standardized to mean 0, SD 1
+ */
+
+import * as fs from 'fs';
+import { AssessmentResult, ItemParameters, QuestionBank } from '../types/assessment.types';
+import {
+  CalibrationOptions,
+  CalibrationResult,
+  ExcludedItem,
+  ItemCalibration,
+} from '../types/irt.types';
+import { getItemScore } from '../analysis/item-analysis';
+import { mean, standardDeviation } from '../utils/statistics';
+
+/**
+ * Default calibration options
+ */
+export const DEFAULT_CALIBRATION_OPTIONS: Required<CalibrationOptions> = {
+  model: 'rasch',
+  maxIterations: 100,
+  convergence: 0.001,
+  minResponses: 20,
+  fitRange: { min: 0.7, max: 1.3 },
+};
+
+/**
+ * Parameter bounds keeping JMLE stable on sparse data
+ */
+const PARAMETER_BOUNDS = {
+  theta: 6,
+  difficulty: 6,
+  discrimination: { min: 0.2, max: 4 },
+  step: 1,
+};
+
+/**
+ * A single candidate's score on a single question
+ */
+interface Observation {
+  person: number;
+  item: number;
+  score: number;
+}
+
+/**
+ * Calibrate item parameters from historical assessment results
+ *
+ * @param results - Assessment results (each question result contributes one response)
+ * @param options - Calibration options
+ * @returns CalibrationResult with parameters, fit statistics and diagnostics
+ */
+export function calibrateItems(
+  results: AssessmentResult[],
+  options: CalibrationOptions = {}
+): CalibrationResult {
+  const settings = { ...DEFAULT_CALIBRATION_OPTIONS, ...options };
+  const { model } = settings;
+
+  // Build observations
+  const itemIds: string[] = [];
+  const itemIndex = new Map<string, number>();
+  let observations: Observation[] = [];
+
+  results.forEach((result, person) => {
+    for (const question of result.questions) {
+      if (question.excluded) {
+        continue;
+      }
+      if (!itemIndex.has(question.questionId)) {
+        itemIndex.set(question.questionId, itemIds.length);
+        itemIds.push(question.questionId);
+      }
+      observations.push({
+        person,
+        item: itemIndex.get(question.questionId)!,
+        score: getItemScore(question),
+      });
+    }
+  });
+
+  // Remove extreme persons and items until stable
+  const excludedItems = new Map<number, ExcludedItem>();
+  const excludedPersons = new Set<number>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [item, stats] of summarize(observations, o => o.item)) {
+      const reason = stats.count < settings.minResponses
+        ? 'tooFewResponses'
+        : stats.total >= stats.count ? 'allCorrect' : stats.total <= 0 ? 'allIncorrect' : null;
+      if (reason) {
+        excludedItems.set(item, { questionId: itemIds[item], reason, responseCount: stats.count });
+        changed = true;
+      }
+    }
+    for (const [person, stats] of summarize(observations, o => o.person)) {
+      if (stats.total >= stats.count || stats.total <= 0) {
+        excludedPersons.add(person);
+        changed = true;
+      }
+    }
+
+    observations = observations.filter(
+      o => !excludedItems.has(o.item) && !excludedPersons.has(o.person)
+    );
+  }
+
+  const itemStats = summarize(observations, o => o.item);
+  const personStats = summarize(observations, o => o.person);
+  const activeItems = [...itemStats.keys()];
+  const activePersons = [...personStats.keys()];
+
+  // Starting values from observed proportions
+  const theta = new Map<number, number>();
+  const difficulty = new Map<number, number>();
+  const discrimination = new Map<number, number>();
+  for (const person of activePersons) {
+    const { total, count } = personStats.get(person)!;
+    theta.set(person, Math.log(total / (count - total)));
+  }
+  for (const item of activeItems) {
+    const { total, count } = itemStats.get(item)!;
+    difficulty.set(item, Math.log((count - total) / total));
+    discrimination.set(item, 1);
+  }
+
+  const byPerson = groupObservations(observations, o => o.person);
+  const byItem = groupObservations(observations, o => o.item);
+
+  let iterations = 0;
+  let maxChange = Infinity;
+
+  while (iterations < settings.maxIterations && maxChange > settings.convergence) {
+    iterations++;
+    maxChange = 0;
+
+    // Ability step for each candidate given current item parameters
+    for (const person of activePersons) {
+      let gradient = 0;
+      let information = 0;
+      for (const { item, score } of byPerson.get(person)!) {
+        const a = discrimination.get(item)!;
+        const p = probability(theta.get(person)!, a, difficulty.get(item)!);
+        gradient += a * (score - p);
+        information += a * a * p * (1 - p);
+      }
+      const next = clamp(
+        theta.get(person)! + limitStep(gradient / information),
+        -PARAMETER_BOUNDS.theta,
+        PARAMETER_BOUNDS.theta
+      );
+      maxChange = Math.max(maxChange, Math.abs(next - theta.get(person)!));
+      theta.set(person, next);
+    }
+
+    // Item step for each question given current abilities
+    for (const item of activeItems) {
+      const a = discrimination.get(item)!;
+      const b = difficulty.get(item)!;
+      let residual = 0;
+      let information = 0;
+      let slopeGradient = 0;
+      let slopeInformation = 0;
+      for (const { person, score } of byItem.get(item)!) {
+        const distance = theta.get(person)! - b;
+        const p = probability(theta.get(person)!, a, b);
+        residual += score - p;
+        information += p * (1 - p);
+        slopeGradient += (score - p) * distance;
+        slopeInformation += p * (1 - p) * distance * distance;
+      }
+
+      const nextDifficulty = clamp(
+        b - limitStep(residual / (a * information)),
+        -PARAMETER_BOUNDS.difficulty,
+        PARAMETER_BOUNDS.difficulty
+      );
+      maxChange = Math.max(maxChange, Math.abs(nextDifficulty - b));
+      difficulty.set(item, nextDifficulty);
+
+      if (model === '2PL' && slopeInformation > 0) {
+        const nextDiscrimination = clamp(
+          a + limitStep(slopeGradient / slopeInformation, 0.5),
+          PARAMETER_BOUNDS.discrimination.min,
+          PARAMETER_BOUNDS.discrimination.max
+        );
+        maxChange = Math.max(maxChange, Math.abs(nextDiscrimination - a));
+        discrimination.set(item, nextDiscrimination);
+      }
+    }
+
+    identifyScale(model, theta, difficulty, discrimination);
+  }
+
+  // JMLE overestimates Rasch difficulties by a factor of L / (L - 1)
+  if (model === 'rasch' && activeItems.length > 1) {
+    const correction = (activeItems.length - 1) / activeItems.length;
+    for (const item of activeItems) {
+      difficulty.set(item, difficulty.get(item)! * correction);
+    }
+  }
+
+  const items = activeItems.map(item =>
+    calibrateItem(item, itemIds[item], byItem.get(item)!, theta, difficulty, discrimination, settings)
+  );
+
+  let logLikelihood = 0;
+  for (const { person, item, score } of observations) {
+    const p = clampProbability(probability(theta.get(person)!, discrimination.get(item)!, difficulty.get(item)!));
+    logLikelihood += score * Math.log(p) + (1 - score) * Math.log(1 - p);
+  }
+
+  return {
+    model,
+    items,
+    diagnostics: {
+      converged: maxChange <= settings.convergence,
+      iterations,
+      maxChange: activeItems.length > 0 ? maxChange : 0,
+      logLikelihood,
+      personCount: activePersons.length,
+      excludedPersons: excludedPersons.size,
+      excludedItems: [...excludedItems.values()],
+    },
+  };
+}
+
+/**
+ * Apply calibrated parameters to a question bank
+ *
+ * Questions without a calibration keep their existing parameters.
+ *
+ * @param bank - Question bank
+ * @param calibration - Calibration result
+ * @returns New bank with `irt` set on calibrated questions
+ */
+export function applyCalibration<T extends QuestionBank>(bank: T, calibration: CalibrationResult): T {
+  const parameters = new Map(calibration.items.map(item => [item.questionId, item.parameters]));
+  const apply = <Q extends { id: string; irt?: ItemParameters }>(question: Q): Q =>
+    parameters.has(question.id) ? { ...question, irt: parameters.get(question.id) } : question;
+
+  const updated: T = { ...bank, questions: bank.questions.map(apply) };
+  if (bank.questionGroups) {
+    updated.questionGroups = bank.questionGroups.map(group => ({
+      ...group,
+      questions: group.questions.map(apply),
+    }));
+  }
+  return updated;
+}
+
+/**
+ * Write calibrated parameters into a question bank file
+ *
+ * Other content of the file (e.g. metadata) is preserved.
+ *
+ * @param bankPath - Question bank JSON file
+ * @param calibration - Calibration result
+ * @param outputPath - Where to write the updated bank (default: overwrite bankPath)
+ * @returns Number of questions updated
+ */
+export function writeCalibrationToBank(
+  bankPath: string,
+  calibration: CalibrationResult,
+  outputPath: string = bankPath
+): number {
+  const bank: QuestionBank = JSON.parse(fs.readFileSync(bankPath, 'utf-8'));
+  if (!Array.isArray(bank.questions)) {
+    throw new Error(`${bankPath} is not a question bank (missing questions array)`);
+  }
+
+  const updated = applyCalibration(bank, calibration);
+  fs.writeFileSync(outputPath, JSON.stringify(updated, null, 2) + '\n', 'utf-8');
+
+  const calibratedIds = new Set(calibration.items.map(item => item.questionId));
+  return [
+    ...updated.questions,
+    ...(updated.questionGroups || []).flatMap(group => group.questions),
+  ].filter(question => calibratedIds.has(question.id)).length;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build the calibration record for one item, with standard errors and fit
+ */
+function calibrateItem(
+  item: number,
+  questionId: string,
+  observations: Observation[],
+  theta: Map<number, number>,
+  difficulty: Map<number, number>,
+  discrimination: Map<number, number>,
+  settings: Required<CalibrationOptions>
+): ItemCalibration {
+  const a = discrimination.get(item)!;
+  const b = difficulty.get(item)!;
+
+  let information = 0;
+  let slopeInformation = 0;
+  let squaredResidual = 0;
+  let variance = 0;
+  let standardizedSquared = 0;
+  let total = 0;
+
+  for (const { person, score } of observations) {
+    const p = clampProbability(probability(theta.get(person)!, a, b));
+    const itemVariance = p * (1 - p);
+    information += a * a * itemVariance;
+    slopeInformation += itemVariance * Math.pow(theta.get(person)! - b, 2);
+    squaredResidual += Math.pow(score - p, 2);
+    variance += itemVariance;
+    standardizedSquared += Math.pow(score - p, 2) / itemVariance;
+    total += score;
+  }
+
+  const infit = variance > 0 ? squaredResidual / variance : 0;
+  const outfit = standardizedSquared / observations.length;
+  const { fitRange } = settings;
+
+  const parameters: ItemParameters = settings.model === '2PL'
+    ? { model: '2PL', difficulty: round(b), discrimination: round(a) }
+    : { model: '1PL', difficulty: round(b) };
+
+  return {
+    questionId,
+    parameters,
+    standardErrors: settings.model === '2PL'
+      ? { difficulty: 1 / Math.sqrt(information), discrimination: 1 / Math.sqrt(slopeInformation) }
+      : { difficulty: 1 / Math.sqrt(information) },
+    responseCount: observations.length,
+    pValue: total / observations.length,
+    infit,
+    outfit,
+    misfit: infit < fitRange.min || infit > fitRange.max || outfit < fitRange.min || outfit > fitRange.max,
+  };
+}
+
+/**
+ * Fix the scale origin (and unit for 2PL) after each iteration
+ */
+function identifyScale(
+  model: CalibrationOptions['model'],
+  theta: Map<number, number>,
+  difficulty: Map<number, number>,
+  discrimination: Map<number, number>
+): void {
+  if (model === '2PL') {
+    const abilities = [...theta.values()];
+    const center = mean(abilities);
+    const scale = standardDeviation(abilities) || 1;
+    for (const [person, value] of theta) {
+      theta.set(person, (value - center) / scale);
+    }
+    for (const [item, value] of difficulty) {
+      difficulty.set(item, (value - center) / scale);
+      discrimination.set(
+        item,
+        clamp(
+          discrimination.get(item)! * scale,
+          PARAMETER_BOUNDS.discrimination.min,
+          PARAMETER_BOUNDS.discrimination.max
+        )
+      );
+    }
+    return;
+  }
+
+  const center = mean([...difficulty.values()]);
+  for (const [item, value] of difficulty) {
+    difficulty.set(item, value - center);
+  }
+  for (const [person, value] of theta) {
+    theta.set(person, value - center);
+  }
+}
+
+function summarize(
+  observations: Observation[],
+  key: (observation: Observation) => number
+): Map<number, { total: number; count: number }> {
+  const stats = new Map<number, { total: number; count: number }>();
+  for (const observation of observations) {
+    const existing = stats.get(key(observation)) || { total: 0, count: 0 };
+    existing.total += observation.score;
+    existing.count++;
+    stats.set(key(observation), existing);
+  }
+  return stats;
+}
+
+function groupObservations(
+  observations: Observation[],
+  key: (observation: Observation) => number
+): Map<number, Observation[]> {
+  const groups = new Map<number, Observation[]>();
+  for (const observation of observations) {
+    const existing = groups.get(key(observation)) || [];
+    existing.push(observation);
+    groups.set(key(observation), existing);
+  }
+  return groups;
+}
+
+function probability(theta: number, discrimination: number, difficulty: number): number {
+  return 1 / (1 + Math.exp(-discrimination * (theta - difficulty)));
+}
+
+function clampProbability(p: number): number {
+  return Math.min(Math.max(p, 1e-9), 1 - 1e-9);
+}
+
+function limitStep(step: number, limit: number = PARAMETER_BOUNDS.step): number {
+  return clamp(step, -limit, limit);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,253 @@
+/**
+ * Norm Tables
+ *
+ * This module builds norm tables from a reference population of assessment
+ * results and compares a candidate against them:
+ *
+ * 1. Percentile rank at score s = (Scores below s + ½ × Scores equal to s) / N × 100,
+ *    tabulated at every whole percentage and interpolated in between
+ * 2. Distributions are kept for the overall percentage and each category,
+ *    for the whole population and optionally for cohort segments
+ * 3. Relative performance: within ±0.5 SD of the norm mean is 'average'
+ *
+ * Norm tables are plain JSON and can be saved with the question bank.
+ */
+
+import * as fs from 'fs';
+import {
+  AssessmentResult,
+  CategoryName,
+  CategoryResult,
+  NormDistribution,
+  NormGroup,
+  OverallResult,
+} from '../types/assessment.types';
+import { CategoryComparison, ComparativeAnalysis } from '../types/analysis.types';
+import { NormTable, NormTableOptions } from '../types/norms.types';
+import { mean, standardDeviation } from '../utils/statistics';
+
+/**
+ * Default minimum number of results for a segment to be kept
+ */
+export const DEFAULT_MIN_SEGMENT_SIZE = 30;
+
+/**
+ * Distance from the norm mean (in SDs) still considered average
+ */
+export const AVERAGE_BAND = 0.5;
+
+/**
+ * Build a norm table from a reference population
+ *
+ * @param results - Reference population results
+ * @param options - Table ID, version and optional cohort segmentation
+ * @returns Norm table for the population and each segment large enough to keep
+ */
+export function buildNormTable(results: AssessmentResult[], options: NormTableOptions): NormTable {
+  if (results.length === 0) {
+    throw new Error('Cannot build a norm table from an empty population');
+  }
+
+  const table: NormTable = {
+    id: options.id,
+    version: options.version ?? '1.0',
+    createdAt: new Date().toISOString(),
+    population: buildNormGroup(results),
+  };
+  if (options.formId) {
+    table.formId = options.formId;
+  }
+
+  if (options.segmentBy) {
+    const minSegmentSize = options.minSegmentSize ?? DEFAULT_MIN_SEGMENT_SIZE;
+    const segmentResults = new Map<string, AssessmentResult[]>();
+    for (const result of results) {
+      const segment = options.segmentBy(result);
+      if (segment === undefined) {
+        continue;
+      }
+      const existing = segmentResults.get(segment) || [];
+      existing.push(result);
+      segmentResults.set(segment, existing);
+    }
+
+    table.segments = {};
+    for (const [segment, members] of segmentResults.entries()) {
+      if (members.length >= minSegmentSize) {
+        table.segments[segment] = buildNormGroup(members);
+      }
+    }
+    if (options.segmentLabel) {
+      table.segmentedBy = options.segmentLabel;
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Build norms for one group of results
+ */
+export function buildNormGroup(results: AssessmentResult[]): NormGroup {
+  const categoryScores = new Map<CategoryName, number[]>();
+  for (const result of results) {
+    for (const category of result.categories) {
+      const existing = categoryScores.get(category.name) || [];
+      existing.push(category.percentage);
+      categoryScores.set(category.name, existing);
+    }
+  }
+
+  const categories: Partial<Record<CategoryName, NormDistribution>> = {};
+  for (const [category, scores] of categoryScores.entries()) {
+    categories[category] = buildNormDistribution(scores);
+  }
+
+  return {
+    sampleSize: results.length,
+    overall: buildNormDistribution(results.map(result => result.overall.percentage)),
+    categories,
+  };
+}
+
+/**
+ * Build a score distribution with percentile ranks at every whole percentage
+ *
+ * @param scores - Percentages (0-100)
+ */
+export function buildNormDistribution(scores: number[]): NormDistribution {
+  const count = scores.length;
+  const percentileRanks: number[] = [];
+
+  for (let score = 0; score <= 100; score++) {
+    if (count === 0) {
+      percentileRanks.push(0);
+      continue;
+    }
+    const below = scores.filter(value => value < score - 1e-9).length;
+    const equal = scores.filter(value => Math.abs(value - score) <= 1e-9).length;
+    percentileRanks.push(((below + equal / 2) / count) * 100);
+  }
+
+  return {
+    count,
+    mean: mean(scores),
+    standardDeviation: standardDeviation(scores),
+    percentileRanks,
+  };
+}
+
+/**
+ * Get the percentile rank of a score
+ *
+ * @param distribution - Reference distribution
+ * @param score - Percentage (0-100)
+ * @returns Percentile rank (0-100)
+ */
+export function getPercentileRank(distribution: NormDistribution, score: number): number {
+  const clamped = Math.min(Math.max(score, 0), 100);
+  const lower = Math.floor(clamped);
+  const upper = Math.ceil(clamped);
+  const ranks = distribution.percentileRanks;
+  if (lower === upper) {
+    return ranks[lower];
+  }
+  return ranks[lower] + (ranks[upper] - ranks[lower]) * (clamped - lower);
+}
+
+/**
+ * Get the norms for a segment, or for the whole population
+ *
+ * @param table - Norm table
+ * @param segment - Segment name (omit for the whole population)
+ */
+export function getNormGroup(table: NormTable, segment?: string): NormGroup {
+  if (segment === undefined) {
+    return table.population;
+  }
+  const group = table.segments?.[segment];
+  if (!group) {
+    throw new Error(`Norm table ${table.id} has no segment "${segment}"`);
+  }
+  return group;
+}
+
+/**
+ * Classify a score relative to a reference distribution
+ */
+export function getRelativePerformance(
+  distribution: NormDistribution,
+  score: number
+): 'above-average' | 'average' | 'below-average' {
+  const band = AVERAGE_BAND * distribution.standardDeviation;
+  if (score > distribution.mean + band) {
+    return 'above-average';
+  }
+  if (score < distribution.mean - band) {
+    return 'below-average';
+  }
+  return 'average';
+}
+
+/**
+ * Compare a candidate's results against norms
+ *
+ * Categories without norms are left out of the category comparisons.
+ *
+ * @param categoryResults - Candidate's category results
+ * @param overall - Candidate's overall result
+ * @param norms - Reference group
+ * @returns Comparison overall and per category
+ */
+export function compareToNorms(
+  categoryResults: CategoryResult[],
+  overall: OverallResult,
+  norms: NormGroup
+): ComparativeAnalysis {
+  const categoryComparisons: CategoryComparison[] = [];
+  for (const category of categoryResults) {
+    const distribution = norms.categories[category.name];
+    if (!distribution) {
+      continue;
+    }
+    categoryComparisons.push({
+      category: category.name,
+      userScore: category.percentage,
+      benchmarkScore: distribution.mean,
+      difference: category.percentage - distribution.mean,
+      relativePerformance: getRelativePerformance(distribution, category.percentage),
+    });
+  }
+
+  return {
+    userScore: overall.percentage,
+    benchmarkScore: norms.overall.mean,
+    difference: overall.percentage - norms.overall.mean,
+    percentile: getPercentileRank(norms.overall, overall.percentage),
+    relativePerformance: getRelativePerformance(norms.overall, overall.percentage),
+    categoryComparisons,
+  };
+}
+
+/**
+ * Save a norm table as JSON
+ */
+export function saveNormTable(table: NormTable, filePath: string): void {
+  fs.writeFileSync(filePath, JSON.stringify(table, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Load a norm table saved with saveNormTable
+ */
+export function loadNormTable(filePath: string): NormTable {
+  const table: NormTable = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (
+    !table.id ||
+    !table.population ||
+    !Array.isArray(table.population.overall?.percentileRanks) ||
+    table.population.overall.percentileRanks.length !== 101
+  ) {
+    throw new Error(`${filePath} is not a valid norm table`);
+  }
+  return table;
+}
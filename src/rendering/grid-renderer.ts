@@ -0,0 +1,222 @@
+/**
+ * Grid Renderer
+ *
+ * This module turns grid question definitions into deliverable text or
+ * markup, so spatial questions can be presented without image assets:
+ * - ASCII (plain text, e.g. terminals and emails)
+ * - SVG (scalable markup for web delivery)
+ */
+
+import { GridDefinition, GridRotation } from '../types/assessment.types';
+
+/**
+ * Options for rendering a grid
+ */
+export interface GridRenderOptions {
+  /** Symbol index per cell to draw instead of the starting cells (-1 = empty) */
+  state?: number[];
+  /** Cell indices to highlight (e.g. a selected coordinate set) */
+  highlightCells?: number[];
+  /** Show row and column coordinates around the grid */
+  showCoordinates?: boolean;
+}
+
+/**
+ * Options for rendering a grid as SVG
+ */
+export interface GridSvgOptions extends GridRenderOptions {
+  /** Width and height of each cell in pixels (default 48) */
+  cellSize?: number;
+  /** Fill color for highlighted cells */
+  highlightColor?: string;
+}
+
+/**
+ * ASCII markers showing which way a rotated symbol faces
+ */
+const ASCII_ROTATION_MARKERS: Record<GridRotation, string> = {
+  0: '',
+  90: '>',
+  180: 'v',
+  270: '<',
+};
+
+/**
+ * Render a grid as ASCII art
+ *
+ * Rotated symbols are followed by a direction marker (> = 90°, v = 180°,
+ * < = 270°) and highlighted cells are wrapped in brackets.
+ *
+ * Example (2×3 grid, cell 4 highlighted):
+ * ```
+ * +-----+-----+-----+
+ * |  A  |     | B>  |
+ * +-----+-----+-----+
+ * |     | [A] |  C  |
+ * +-----+-----+-----+
+ * ```
+ *
+ * @param grid - Grid definition to render
+ * @param options - Optional state, highlights and coordinates
+ * @returns Multi-line ASCII string
+ */
+export function renderGridAscii(
+  grid: GridDefinition,
+  options: GridRenderOptions = {}
+): string {
+  const { showCoordinates = false } = options;
+  const highlighted = new Set(options.highlightCells || []);
+
+  // Build cell labels first so every column can share one width
+  const labels = getCellIndices(grid).map(cell => {
+    const symbol = getCellSymbol(grid, cell, options.state);
+    const label = symbol + ASCII_ROTATION_MARKERS[getCellRotation(grid, cell)];
+    return highlighted.has(cell) ? `[${label}]` : label;
+  });
+
+  const cellWidth = Math.max(3, ...labels.map(label => label.length)) + 2;
+  const rowLabelWidth = showCoordinates ? String(grid.rows - 1).length + 1 : 0;
+  const indent = ' '.repeat(rowLabelWidth);
+  const border = indent + '+' + Array(grid.columns).fill('-'.repeat(cellWidth)).join('+') + '+';
+
+  const lines: string[] = [];
+
+  if (showCoordinates) {
+    const header = Array.from({ length: grid.columns }, (_, column) =>
+      centerText(String(column), cellWidth)
+    );
+    lines.push(indent + ' ' + header.join(' '));
+  }
+
+  lines.push(border);
+  for (let row = 0; row < grid.rows; row++) {
+    const rowLabels = labels.slice(row * grid.columns, (row + 1) * grid.columns);
+    const rowPrefix = showCoordinates ? String(row).padEnd(rowLabelWidth) : '';
+    lines.push(rowPrefix + '|' + rowLabels.map(label => centerText(label, cellWidth)).join('|') + '|');
+    lines.push(border);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a grid as an SVG document
+ *
+ * Each cell is drawn as a square with its symbol centered inside and
+ * rotated by the cell's rotation.
+ *
+ * @param grid - Grid definition to render
+ * @param options - Optional state, highlights, coordinates and sizing
+ * @returns SVG markup string
+ */
+export function renderGridSvg(
+  grid: GridDefinition,
+  options: GridSvgOptions = {}
+): string {
+  const {
+    cellSize = 48,
+    highlightColor = '#FCD34D',
+    showCoordinates = false,
+  } = options;
+  const highlighted = new Set(options.highlightCells || []);
+
+  const offset = showCoordinates ? cellSize / 2 : 0;
+  const width = offset + grid.columns * cellSize;
+  const height = offset + grid.rows * cellSize;
+  const fontSize = Math.round(cellSize * 0.5);
+
+  const elements: string[] = [];
+
+  if (showCoordinates) {
+    for (let column = 0; column < grid.columns; column++) {
+      const x = offset + column * cellSize + cellSize / 2;
+      elements.push(
+        `<text x="${x}" y="${offset / 2}" font-size="${Math.round(fontSize / 2)}" ` +
+        `text-anchor="middle" dominant-baseline="central">${column}</text>`
+      );
+    }
+    for (let row = 0; row < grid.rows; row++) {
+      const y = offset + row * cellSize + cellSize / 2;
+      elements.push(
+        `<text x="${offset / 2}" y="${y}" font-size="${Math.round(fontSize / 2)}" ` +
+        `text-anchor="middle" dominant-baseline="central">${row}</text>`
+      );
+    }
+  }
+
+  for (const cell of getCellIndices(grid)) {
+    const x = offset + (cell % grid.columns) * cellSize;
+    const y = offset + Math.floor(cell / grid.columns) * cellSize;
+    const fill = highlighted.has(cell) ? highlightColor : '#FFFFFF';
+
+    elements.push(
+      `<rect x="${x}" y="${y}" width="${cellSize}" height="${cellSize}" ` +
+      `fill="${fill}" stroke="#000000" stroke-width="1"/>`
+    );
+
+    const symbol = getCellSymbol(grid, cell, options.state);
+    if (symbol) {
+      const centerX = x + cellSize / 2;
+      const centerY = y + cellSize / 2;
+      const rotation = getCellRotation(grid, cell);
+      const transform = rotation !== 0
+        ? ` transform="rotate(${rotation} ${centerX} ${centerY})"`
+        : '';
+
+      elements.push(
+        `<text x="${centerX}" y="${centerY}" font-size="${fontSize}" ` +
+        `text-anchor="middle" dominant-baseline="central"${transform}>${escapeXml(symbol)}</text>`
+      );
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    ...elements.map(element => `  ${element}`),
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Get the row-major indices of all cells in a grid
+ */
+function getCellIndices(grid: GridDefinition): number[] {
+  return Array.from({ length: grid.rows * grid.columns }, (_, cell) => cell);
+}
+
+/**
+ * Get the symbol drawn in a cell ('' for empty cells)
+ */
+function getCellSymbol(grid: GridDefinition, cell: number, state?: number[]): string {
+  const symbolIndex = (state || grid.cells)[cell];
+  return symbolIndex >= 0 ? grid.symbols[symbolIndex] || '' : '';
+}
+
+/**
+ * Get the rotation of a cell's symbol
+ */
+function getCellRotation(grid: GridDefinition, cell: number): GridRotation {
+  return grid.rotations?.[cell] || 0;
+}
+
+/**
+ * Center text within a fixed width
+ */
+function centerText(text: string, width: number): string {
+  const padding = Math.max(0, width - text.length);
+  const left = Math.floor(padding / 2);
+  return ' '.repeat(left) + text + ' '.repeat(padding - left);
+}
+
+/**
+ * Escape text for use inside SVG markup
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,112 @@
+/**
+ * Ability Scorer
+ *
+ * This module estimates candidate ability (theta) with item response theory
+ * alongside the percentage scores. Percentages depend on which questions were
+ * asked; theta estimates from calibrated questions are on one scale, so an
+ * easy form and a hard form give comparable numbers.
+ *
+ * Only questions with `irt` parameters contribute. Item score is
+ * Earned Points / Max Points, so partial credit counts as a fractional response.
+ */
+
+import {
+  AbilityEstimate,
+  AbilityEstimationMethod,
+  AbilityPrior,
+  CategoryResult,
+  OverallResult,
+  Question,
+  QuestionResult,
+} from '../types/assessment.types';
+import { ItemResponse } from '../types/irt.types';
+import { estimateAbility } from '../irt/irt-model';
+
+/**
+ * Build IRT responses from question results
+ *
+ * @param questionResults - Scored question results
+ * @param questions - Questions the results belong to
+ * @returns Responses for questions with IRT parameters (excluded questions are left out)
+ */
+export function getItemResponses(
+  questionResults: QuestionResult[],
+  questions: Question[]
+): ItemResponse[] {
+  const questionMap = new Map(questions.map(question => [question.id, question]));
+  const responses: ItemResponse[] = [];
+
+  for (const result of questionResults) {
+    const parameters = questionMap.get(result.questionId)?.irt;
+    if (!parameters || result.excluded) {
+      continue;
+    }
+    // IRT models the response itself, so formula-scoring penalties are left out
+    const earnedPoints = result.formulaScore?.rawPoints ?? result.earnedPoints;
+    responses.push({
+      parameters,
+      score: result.maxPoints > 0 ? earnedPoints / result.maxPoints : 0,
+    });
+  }
+
+  return responses;
+}
+
+/**
+ * Estimate ability from question results
+ *
+ * @param questionResults - Scored question results
+ * @param questions - Questions the results belong to
+ * @param method - Estimation method (default 'EAP')
+ * @param prior - Prior for EAP (default standard normal)
+ * @returns Ability estimate, or undefined if no question has IRT parameters
+ */
+export function estimateAbilityFromResults(
+  questionResults: QuestionResult[],
+  questions: Question[],
+  method: AbilityEstimationMethod = 'EAP',
+  prior?: AbilityPrior
+): AbilityEstimate | undefined {
+  const responses = getItemResponses(questionResults, questions);
+  if (responses.length === 0) {
+    return undefined;
+  }
+  return estimateAbility(responses, method, prior);
+}
+
+/**
+ * Add ability estimates to overall and category results
+ *
+ * @param overall - Overall result
+ * @param categoryResults - Category results
+ * @param questionResults - Scored question results
+ * @param questions - Questions the results belong to
+ * @param method - Estimation method (default 'EAP')
+ * @param prior - Prior for EAP (default standard normal)
+ * @returns Overall and category results with `ability` set where estimable
+ */
+export function addAbilityEstimates(
+  overall: OverallResult,
+  categoryResults: CategoryResult[],
+  questionResults: QuestionResult[],
+  questions: Question[],
+  method: AbilityEstimationMethod = 'EAP',
+  prior?: AbilityPrior
+): { overall: OverallResult; categories: CategoryResult[] } {
+  const overallAbility = estimateAbilityFromResults(questionResults, questions, method, prior);
+
+  const categories = categoryResults.map(category => {
+    const ability = estimateAbilityFromResults(
+      questionResults.filter(result => result.category === category.name),
+      questions,
+      method,
+      prior
+    );
+    return ability ? { ...category, ability } : category;
+  });
+
+  return {
+    overall: overallAbility ? { ...overall, ability: overallAbility } : overall,
+    categories,
+  };
+}
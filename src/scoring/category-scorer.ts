@@ -2,7 +2,8 @@
  * Category Scorer
  *
  * This module aggregates question results by category and calculates
- * category-level scores, including weighted contributions.
+ * category-level scores, including weighted contributions and how many
+ * questions were answered, omitted, not reached or timed out.
  */
 
 import {
@@ -10,9 +11,25 @@ import {
   QuestionResult,
   CategoryName,
   PerformanceClassification,
+  PerformanceThresholds,
+  ScorePrecisionOptions,
+  TierDefinition,
+  TierLevel,
 } from '../types/assessment.types';
 import { getCategoryCode } from '../constants/categories';
-import { getTierFromPercentage, getTierRank, getPerformanceClassification } from '../constants/tiers';
+import {
+  PERFORMANCE_THRESHOLDS,
+  TIER_DEFINITIONS,
+  getTierFromPercentage,
+  getTierRank,
+  getPerformanceClassification,
+} from '../constants/tiers';
+import {
+  DEFAULT_CONFIDENCE_LEVEL,
+  calculateConfidenceInterval,
+  calculateTierCertainty,
+} from './score-precision';
+import { countResponseStatuses } from './response-status';
 
 /**
  * Group question results by category
@@ -36,31 +53,48 @@ export function groupByCategory(
  *
  * @param category - Category name
  * @param questionResults - Results for questions in this category
+ * @param precision - Confidence interval options
+ * @param tierDefinitions - Tier definitions (default TIER_DEFINITIONS)
+ * @param performanceThresholds - Classification thresholds (default PERFORMANCE_THRESHOLDS)
  * @returns CategoryResult with all scoring details
  */
 export function scoreCategoryFromResults(
   category: CategoryName,
-  questionResults: QuestionResult[]
+  questionResults: QuestionResult[],
+  precision: ScorePrecisionOptions = {},
+  tierDefinitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS,
+  performanceThresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
 ): CategoryResult {
   // Calculate totals
   const earnedPoints = questionResults.reduce((sum, r) => sum + r.earnedPoints, 0);
   const maxPoints = questionResults.reduce((sum, r) => sum + r.maxPoints, 0);
   const totalWeight = questionResults.reduce((sum, r) => sum + r.weight, 0);
 
-  // Calculate percentage
-  const percentage = maxPoints > 0 ? (earnedPoints / maxPoints) * 100 : 0;
+  // Calculate percentage (formula-scoring penalties can take the points below zero)
+  const percentage = maxPoints > 0 ? Math.max((earnedPoints / maxPoints) * 100, 0) : 0;
 
   // Get tier and classification
-  const tier = getTierFromPercentage(percentage);
-  const rank = getTierRank(tier);
-  const classification = getPerformanceClassification(percentage);
+  const tier = getTierFromPercentage(percentage, tierDefinitions);
+  const rank = getTierRank(tier, tierDefinitions);
+  const classification = getPerformanceClassification(percentage, performanceThresholds);
+
+  // Questions left out by the response policy do not count towards the score
+  const scoredResults = questionResults.filter(r => !r.excluded);
+
+  // Confidence interval (SEM-based if a standard error is known for the category)
+  const confidenceInterval = calculateConfidenceInterval(
+    percentage,
+    scoredResults.length,
+    precision.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL,
+    precision.standardErrors?.categories?.[category]
+  );
 
   // Count question types
   let correctCount = 0;
   let partialCreditCount = 0;
   let incorrectCount = 0;
 
-  for (const result of questionResults) {
+  for (const result of scoredResults) {
     if (result.isCorrect) {
       correctCount++;
     } else if (result.isPartialCredit) {
@@ -88,7 +122,10 @@ export function scoreCategoryFromResults(
     correctCount,
     partialCreditCount,
     incorrectCount,
+    responseCounts: countResponseStatuses(questionResults),
     questions,
+    confidenceInterval,
+    tierCertainty: calculateTierCertainty(percentage, confidenceInterval, tierDefinitions),
   };
 }
 
@@ -96,14 +133,22 @@ export function scoreCategoryFromResults(
  * Score all categories from question results
  *
  * @param questionResults - All question results
+ * @param precision - Confidence interval options
+ * @param tierDefinitions - Tier definitions (default TIER_DEFINITIONS)
+ * @param performanceThresholds - Classification thresholds (default PERFORMANCE_THRESHOLDS)
  * @returns Array of CategoryResults
  */
-export function scoreCategories(questionResults: QuestionResult[]): CategoryResult[] {
+export function scoreCategories(
+  questionResults: QuestionResult[],
+  precision: ScorePrecisionOptions = {},
+  tierDefinitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS,
+  performanceThresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
+): CategoryResult[] {
   const categoryMap = groupByCategory(questionResults);
   const categoryResults: CategoryResult[] = [];
 
   for (const [category, results] of categoryMap.entries()) {
-    categoryResults.push(scoreCategoryFromResults(category, results));
+    categoryResults.push(scoreCategoryFromResults(category, results, precision, tierDefinitions, performanceThresholds));
   }
 
   // Sort by category name for consistent ordering
@@ -0,0 +1,184 @@
+/**
+ * Group Scorer
+ *
+ * This module handles question groups (questions sharing one stimulus):
+ * - Flattening groups into the question list without splitting them
+ * - Scoring each group's questions together
+ * - Aggregating group-level results
+ */
+
+import {
+  AssessmentInput,
+  AssessmentPresentation,
+  Question,
+  QuestionGroup,
+  QuestionGroupResult,
+  QuestionResult,
+  ScoringStrategySelection,
+  FormulaScoringOptions,
+  ResponsePolicy,
+  ResponseStatus,
+} from '../types/assessment.types';
+import { scoreQuestions, calculateTotalPoints, getQuestionStats } from './question-scorer';
+
+/**
+ * Get every question in an assessment
+ *
+ * Standalone questions come first, followed by each group's questions
+ * in order, so a group's questions are always delivered together.
+ */
+export function getAssessmentQuestions(input: AssessmentInput): Question[] {
+  return flattenQuestionGroups(input.questions, input.questionGroups);
+}
+
+/**
+ * Flatten question groups into a single question list
+ *
+ * @param questions - Standalone questions
+ * @param groups - Question groups
+ * @returns Standalone questions followed by each group's questions
+ */
+export function flattenQuestionGroups(
+  questions: Question[],
+  groups: QuestionGroup[] = []
+): Question[] {
+  return [
+    ...questions,
+    ...groups.flatMap(group => group.questions),
+  ];
+}
+
+/**
+ * Score all questions in a group together
+ *
+ * @param group - The question group being scored
+ * @param userAnswers - Map of question ID to selected answer indices
+ * @param timeSpent - Optional map of question ID to time spent
+ * @param presentation - Optional per-candidate presentation the answers refer to
+ * @param strategy - Scoring strategy for questions that do not set their own
+ * @param formulaScoring - Penalty for wrong answers (off if omitted)
+ * @param responseStatuses - Response status of each question (derived from the group if omitted)
+ * @param responsePolicy - How unanswered questions are scored (default: as incorrect)
+ * @returns QuestionResults tagged with the group ID
+ */
+export function scoreQuestionGroup(
+  group: QuestionGroup,
+  userAnswers: Record<string, number[]>,
+  timeSpent?: Record<string, number>,
+  presentation?: AssessmentPresentation,
+  strategy?: ScoringStrategySelection,
+  formulaScoring?: FormulaScoringOptions,
+  responseStatuses?: Record<string, ResponseStatus>,
+  responsePolicy?: ResponsePolicy
+): QuestionResult[] {
+  return scoreQuestions(
+    group.questions,
+    userAnswers,
+    timeSpent,
+    presentation,
+    strategy,
+    formulaScoring,
+    responseStatuses,
+    responsePolicy
+  ).map(result => ({
+    ...result,
+    groupId: group.id,
+  }));
+}
+
+/**
+ * Calculate group result from its question results
+ *
+ * @param groupId - Group ID
+ * @param questionResults - Results for questions in this group
+ * @returns QuestionGroupResult with scoring details
+ */
+export function scoreGroupFromResults(
+  groupId: string,
+  questionResults: QuestionResult[]
+): QuestionGroupResult {
+  const { earnedPoints, maxPoints, percentage } = calculateTotalPoints(questionResults);
+  const { correct, partial, incorrect } = getQuestionStats(questionResults);
+
+  return {
+    groupId,
+    categories: [...new Set(questionResults.map(r => r.category))],
+    earnedPoints,
+    maxPoints,
+    percentage,
+    questionCount: questionResults.length,
+    correctCount: correct,
+    partialCreditCount: partial,
+    incorrectCount: incorrect,
+    questions: questionResults.map(r => r.questionId),
+  };
+}
+
+/**
+ * Score all groups from question results
+ *
+ * @param questionResults - All question results (standalone results are ignored)
+ * @returns Array of QuestionGroupResults in the order groups first appear
+ */
+export function scoreGroups(questionResults: QuestionResult[]): QuestionGroupResult[] {
+  const groupMap = new Map<string, QuestionResult[]>();
+
+  for (const result of questionResults) {
+    if (!result.groupId) {
+      continue;
+    }
+    const existing = groupMap.get(result.groupId) || [];
+    existing.push(result);
+    groupMap.set(result.groupId, existing);
+  }
+
+  return [...groupMap.entries()].map(([groupId, results]) =>
+    scoreGroupFromResults(groupId, results)
+  );
+}
+
+/**
+ * Validate question groups
+ *
+ * @param questions - Standalone questions
+ * @param groups - Question groups
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateQuestionGroups(
+  questions: Question[],
+  groups: QuestionGroup[] = []
+): string[] {
+  const errors: string[] = [];
+  const groupIds = new Set<string>();
+  const questionIds = new Set((questions || []).map(q => q.id));
+
+  for (const group of groups) {
+    if (!group.id) {
+      errors.push('Question group must have an id');
+    } else if (groupIds.has(group.id)) {
+      errors.push(`Duplicate question group id: ${group.id}`);
+    }
+    groupIds.add(group.id);
+
+    if (!group.stimulus) {
+      errors.push(`Question group ${group.id} must have a stimulus`);
+    }
+
+    if (!group.questions || group.questions.length === 0) {
+      errors.push(`Question group ${group.id} must have at least one question`);
+      continue;
+    }
+
+    // A question can only be delivered in one place
+    for (const question of group.questions) {
+      if (questionIds.has(question.id)) {
+        errors.push(
+          `Question ${question.id} in group ${group.id} also appears elsewhere in the assessment`
+        );
+      }
+      questionIds.add(question.id);
+    }
+  }
+
+  return errors;
+}
@@ -3,7 +3,7 @@
  *
  * This module orchestrates the complete assessment scoring process:
  * 1. Score individual questions
- * 2. Aggregate by category
+ * 2. Aggregate by category and question group
  * 3. Calculate weighted overall score
  * 4. Generate complete assessment result
  */
@@ -13,16 +13,47 @@ import {
   AssessmentResult,
   OverallResult,
   CategoryResult,
+  Question,
   QuestionResult,
   ScoringOptions,
   AssessmentMetadata,
+  NormGroup,
+  PerformanceThresholds,
+  ScorePrecisionOptions,
+  TierDefinition,
+  TierLevel,
+  FormulaScoreSummary,
+  FormulaScoringMode,
 } from '../types/assessment.types';
 import { scoreQuestions, calculateTotalPoints } from './question-scorer';
 import {
   scoreCategories,
   calculateWeightedContributions,
 } from './category-scorer';
-import { getTierFromPercentage, getTierRank } from '../constants/tiers';
+import {
+  getAssessmentQuestions,
+  scoreQuestionGroup,
+  scoreGroups,
+  validateQuestionGroups,
+} from './group-scorer';
+import {
+  DEFAULT_RESPONSE_POLICY,
+  countResponseStatuses,
+  determineResponseStatuses,
+} from './response-status';
+import { addAbilityEstimates } from './ability-scorer';
+import { addScaledScores } from './scaled-scorer';
+import {
+  PERFORMANCE_THRESHOLDS,
+  TIER_DEFINITIONS,
+  getTierFromPercentage,
+  getTierRank,
+} from '../constants/tiers';
+import {
+  DEFAULT_CONFIDENCE_LEVEL,
+  calculateConfidenceInterval,
+  calculateTierCertainty,
+} from './score-precision';
 
 /**
  * Calculate overall score from category results
@@ -57,16 +88,60 @@ export function calculateOverallScore(categoryResults: CategoryResult[]): number
 }
 
 /**
- * Calculate overall result including tier and rank
+ * Calculate the expected overall score for given chances of answering each question
+ *
+ * Mirrors calculateOverallScore: expected category percentages
+ * (Σ Score × P / Σ Score) weighted by each category's total question weight.
+ * Used for IRT true scores and judged (Angoff) cut scores.
+ *
+ * @param questions - Questions on the assessment
+ * @param getProbability - Expected proportion of each question's points earned (0-1)
+ * @returns Expected overall score percentage (0-100)
+ */
+export function calculateExpectedOverallScore(
+  questions: Question[],
+  getProbability: (question: Question) => number
+): number {
+  const categories = new Map<string, { expected: number; max: number; weight: number }>();
+  for (const question of questions) {
+    const totals = categories.get(question.category) || { expected: 0, max: 0, weight: 0 };
+    totals.expected += question.score * getProbability(question);
+    totals.max += question.score;
+    totals.weight += question.weight;
+    categories.set(question.category, totals);
+  }
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const totals of categories.values()) {
+    const percentage = totals.max > 0 ? (totals.expected / totals.max) * 100 : 0;
+    weightedSum += percentage * totals.weight;
+    totalWeight += totals.weight;
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+}
+
+/**
+ * Calculate overall result including tier, rank and confidence interval
  */
 export function calculateOverallResult(
   categoryResults: CategoryResult[],
-  questionResults: QuestionResult[]
+  questionResults: QuestionResult[],
+  precision: ScorePrecisionOptions = {},
+  tierDefinitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
 ): OverallResult {
   const { earnedPoints, maxPoints } = calculateTotalPoints(questionResults);
   const score = calculateOverallScore(categoryResults);
-  const tier = getTierFromPercentage(score);
-  const rank = getTierRank(tier);
+  const tier = getTierFromPercentage(score, tierDefinitions);
+  const rank = getTierRank(tier, tierDefinitions);
+  // Questions left out by the response policy do not count towards the score
+  const scoredCount = questionResults.filter(result => !result.excluded).length;
+  const confidenceInterval = calculateConfidenceInterval(
+    score,
+    scoredCount,
+    precision.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL,
+    precision.standardErrors?.overall
+  );
 
   return {
     score,
@@ -75,6 +150,40 @@ export function calculateOverallResult(
     percentage: score,
     tier,
     rank,
+    confidenceInterval,
+    tierCertainty: calculateTierCertainty(score, confidenceInterval, tierDefinitions),
+  };
+}
+
+/**
+ * Summarize raw and formula-corrected overall scores
+ *
+ * The raw percentage is aggregated like the reported one, from the points
+ * each question earned before penalties.
+ *
+ * @param questionResults - Formula-scored question results
+ * @param overall - Overall result from the corrected points
+ * @param mode - Penalty rule applied
+ * @returns Raw and corrected scores with wrong and omitted counts
+ */
+export function calculateFormulaScoreSummary(
+  questionResults: QuestionResult[],
+  overall: OverallResult,
+  mode: FormulaScoringMode
+): FormulaScoreSummary {
+  const rawResults = questionResults.map(result =>
+    result.formulaScore ? { ...result, earnedPoints: result.formulaScore.rawPoints } : result
+  );
+  const formulaScored = questionResults.filter(result => result.formulaScore);
+
+  return {
+    mode,
+    rawPercentage: calculateOverallScore(scoreCategories(rawResults)),
+    correctedPercentage: overall.percentage,
+    rawPoints: calculateTotalPoints(rawResults).earnedPoints,
+    correctedPoints: overall.earnedPoints,
+    wrongCount: formulaScored.filter(result => !result.formulaScore!.omitted && !result.isCorrect).length,
+    omittedCount: formulaScored.filter(result => result.formulaScore!.omitted).length,
   };
 }
 
@@ -95,30 +204,99 @@ export async function scoreAssessment(
     includeAnalysis = true,
     includeRecommendations = true,
     version = '1.0',
+    abilityEstimation = 'EAP',
+    abilityPrior,
+    precision = {},
+    norms,
+    scale,
+    tierDefinitions = TIER_DEFINITIONS,
+    performanceThresholds = PERFORMANCE_THRESHOLDS,
+    scoringStrategy,
+    formulaScoring,
+    responsePolicy,
   } = options;
 
-  // Step 1: Score individual questions
-  const questionResults = scoreQuestions(
-    input.questions,
+  // Step 0: Tell omitted, not-reached and timed-out questions apart
+  const responseStatuses = determineResponseStatuses(
+    getAssessmentQuestions(input),
     input.userAnswers,
-    input.timeSpent
+    input.presentation,
+    input.responseStatuses
   );
 
-  // Step 2: Aggregate by category
-  let categoryResults = scoreCategories(questionResults);
+  // Step 1: Score individual questions (each question group is scored together)
+  // (answers given against a shuffled presentation are mapped back to canonical indices)
+  const questionResults = [
+    ...scoreQuestions(
+      input.questions,
+      input.userAnswers,
+      input.timeSpent,
+      input.presentation,
+      scoringStrategy,
+      formulaScoring,
+      responseStatuses,
+      responsePolicy
+    ),
+    ...(input.questionGroups || []).flatMap(group =>
+      scoreQuestionGroup(
+        group,
+        input.userAnswers,
+        input.timeSpent,
+        input.presentation,
+        scoringStrategy,
+        formulaScoring,
+        responseStatuses,
+        responsePolicy
+      )
+    ),
+  ];
+
+  // Step 2: Aggregate by category (and by question group, if any)
+  const groups = input.questionGroups ? scoreGroups(questionResults) : undefined;
+  let categoryResults = scoreCategories(
+    questionResults,
+    precision,
+    tierDefinitions,
+    performanceThresholds
+  );
 
   // Step 3: Calculate weighted contributions
   categoryResults = calculateWeightedContributions(categoryResults);
 
   // Step 4: Calculate overall score
-  const overall = calculateOverallResult(categoryResults, questionResults);
+  let overall = calculateOverallResult(categoryResults, questionResults, precision, tierDefinitions);
+
+  // Step 4a: Report the score before penalties alongside the formula score
+  if (formulaScoring) {
+    overall = {
+      ...overall,
+      formulaScore: calculateFormulaScoreSummary(questionResults, overall, formulaScoring.mode),
+    };
+  }
+
+  // Step 4b: Estimate IRT ability alongside percentages (questions with IRT parameters only)
+  if (abilityEstimation !== 'none') {
+    ({ overall, categories: categoryResults } = addAbilityEstimates(
+      overall,
+      categoryResults,
+      questionResults,
+      getAssessmentQuestions(input),
+      abilityEstimation,
+      abilityPrior
+    ));
+  }
+
+  // Step 4c: Convert to the reporting scale, if one is supplied
+  if (scale) {
+    ({ overall, categories: categoryResults } = addScaledScores(overall, categoryResults, scale, tierDefinitions));
+  }
 
   // Step 5: Calculate metadata
   const metadata = calculateMetadata(input, questionResults, version);
 
   // Step 6: Initialize analysis (placeholder for now)
   const analysis = includeAnalysis
-    ? await generateAnalysis(categoryResults, overall)
+    ? await generateAnalysis(categoryResults, overall, norms, performanceThresholds)
     : createEmptyAnalysis();
 
   // Step 7: Initialize recommendations (placeholder for now)
@@ -134,6 +312,7 @@ export async function scoreAssessment(
     overall,
     categories: categoryResults,
     questions: questionResults,
+    groups,
     analysis,
     recommendations,
     metadata,
@@ -150,8 +329,8 @@ function calculateMetadata(
   questionResults: QuestionResult[],
   version: string
 ): AssessmentMetadata {
-  const totalQuestions = input.questions.length;
-  const questionsAnswered = Object.keys(input.userAnswers).length;
+  const totalQuestions = getAssessmentQuestions(input).length;
+  const responseCounts = countResponseStatuses(questionResults);
 
   // Calculate total time spent
   let timeSpent = 0;
@@ -159,12 +338,20 @@ function calculateMetadata(
     timeSpent = Object.values(input.timeSpent).reduce((sum, time) => sum + time, 0);
   }
 
-  return {
+  const metadata: AssessmentMetadata = {
     totalQuestions,
-    questionsAnswered,
+    questionsAnswered: responseCounts.answered,
+    responseCounts,
     timeSpent,
     version,
   };
+
+  if (input.formId) {
+    metadata.formId = input.formId;
+    metadata.formVersion = input.formVersion;
+  }
+
+  return metadata;
 }
 
 /**
@@ -173,12 +360,14 @@ function calculateMetadata(
  */
 async function generateAnalysis(
   categoryResults: CategoryResult[],
-  overall: OverallResult
+  overall: OverallResult,
+  norms?: NormGroup,
+  performanceThresholds?: PerformanceThresholds
 ): Promise<any> {
   // Import analyzer dynamically to avoid circular dependencies
   try {
     const { analyzePerformance } = await import('../analysis/performance-analyzer');
-    return analyzePerformance(categoryResults, overall);
+    return analyzePerformance(categoryResults, overall, norms, performanceThresholds);
   } catch (error) {
     // Fallback to empty analysis if analyzer not yet implemented
     return createEmptyAnalysis();
@@ -242,11 +431,12 @@ function createEmptyRecommendations(): any {
  * Useful for preview or quick checks
  */
 export function quickScore(
-  categoryResults: CategoryResult[]
+  categoryResults: CategoryResult[],
+  tierDefinitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
 ): { overallScore: number; tier: number; rank: string } {
   const overallScore = calculateOverallScore(categoryResults);
-  const tier = getTierFromPercentage(overallScore);
-  const rank = getTierRank(tier);
+  const tier = getTierFromPercentage(overallScore, tierDefinitions);
+  const rank = getTierRank(tier, tierDefinitions);
 
   return { overallScore, tier, rank };
 }
@@ -268,7 +458,9 @@ export function validateAssessmentInput(input: AssessmentInput): {
     errors.push('User ID is required');
   }
 
-  if (!input.questions || input.questions.length === 0) {
+  const questions = input.questions ? getAssessmentQuestions(input) : [];
+
+  if (questions.length === 0) {
     errors.push('At least one question is required');
   }
 
@@ -276,16 +468,29 @@ export function validateAssessmentInput(input: AssessmentInput): {
     errors.push('User answers are required');
   }
 
-  // Check for missing answers
+  // Check question groups
+  errors.push(...validateQuestionGroups(input.questions, input.questionGroups));
+
+  // Check for missing answers (questions with a recorded response status may be unanswered)
   if (input.questions && input.userAnswers) {
-    const questionIds = new Set(input.questions.map(q => q.id));
+    const questionIds = new Set(questions.map(q => q.id));
     const answeredIds = new Set(Object.keys(input.userAnswers));
+    const recorded = input.responseStatuses || {};
 
     for (const questionId of questionIds) {
-      if (!answeredIds.has(questionId)) {
+      if (!answeredIds.has(questionId) && !recorded[questionId]) {
         errors.push(`Missing answer for question: ${questionId}`);
       }
     }
+
+    for (const [questionId, status] of Object.entries(recorded)) {
+      if (!questionIds.has(questionId)) {
+        errors.push(`Response status recorded for unknown question: ${questionId}`);
+      }
+      if (!(status in DEFAULT_RESPONSE_POLICY)) {
+        errors.push(`Invalid response status for question ${questionId}: ${status}`);
+      }
+    }
   }
 
   return {
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { FormulaScoringOptions, Question } from '../types/assessment.types';
+import { scoreQuestions, validateFormulaScoringOptions } from './question-scorer';
+
+const choice: Question = {
+  id: 'q-1',
+  text: 'Pick A',
+  type: 'multipleChoice',
+  category: 'Logical Reasoning',
+  answers: [
+    { id: 0, text: 'A' },
+    { id: 1, text: 'B' },
+    { id: 2, text: 'C' },
+    { id: 3, text: 'D' },
+  ],
+  correctAnswers: [0],
+  score: 10,
+  weight: 1,
+};
+
+function scoreWithFormula(answer: number[], formulaScoring: FormulaScoringOptions) {
+  return scoreQuestions([choice], { 'q-1': answer }, undefined, undefined, undefined, formulaScoring)[0];
+}
+
+test('formula scoring deducts the penalty from wrong answers only', () => {
+  assert.ok(Math.abs(scoreWithFormula([1], { mode: 'guessingCorrection' }).earnedPoints + 10 / 3) < 1e-12);
+  assert.equal(scoreWithFormula([1], { mode: 'negativeMarking' }).earnedPoints, -2.5);
+  assert.equal(scoreWithFormula([0], { mode: 'negativeMarking' }).earnedPoints, 10);
+  assert.equal(scoreWithFormula([], { mode: 'guessingCorrection' }).earnedPoints, 0);
+});
+
+test('invalid formula scoring options are rejected whatever the answer', () => {
+  for (const answer of [[0], [1], []]) {
+    assert.throws(() => scoreWithFormula(answer, { mode: 'negativeMarking', penalty: -0.25 }), /penalty/);
+  }
+  assert.throws(() => scoreWithFormula([0], { mode: 'bogus' } as never), /Unknown formula scoring mode/);
+  assert.deepEqual(validateFormulaScoringOptions({ mode: 'negativeMarking', penalty: 0 }), []);
+});
+
+const grid: Question = {
+  id: 'grid-1',
+  text: 'Leave the grid as it is',
+  type: 'grid',
+  category: 'Spatial & Visual Reasoning',
+  answers: [],
+  grid: { rows: 2, columns: 2, symbols: ['X', 'O'], cells: [0, 1, -1, -1], answerMode: 'state' },
+  correctAnswers: [0, 1, -1, -1],
+  score: 10,
+  weight: 1,
+};
+
+test('an untouched grid is omitted and earns nothing, even when the key is the starting grid', () => {
+  for (const answer of [[], [0, 1, -1, -1]]) {
+    const [result] = scoreQuestions([grid, choice], { 'grid-1': answer, 'q-1': [0] });
+    assert.equal(result.responseStatus, 'omitted');
+    assert.equal(result.earnedPoints, 0);
+    assert.equal(result.isCorrect, false);
+  }
+  const [changed] = scoreQuestions([grid], { 'grid-1': [0, 1, 0, -1] });
+  assert.equal(changed.responseStatus, 'answered');
+  assert.equal(changed.earnedPoints, 0);
+});
@@ -5,13 +5,66 @@
  * - Multiple choice (all-or-nothing)
  * - True/false (all-or-nothing)
  * - Multiple select (partial credit with penalty for wrong selections)
+ * - Ordering (partial credit based on relative order of items)
+ * - Numeric entry (all-or-nothing with exact or tolerance matching)
+ * - Matching (per-pair partial credit)
+ * - Grid (cell-by-cell partial credit)
+ *
+ * A registered scoring strategy can replace the built-in algorithm for a
+ * question or question type (see scoring-strategies.ts).
+ *
+ * Every result records whether the question was answered, omitted, not
+ * reached or timed out; the response policy decides whether unanswered
+ * questions score 0 or are left out (see response-status.ts).
+ *
+ * Optional formula scoring penalizes wrong multiple choice and true/false
+ * answers (omitted answers are never penalized):
+ * - Guessing correction: Corrected = Raw - Max Points / (Answer Options - 1)
+ * - Negative marking: Corrected = Raw - Max Points × Penalty
  */
 
 import {
   Question,
   QuestionResult,
   PartialCreditDetails,
+  OrderingCreditDetails,
+  MatchingCreditDetails,
+  MatchedPair,
+  GridCreditDetails,
+  GridCellResult,
+  AssessmentPresentation,
+  ScoringStrategySelection,
+  FormulaScoringOptions,
+  QuestionType,
+  ResponsePolicy,
+  ResponseStatus,
 } from '../types/assessment.types';
+import { StrategyScore } from '../types/scoring-strategy.types';
+import { findQuestionPresentation, toCanonicalAnswers } from '../delivery/randomizer';
+import {
+  DEFAULT_SCORING_STRATEGY,
+  listScoringStrategies,
+  resolveScoringStrategy,
+  supportsQuestionType,
+} from './scoring-strategies';
+import {
+  UNMATCHED_RESPONSE,
+  applyResponsePolicy,
+  determineResponseStatuses,
+  hasResponse,
+} from './response-status';
+
+export { UNMATCHED_RESPONSE };
+
+/**
+ * Question types formula scoring applies to (a blind guess can earn full credit)
+ */
+export const FORMULA_SCORED_TYPES: QuestionType[] = ['multipleChoice', 'trueFalse'];
+
+/**
+ * Default share of a question's points deducted per wrong answer under negative marking
+ */
+export const DEFAULT_NEGATIVE_MARKING_PENALTY = 0.25;
 
 /**
  * Score a single question based on user's answer
@@ -19,60 +72,140 @@ import {
  * @param question - The question being scored
  * @param userAnswers - Array of indices selected by the user
  * @param timeSpent - Optional time spent on question in seconds
+ * @param strategy - Scoring strategy for questions that do not set their own
+ * @param formulaScoring - Penalty for wrong answers (off if omitted)
  * @returns QuestionResult with scoring details
  */
 export function scoreQuestion(
   question: Question,
   userAnswers: number[],
-  timeSpent?: number
+  timeSpent?: number,
+  strategy?: ScoringStrategySelection,
+  formulaScoring?: FormulaScoringOptions
 ): QuestionResult {
   // Validate inputs
   validateQuestionInput(question, userAnswers);
 
-  // Score based on question type
-  let earnedPoints: number;
-  let isCorrect: boolean;
-  let isPartialCredit: boolean;
-  let partialCreditDetails: PartialCreditDetails | undefined;
-
-  switch (question.type) {
-    case 'multipleChoice':
-    case 'trueFalse':
-      ({ earnedPoints, isCorrect } = scoreStandardQuestion(question, userAnswers));
-      isPartialCredit = false;
-      break;
-
-    case 'multipleSelect':
-      ({
-        earnedPoints,
-        isCorrect,
-        partialCreditDetails,
-      } = scoreMultipleSelectQuestion(question, userAnswers));
-      isPartialCredit = earnedPoints > 0 && earnedPoints < question.score;
-      break;
-
-    default:
-      throw new Error(`Unknown question type: ${(question as any).type}`);
-  }
+  // Score with the question type's algorithm, then apply the selected strategy
+  const scoringStrategy = resolveScoringStrategy(question, strategy);
+  const defaultScore = scoreByQuestionType(question, userAnswers);
+  const { earnedPoints, isCorrect, partialCreditDetails, maxPoints = question.score } =
+    scoringStrategy.score(question, userAnswers, defaultScore);
 
   // Calculate percentage
-  const percentage = question.score > 0 ? (earnedPoints / question.score) * 100 : 0;
+  const percentage = maxPoints > 0 ? (earnedPoints / maxPoints) * 100 : 0;
 
-  return {
+  const result: QuestionResult = {
     questionId: question.id,
     category: question.category,
     type: question.type,
     userAnswers,
     correctAnswers: question.correctAnswers,
     earnedPoints,
-    maxPoints: question.score,
+    maxPoints,
     percentage,
     isCorrect,
-    isPartialCredit,
+    isPartialCredit: earnedPoints > 0 && earnedPoints < maxPoints,
     partialCreditDetails,
     weight: question.weight,
     timeSpent,
+    responseStatus: hasResponse(question, userAnswers) ? 'answered' : 'omitted',
   };
+  if (scoringStrategy.name !== DEFAULT_SCORING_STRATEGY) {
+    result.scoringStrategy = scoringStrategy.name;
+  }
+  return formulaScoring ? applyFormulaScoring(result, question, formulaScoring) : result;
+}
+
+/**
+ * Apply formula scoring to a question result
+ *
+ * Only multiple choice and true/false results are changed. A wrong answer
+ * loses the penalty (so earnedPoints can go below zero); a correct or omitted
+ * answer keeps its points.
+ *
+ * @param result - Result scored without penalties
+ * @param question - The question that was scored
+ * @param options - Penalty rule (checked by validateFormulaScoringOptions)
+ * @returns Result with corrected earnedPoints and `formulaScore` set
+ */
+export function applyFormulaScoring(
+  result: QuestionResult,
+  question: Question,
+  options: FormulaScoringOptions
+): QuestionResult {
+  if (!FORMULA_SCORED_TYPES.includes(question.type)) {
+    return result;
+  }
+
+  const omitted = result.responseStatus !== 'answered';
+  const wrong = !omitted && !result.isCorrect;
+  let penaltyPoints = 0;
+  if (wrong) {
+    penaltyPoints = options.mode === 'guessingCorrection'
+      ? result.maxPoints / (question.answers.length - 1)
+      : result.maxPoints * (options.penalty ?? DEFAULT_NEGATIVE_MARKING_PENALTY);
+  }
+
+  const correctedPoints = result.earnedPoints - penaltyPoints;
+  return {
+    ...result,
+    earnedPoints: correctedPoints,
+    percentage: result.maxPoints > 0 ? (correctedPoints / result.maxPoints) * 100 : 0,
+    formulaScore: {
+      mode: options.mode,
+      rawPoints: result.earnedPoints,
+      correctedPoints,
+      penaltyPoints,
+      omitted,
+    },
+  };
+}
+
+/**
+ * Check formula scoring options
+ *
+ * @param options - Penalty rule
+ * @returns Error messages (empty if the options are valid)
+ */
+export function validateFormulaScoringOptions(options: FormulaScoringOptions): string[] {
+  const errors: string[] = [];
+  if (options.mode !== 'guessingCorrection' && options.mode !== 'negativeMarking') {
+    errors.push(`Unknown formula scoring mode: ${(options as any).mode}`);
+  }
+  if (options.penalty !== undefined && !(Number.isFinite(options.penalty) && options.penalty >= 0)) {
+    errors.push(`Negative marking penalty must be a number of at least 0, got ${options.penalty}`);
+  }
+  return errors;
+}
+
+/**
+ * Score a question with the built-in algorithm for its type
+ */
+function scoreByQuestionType(question: Question, userAnswers: number[]): StrategyScore {
+  switch (question.type) {
+    case 'multipleChoice':
+    case 'trueFalse':
+      return scoreStandardQuestion(question, userAnswers);
+
+    case 'multipleSelect':
+      return scoreMultipleSelectQuestion(question, userAnswers);
+
+    case 'ordering':
+      return scoreOrderingQuestion(question, userAnswers);
+
+    case 'numericEntry':
+      return scoreNumericEntryQuestion(question, userAnswers);
+
+    case 'matching':
+      return scoreMatchingQuestion(question, userAnswers);
+
+    case 'grid':
+      return scoreGridQuestion(question, userAnswers);
+
+    default:
+      throw new Error(`Unknown question type: ${(question as any).type}`);
+  }
 }
 
 /**
@@ -170,75 +303,498 @@ function scoreMultipleSelectQuestion(
   };
 }
 
+/**
+ * Score an ordering question with partial credit
+ *
+ * The user's answer is the submitted sequence of answer indices and
+ * correctAnswers holds the correct sequence. Credit depends on the
+ * question's orderingCredit method:
+ * - kendallTau: Concordant Pairs / Total Pairs
+ * - longestCorrectSubsequence: Longest Correct Subsequence / Sequence Length
+ * - allOrNothing: 1.0 for the exact sequence, otherwise 0.0
+ *
+ * Examples (for a 4-step question with correct sequence [0, 1, 2, 3], score = 12):
+ * - Submit [0, 1, 2, 3]: kendallTau 12 × 6/6 = 12.0, subsequence 12 × 4/4 = 12.0
+ * - Submit [1, 0, 2, 3]: kendallTau 12 × 5/6 = 10.0, subsequence 12 × 3/4 = 9.0
+ * - Submit [3, 2, 1, 0]: kendallTau 12 × 0/6 = 0.0,  subsequence 12 × 1/4 = 3.0
+ */
+function scoreOrderingQuestion(
+  question: Question,
+  userAnswers: number[]
+): {
+  earnedPoints: number;
+  isCorrect: boolean;
+  partialCreditDetails: OrderingCreditDetails;
+} {
+  const method = question.orderingCredit || 'kendallTau';
+  const correctSequence = question.correctAnswers;
+  const totalPositions = correctSequence.length;
+
+  // Position of each item in the user's sequence
+  const userPositions = new Map<number, number>();
+  userAnswers.forEach((answer, position) => userPositions.set(answer, position));
+
+  // Check which positions hold the correct item
+  const positionResults = correctSequence.map(
+    (answer, position) => userAnswers[position] === answer
+  );
+  const correctPositions = positionResults.filter(Boolean).length;
+
+  // Count item pairs placed in correct/incorrect relative order
+  // (pairs involving an item the user did not place count as neither)
+  let concordantPairs = 0;
+  let discordantPairs = 0;
+
+  for (let i = 0; i < totalPositions; i++) {
+    for (let j = i + 1; j < totalPositions; j++) {
+      const first = userPositions.get(correctSequence[i]);
+      const second = userPositions.get(correctSequence[j]);
+      if (first === undefined || second === undefined) {
+        continue;
+      }
+      if (first < second) {
+        concordantPairs++;
+      } else {
+        discordantPairs++;
+      }
+    }
+  }
+
+  const longestCorrectSubsequence = calculateLongestCorrectSubsequence(
+    correctSequence,
+    userAnswers
+  );
+
+  const isCorrect =
+    userAnswers.length === totalPositions && correctPositions === totalPositions;
+
+  // Calculate credit ratio for the selected method
+  const totalPairs = (totalPositions * (totalPositions - 1)) / 2;
+  let creditRatio: number;
+
+  switch (method) {
+    case 'kendallTau':
+      creditRatio = totalPairs > 0 ? concordantPairs / totalPairs : (isCorrect ? 1 : 0);
+      break;
+    case 'longestCorrectSubsequence':
+      creditRatio = totalPositions > 0 ? longestCorrectSubsequence / totalPositions : 0;
+      break;
+    case 'allOrNothing':
+      creditRatio = isCorrect ? 1 : 0;
+      break;
+    default:
+      throw new Error(`Unknown ordering credit method: ${method}`);
+  }
+
+  const earnedPoints = question.score * creditRatio;
+
+  return {
+    earnedPoints,
+    isCorrect,
+    partialCreditDetails: {
+      method,
+      positionResults,
+      correctPositions,
+      totalPositions,
+      concordantPairs,
+      discordantPairs,
+      longestCorrectSubsequence,
+      creditRatio,
+    },
+  };
+}
+
+/**
+ * Find the length of the longest subsequence of the user's sequence
+ * whose items appear in the same relative order as the correct sequence
+ */
+function calculateLongestCorrectSubsequence(
+  correctSequence: number[],
+  userAnswers: number[]
+): number {
+  const correctPositions = new Map<number, number>();
+  correctSequence.forEach((answer, position) => correctPositions.set(answer, position));
+
+  // Longest increasing subsequence over the correct positions of the user's items
+  const ranks = userAnswers
+    .map(answer => correctPositions.get(answer))
+    .filter((rank): rank is number => rank !== undefined);
+
+  const tails: number[] = [];
+  for (const rank of ranks) {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (tails[mid] < rank) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    tails[low] = rank;
+  }
+
+  return tails.length;
+}
+
+/**
+ * Score a numeric entry question
+ * All-or-nothing scoring against any of the accepted values
+ *
+ * Matching (numericAnswer.match):
+ * - exact: response equals the correct value
+ * - absolute: |response - correct| <= tolerance
+ * - relative: |response - correct| <= tolerance × |correct|
+ */
+function scoreNumericEntryQuestion(
+  question: Question,
+  userAnswers: number[]
+): { earnedPoints: number; isCorrect: boolean } {
+  const response = userAnswers[0];
+
+  const isCorrect =
+    userAnswers.length === 1 &&
+    question.correctAnswers.some(correct => isNumericMatch(question, response, correct));
+
+  const earnedPoints = isCorrect ? question.score : 0;
+
+  return { earnedPoints, isCorrect };
+}
+
+/**
+ * Check whether a numeric response matches a correct value
+ */
+function isNumericMatch(question: Question, response: number, correct: number): boolean {
+  const { match = 'exact', tolerance = 0 } = question.numericAnswer || {};
+  const difference = Math.abs(response - correct);
+
+  switch (match) {
+    case 'exact':
+      // Allow for floating point error (e.g. 0.1 + 0.2)
+      return difference <= Number.EPSILON * Math.max(1, Math.abs(correct)) * 4;
+    case 'absolute':
+      return difference <= tolerance;
+    case 'relative':
+      return difference <= tolerance * Math.abs(correct);
+    default:
+      throw new Error(`Unknown numeric match mode: ${match}`);
+  }
+}
+
+/**
+ * Score a matching question with per-pair partial credit
+ *
+ * userAnswers[i] is the response chosen for premise i (UNMATCHED_RESPONSE or
+ * a missing entry leaves the premise unmatched). Responses that appear in no
+ * correct pair are distractors and can only ever earn zero.
+ *
+ * Formula:
+ * - Final Score = Base Score × Correct Pairs / Total Premises
+ *
+ * Example (4 premises, score = 12): 3 correct pairs = 12 × 3/4 = 9.0
+ */
+function scoreMatchingQuestion(
+  question: Question,
+  userAnswers: number[]
+): {
+  earnedPoints: number;
+  isCorrect: boolean;
+  partialCreditDetails: MatchingCreditDetails;
+} {
+  const pairs: MatchedPair[] = question.correctAnswers.map((correctResponse, premise) => {
+    const chosen = userAnswers[premise];
+    const response = chosen === undefined || chosen === UNMATCHED_RESPONSE ? null : chosen;
+
+    return {
+      premise,
+      response,
+      correctResponse,
+      isCorrect: response === correctResponse,
+    };
+  });
+
+  const totalPairs = pairs.length;
+  const correctPairs = pairs.filter(pair => pair.isCorrect).length;
+  const creditRatio = totalPairs > 0 ? correctPairs / totalPairs : 0;
+  const earnedPoints = question.score * creditRatio;
+
+  return {
+    earnedPoints,
+    isCorrect: totalPairs > 0 && correctPairs === totalPairs,
+    partialCreditDetails: {
+      pairs,
+      correctPairs,
+      totalPairs,
+      creditRatio,
+    },
+  };
+}
+
+/**
+ * Score a grid question cell by cell
+ *
+ * State mode (userAnswers is a symbol index per cell, -1 = empty):
+ * - Scored cells = cells the key changes from the starting grid,
+ *   plus any other cell the user changed
+ *
+ * Cells mode (userAnswers is a set of selected cell indices):
+ * - Scored cells = cells in the key or selected by the user
+ *
+ * An untouched grid (no answer, or the starting grid unchanged) is omitted
+ * and earns 0 points, even when the key is the starting grid.
+ *
+ * Formula:
+ * - Final Score = Base Score × Correct Scored Cells / Scored Cells
+ *
+ * Example (key changes 2 cells, score = 10): user sets 1 of them correctly
+ * and also changes 1 other cell = 10 × 1/3 ≈ 3.33
+ */
+function scoreGridQuestion(
+  question: Question,
+  userAnswers: number[]
+): {
+  earnedPoints: number;
+  isCorrect: boolean;
+  partialCreditDetails: GridCreditDetails;
+} {
+  const grid = question.grid!;
+  const cellCount = grid.rows * grid.columns;
+  const cellResults: GridCellResult[] = [];
+
+  const addCellResult = (cell: number, expected: number, actual: number) => {
+    cellResults.push({
+      cell,
+      row: Math.floor(cell / grid.columns),
+      column: cell % grid.columns,
+      expected,
+      actual,
+      isCorrect: expected === actual,
+    });
+  };
+
+  if (!hasResponse(question, userAnswers)) {
+    return {
+      earnedPoints: 0,
+      isCorrect: false,
+      partialCreditDetails: {
+        answerMode: grid.answerMode,
+        cellResults,
+        correctCells: 0,
+        scoredCells: 0,
+        creditRatio: 0,
+      },
+    };
+  }
+
+  if (grid.answerMode === 'state') {
+    for (let cell = 0; cell < cellCount; cell++) {
+      const expected = question.correctAnswers[cell];
+      const actual = userAnswers[cell];
+      if (expected !== grid.cells[cell] || actual !== grid.cells[cell]) {
+        addCellResult(cell, expected, actual);
+      }
+    }
+  } else {
+    const expectedCells = new Set(question.correctAnswers);
+    const selectedCells = new Set(userAnswers);
+    const scored = [...new Set([...expectedCells, ...selectedCells])].sort((a, b) => a - b);
+
+    for (const cell of scored) {
+      addCellResult(cell, expectedCells.has(cell) ? 1 : 0, selectedCells.has(cell) ? 1 : 0);
+    }
+  }
+
+  const scoredCells = cellResults.length;
+  const correctCells = cellResults.filter(result => result.isCorrect).length;
+
+  const creditRatio = scoredCells > 0 ? correctCells / scoredCells : 0;
+  const earnedPoints = question.score * creditRatio;
+
+  return {
+    earnedPoints,
+    isCorrect: correctCells === scoredCells,
+    partialCreditDetails: {
+      answerMode: grid.answerMode,
+      cellResults,
+      correctCells,
+      scoredCells,
+      creditRatio,
+    },
+  };
+}
+
+/**
+ * Result of parsing a written numeric response
+ */
+export interface NumericParseResult {
+  /** Parsed value, or null if the response could not be accepted */
+  value: number | null;
+  /** Written form the response was given in */
+  form?: 'decimal' | 'fraction' | 'percentage';
+  /** Reason the response was rejected */
+  error?: string;
+}
+
+/**
+ * Parse a written response to a numeric entry question
+ *
+ * Applies the question's unit rules, then accepts decimals ("0.75", "-2", "1e3")
+ * and any equivalent forms listed in numericAnswer.acceptedForms:
+ * - fraction: "3/4", "-1/2", "1 1/2"
+ * - percentage: "75%" (parsed as 0.75)
+ *
+ * The parsed value is what should be passed to scoreQuestion as [value].
+ *
+ * @param question - The numeric entry question being answered
+ * @param rawResponse - Response exactly as the user typed it
+ * @returns Parsed value or the reason it was rejected
+ */
+export function parseNumericResponse(
+  question: Question,
+  rawResponse: string
+): NumericParseResult {
+  const { acceptedForms = [], unit, unitRequired = false } = question.numericAnswer || {};
+  let text = rawResponse.trim();
+
+  // Apply unit rules
+  if (unit) {
+    if (text.toLowerCase().endsWith(unit.toLowerCase())) {
+      text = text.slice(0, text.length - unit.length).trim();
+    } else if (unitRequired) {
+      return { value: null, error: `Response must include the unit "${unit}"` };
+    }
+  }
+
+  if (text.length === 0) {
+    return { value: null, error: 'Response is empty' };
+  }
+
+  // Decimal (always accepted)
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+    return { value: Number(text), form: 'decimal' };
+  }
+
+  // Percentage
+  const percentageMatch = text.match(/^([-+]?(?:\d+\.?\d*|\.\d+))\s*%$/);
+  if (percentageMatch) {
+    if (!acceptedForms.includes('percentage')) {
+      return { value: null, error: 'Percentages are not accepted for this question' };
+    }
+    return { value: Number(percentageMatch[1]) / 100, form: 'percentage' };
+  }
+
+  // Fraction or mixed number
+  const fractionMatch = text.match(/^([-+]?)(?:(\d+)\s+)?(\d+)\s*\/\s*(\d+)$/);
+  if (fractionMatch) {
+    if (!acceptedForms.includes('fraction')) {
+      return { value: null, error: 'Fractions are not accepted for this question' };
+    }
+    const [, sign, whole, numerator, denominator] = fractionMatch;
+    if (Number(denominator) === 0) {
+      return { value: null, error: 'Fraction denominator cannot be zero' };
+    }
+    const magnitude = Number(whole || 0) + Number(numerator) / Number(denominator);
+    return { value: sign === '-' ? -magnitude : magnitude, form: 'fraction' };
+  }
+
+  return { value: null, error: `"${rawResponse}" is not a valid number` };
+}
+
 /**
  * Validate question input
+ *
+ * Throws on the first problem found (see getQuestionValidationErrors).
  */
 function validateQuestionInput(question: Question, userAnswers: number[]): void {
+  const errors = getQuestionValidationErrors(question, userAnswers);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+}
+
+/**
+ * Collect every validation problem with a question and (optionally) a user answer
+ *
+ * @param question - The question to validate
+ * @param userAnswers - User answer to validate against the question (default none)
+ * @returns Array of error messages (empty if valid)
+ */
+export function getQuestionValidationErrors(
+  question: Question,
+  userAnswers: number[] = []
+): string[] {
+  const errors: string[] = [];
+
   // Validate question has required fields
   if (!question.id) {
-    throw new Error('Question must have an id');
+    errors.push('Question must have an id');
   }
 
   if (!question.type) {
-    throw new Error('Question must have a type');
+    errors.push('Question must have a type');
   }
 
   if (!question.correctAnswers || question.correctAnswers.length === 0) {
-    throw new Error(`Question ${question.id} must have correct answers`);
+    errors.push(`Question ${question.id} must have correct answers`);
   }
 
   if (typeof question.score !== 'number' || question.score < 0) {
-    throw new Error(`Question ${question.id} must have a valid score`);
+    errors.push(`Question ${question.id} must have a valid score`);
   }
 
-  if (!question.answers || question.answers.length === 0) {
-    throw new Error(`Question ${question.id} must have answers`);
-  }
+  // Numeric entry and grid answers are values rather than indices into answers
+  if (hasAnswerOptions(question)) {
+    if (!question.answers || question.answers.length === 0) {
+      errors.push(`Question ${question.id} must have answers`);
+    } else {
+      // Validate user answers are within valid range
+      const maxIndex = question.answers.length - 1;
+      for (const answer of userAnswers) {
+        if (question.type === 'matching' && answer === UNMATCHED_RESPONSE) {
+          continue;
+        }
+        if (answer < 0 || answer > maxIndex) {
+          errors.push(
+            `Invalid answer index ${answer} for question ${question.id}. ` +
+            `Valid range is 0-${maxIndex}`
+          );
+        }
+      }
 
-  // Validate user answers are within valid range
-  const maxIndex = question.answers.length - 1;
-  for (const answer of userAnswers) {
-    if (answer < 0 || answer > maxIndex) {
-      throw new Error(
-        `Invalid answer index ${answer} for question ${question.id}. ` +
-        `Valid range is 0-${maxIndex}`
-      );
+      // Validate correct answers are within valid range
+      for (const answer of question.correctAnswers || []) {
+        if (answer < 0 || answer > maxIndex) {
+          errors.push(
+            `Invalid correct answer index ${answer} for question ${question.id}. ` +
+            `Valid range is 0-${maxIndex}`
+          );
+        }
+      }
     }
   }
 
-  // Validate correct answers are within valid range
-  for (const answer of question.correctAnswers) {
-    if (answer < 0 || answer > maxIndex) {
-      throw new Error(
-        `Invalid correct answer index ${answer} for question ${question.id}. ` +
-        `Valid range is 0-${maxIndex}`
-      );
-    }
+  // Type-specific validation needs the basic structure in place
+  if (errors.length > 0) {
+    return errors;
   }
 
-  // Type-specific validation
   switch (question.type) {
     case 'trueFalse':
       if (question.answers.length !== 2) {
-        throw new Error(
-          `True/False question ${question.id} must have exactly 2 answers`
-        );
+        errors.push(`True/False question ${question.id} must have exactly 2 answers`);
       }
       if (question.correctAnswers.length !== 1) {
-        throw new Error(
-          `True/False question ${question.id} must have exactly 1 correct answer`
-        );
+        errors.push(`True/False question ${question.id} must have exactly 1 correct answer`);
       }
       break;
 
     case 'multipleChoice':
       if (question.answers.length < 2) {
-        throw new Error(
-          `Multiple choice question ${question.id} must have at least 2 answers`
-        );
+        errors.push(`Multiple choice question ${question.id} must have at least 2 answers`);
       }
       if (question.correctAnswers.length !== 1) {
-        throw new Error(
+        errors.push(
           `Multiple choice question ${question.id} must have exactly 1 correct answer`
         );
       }
@@ -246,36 +802,229 @@ function validateQuestionInput(question: Question, userAnswers: number[]): void
 
     case 'multipleSelect':
       if (question.answers.length < 2) {
-        throw new Error(
-          `Multiple select question ${question.id} must have at least 2 answers`
-        );
+        errors.push(`Multiple select question ${question.id} must have at least 2 answers`);
       }
       if (question.correctAnswers.length < 1) {
-        throw new Error(
+        errors.push(
           `Multiple select question ${question.id} must have at least 1 correct answer`
         );
       }
       break;
+
+    case 'ordering':
+      if (question.answers.length < 2) {
+        errors.push(`Ordering question ${question.id} must have at least 2 answers`);
+      }
+      if (
+        question.correctAnswers.length !== question.answers.length ||
+        new Set(question.correctAnswers).size !== question.answers.length
+      ) {
+        errors.push(
+          `Ordering question ${question.id} must list every answer exactly once in correctAnswers`
+        );
+      }
+      if (new Set(userAnswers).size !== userAnswers.length) {
+        errors.push(`Ordering question ${question.id} answer must not repeat an answer index`);
+      }
+      break;
+
+    case 'numericEntry': {
+      const { match = 'exact', tolerance } = question.numericAnswer || {};
+      if (question.correctAnswers.some(value => !Number.isFinite(value))) {
+        errors.push(
+          `Numeric entry question ${question.id} correct answers must be finite numbers`
+        );
+      }
+      if (match !== 'exact' && (typeof tolerance !== 'number' || tolerance < 0)) {
+        errors.push(
+          `Numeric entry question ${question.id} must have a non-negative tolerance for ${match} matching`
+        );
+      }
+      if (userAnswers.length > 1) {
+        errors.push(`Numeric entry question ${question.id} accepts a single value`);
+      }
+      if (userAnswers.some(value => !Number.isFinite(value))) {
+        errors.push(`Numeric entry question ${question.id} answer must be a finite number`);
+      }
+      break;
+    }
+
+    case 'matching':
+      if (!question.premises || question.premises.length < 2) {
+        errors.push(`Matching question ${question.id} must have at least 2 premises`);
+      } else {
+        if (question.correctAnswers.length !== question.premises.length) {
+          errors.push(
+            `Matching question ${question.id} must have exactly 1 correct response per premise`
+          );
+        }
+        if (userAnswers.length > question.premises.length) {
+          errors.push(`Matching question ${question.id} answer has more pairs than premises`);
+        }
+      }
+      break;
+
+    case 'grid':
+      errors.push(...getGridValidationErrors(question, userAnswers));
+      break;
+
+    default:
+      errors.push(`Unknown question type: ${(question as any).type}`);
+  }
+
+  if (question.scoringStrategy !== undefined) {
+    const strategy = listScoringStrategies().find(
+      registered => registered.name === question.scoringStrategy
+    );
+    if (!strategy) {
+      errors.push(`Question ${question.id} uses unknown scoring strategy "${question.scoringStrategy}"`);
+    } else if (!supportsQuestionType(strategy, question.type)) {
+      errors.push(
+        `Scoring strategy "${strategy.name}" cannot score ${question.type} question ${question.id}`
+      );
+    }
   }
+
+  return errors;
+}
+
+/**
+ * Collect validation problems with a grid question's definition, key and user answer
+ */
+function getGridValidationErrors(question: Question, userAnswers: number[]): string[] {
+  const grid = question.grid;
+
+  if (!grid) {
+    return [`Grid question ${question.id} must have a grid definition`];
+  }
+
+  if (
+    !Number.isInteger(grid.rows) || grid.rows < 1 ||
+    !Number.isInteger(grid.columns) || grid.columns < 1
+  ) {
+    return [`Grid question ${question.id} must have positive whole-number rows and columns`];
+  }
+
+  const errors: string[] = [];
+  const cellCount = grid.rows * grid.columns;
+  const symbolCount = (grid.symbols || []).length;
+  const isSymbol = (value: number) =>
+    value === -1 || (Number.isInteger(value) && value >= 0 && value < symbolCount);
+  const isCell = (value: number) => Number.isInteger(value) && value >= 0 && value < cellCount;
+
+  if (!grid.cells || grid.cells.length !== cellCount || !grid.cells.every(isSymbol)) {
+    errors.push(
+      `Grid question ${question.id} must define a valid symbol (or -1) for each of its ${cellCount} cells`
+    );
+  }
+
+  if (grid.rotations && grid.rotations.length !== cellCount) {
+    errors.push(
+      `Grid question ${question.id} must define a rotation for each of its ${cellCount} cells`
+    );
+  }
+
+  if (grid.answerMode === 'state') {
+    if (question.correctAnswers.length !== cellCount || !question.correctAnswers.every(isSymbol)) {
+      errors.push(
+        `Grid question ${question.id} correct answer must be a valid symbol (or -1) for each of its ${cellCount} cells`
+      );
+    }
+    if (userAnswers.length > 0 && (userAnswers.length !== cellCount || !userAnswers.every(isSymbol))) {
+      errors.push(
+        `Grid question ${question.id} answer must be a valid symbol (or -1) for each of its ${cellCount} cells`
+      );
+    }
+  } else if (grid.answerMode === 'cells') {
+    if (!question.correctAnswers.every(isCell)) {
+      errors.push(
+        `Grid question ${question.id} correct answers must be cell indices in the range 0-${cellCount - 1}`
+      );
+    }
+    if (!userAnswers.every(isCell) || new Set(userAnswers).size !== userAnswers.length) {
+      errors.push(
+        `Grid question ${question.id} answer must be distinct cell indices in the range 0-${cellCount - 1}`
+      );
+    }
+  } else {
+    errors.push(
+      `Grid question ${question.id} has unknown answer mode: ${(grid as any).answerMode}`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a question's answers are indices into its answers array
+ * (numeric entry and grid questions are answered with values instead)
+ */
+export function hasAnswerOptions(question: Question): boolean {
+  return question.type !== 'numericEntry' && question.type !== 'grid';
 }
 
 /**
  * Score multiple questions at once
  *
+ * When a presentation is given, answers are in presented option indices:
+ * they are mapped back to canonical indices before scoring, and each
+ * QuestionResult records the presented answer for audit.
+ *
  * @param questions - Array of questions
  * @param userAnswers - Map of question ID to selected answer indices
  * @param timeSpent - Optional map of question ID to time spent
+ * @param presentation - Optional per-candidate presentation the answers refer to
+ * @param strategy - Scoring strategy for questions that do not set their own
+ * @param formulaScoring - Penalty for wrong answers (off if omitted)
+ * @param responseStatuses - Response status of each question (derived from these questions if omitted)
+ * @param responsePolicy - How unanswered questions are scored (default: as incorrect)
  * @returns Array of QuestionResults
  */
 export function scoreQuestions(
   questions: Question[],
   userAnswers: Record<string, number[]>,
-  timeSpent?: Record<string, number>
+  timeSpent?: Record<string, number>,
+  presentation?: AssessmentPresentation,
+  strategy?: ScoringStrategySelection,
+  formulaScoring?: FormulaScoringOptions,
+  responseStatuses: Record<string, ResponseStatus> = determineResponseStatuses(questions, userAnswers, presentation),
+  responsePolicy?: ResponsePolicy
 ): QuestionResult[] {
+  // Check the penalty rule once, not only when a wrong answer needs it
+  const formulaErrors = formulaScoring ? validateFormulaScoringOptions(formulaScoring) : [];
+  if (formulaErrors.length > 0) {
+    throw new Error(`Invalid formula scoring options: ${formulaErrors.join('; ')}`);
+  }
+
   return questions.map(question => {
     const answers = userAnswers[question.id] || [];
     const time = timeSpent?.[question.id];
-    return scoreQuestion(question, answers, time);
+    const status = responseStatuses[question.id] ?? (hasResponse(question, answers) ? 'answered' : 'omitted');
+
+    const questionPresentation = presentation
+      ? findQuestionPresentation(presentation, question.id)
+      : undefined;
+    if (!questionPresentation) {
+      return applyResponsePolicy(
+        scoreQuestion(question, answers, time, strategy, formulaScoring),
+        status,
+        responsePolicy
+      );
+    }
+
+    const canonicalAnswers = toCanonicalAnswers(question, questionPresentation, answers);
+    return applyResponsePolicy(
+      {
+        ...scoreQuestion(question, canonicalAnswers, time, strategy, formulaScoring),
+        presentation: {
+          position: questionPresentation.position,
+          answerOrder: questionPresentation.answerOrder,
+          presentedAnswers: answers,
+        },
+      },
+      status,
+      responsePolicy
+    );
   });
 }
 
@@ -0,0 +1,156 @@
+/**
+ * Response Status
+ *
+ * This module tells unanswered questions apart from wrong answers:
+ * - answered: at least one answer was given (for matching, at least one
+ *   premise was matched; for a grid answered as a state, at least one cell
+ *   was changed from the starting grid)
+ * - omitted: skipped, but a later question was answered
+ * - notReached: unanswered, and no later question was answered
+ * - timedOut: reported by the delivery when a question's time ran out
+ *
+ * "Later" follows the presented order when a presentation is supplied, and
+ * the order questions were given in otherwise. A status recorded by the
+ * delivery wins over the derived one for any unanswered question.
+ *
+ * The response policy decides how each unanswered status is scored:
+ * 'incorrect' (0 points, the default) or 'excluded' (left out of the earned
+ * and maximum points, so it neither lowers nor raises the percentage).
+ */
+
+import {
+  AssessmentPresentation,
+  Question,
+  QuestionResult,
+  ResponsePolicy,
+  ResponseStatus,
+  UnansweredScoring,
+  UnansweredStatus,
+} from '../types/assessment.types';
+import { findQuestionPresentation } from '../delivery/randomizer';
+
+/**
+ * Response index marking a matching premise the user left unmatched
+ */
+export const UNMATCHED_RESPONSE = -1;
+
+/**
+ * Every response status, in reporting order
+ */
+export const RESPONSE_STATUSES: ResponseStatus[] = ['answered', 'omitted', 'notReached', 'timedOut'];
+
+/**
+ * Default response policy (unanswered questions score 0)
+ */
+export const DEFAULT_RESPONSE_POLICY: Record<UnansweredStatus, UnansweredScoring> = {
+  omitted: 'incorrect',
+  notReached: 'incorrect',
+  timedOut: 'incorrect',
+};
+
+/**
+ * Determine the response status of every question
+ *
+ * @param questions - Questions in the order they were given
+ * @param userAnswers - Map of question ID to selected answer indices
+ * @param presentation - Optional per-candidate presentation (defines the order)
+ * @param recorded - Statuses recorded by the delivery for unanswered questions
+ * @returns Map of question ID to response status
+ */
+export function determineResponseStatuses(
+  questions: Question[],
+  userAnswers: Record<string, number[]>,
+  presentation?: AssessmentPresentation,
+  recorded: Record<string, UnansweredStatus> = {}
+): Record<string, ResponseStatus> {
+  // Questions missing from the presentation keep their place after the presented ones
+  const position = (question: Question, index: number) =>
+    (presentation && findQuestionPresentation(presentation, question.id)?.position) ??
+    questions.length + index;
+  const ordered = questions
+    .map((question, index) => ({ question, position: position(question, index) }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ question }) => question);
+
+  const isAnswered = (question: Question) => hasResponse(question, userAnswers[question.id] || []);
+  let lastAnswered = -1;
+  ordered.forEach((question, index) => {
+    if (isAnswered(question)) {
+      lastAnswered = index;
+    }
+  });
+
+  const statuses: Record<string, ResponseStatus> = {};
+  ordered.forEach((question, index) => {
+    if (isAnswered(question)) {
+      statuses[question.id] = 'answered';
+    } else {
+      statuses[question.id] = recorded[question.id] ?? (index > lastAnswered ? 'notReached' : 'omitted');
+    }
+  });
+  return statuses;
+}
+
+/**
+ * Whether an answer contains a response
+ *
+ * A matching answer with every premise unmatched, or a grid state equal to
+ * the starting grid, is no response.
+ *
+ * @param question - The question answered
+ * @param userAnswers - Answer as submitted
+ */
+export function hasResponse(question: Question, userAnswers: number[]): boolean {
+  if (question.type === 'matching') {
+    return userAnswers.some(answer => answer !== UNMATCHED_RESPONSE);
+  }
+  if (question.type === 'grid' && question.grid?.answerMode === 'state') {
+    const startingCells = question.grid.cells || [];
+    return userAnswers.some((symbol, cell) => symbol !== startingCells[cell]);
+  }
+  return userAnswers.length > 0;
+}
+
+/**
+ * Apply the response policy to a question result
+ *
+ * @param result - Scored question result
+ * @param status - Response status of the question
+ * @param policy - How each unanswered status is scored
+ * @returns Result with `responseStatus` set, left out of the score if the policy excludes it
+ */
+export function applyResponsePolicy(
+  result: QuestionResult,
+  status: ResponseStatus,
+  policy: ResponsePolicy = {}
+): QuestionResult {
+  if (status === 'answered') {
+    return { ...result, responseStatus: status };
+  }
+
+  const scoring = policy[status] ?? DEFAULT_RESPONSE_POLICY[status];
+  if (scoring === 'incorrect') {
+    return { ...result, responseStatus: status };
+  }
+
+  return {
+    ...result,
+    responseStatus: status,
+    earnedPoints: 0,
+    maxPoints: 0,
+    percentage: 0,
+    weight: 0,
+    excluded: true,
+  };
+}
+
+/**
+ * Count question results by response status
+ */
+export function countResponseStatuses(results: QuestionResult[]): Record<ResponseStatus, number> {
+  const counts = Object.fromEntries(RESPONSE_STATUSES.map(status => [status, 0])) as Record<ResponseStatus, number>;
+  for (const result of results) {
+    counts[result.responseStatus]++;
+  }
+  return counts;
+}
@@ -0,0 +1,224 @@
+/**
+ * Scaled Scorer
+ *
+ * This module converts raw scores to a reporting scale (e.g. 200-800) through
+ * a versioned conversion table. Raw percentages change meaning whenever the
+ * question bank changes; a scaled score keeps its meaning as long as the
+ * table is updated (and re-versioned) with the bank.
+ *
+ * Conversion:
+ * Scaled = interpolate(raw) between the table's points, clamped to min-max
+ * and rounded to `decimals` places. Tables convert from the percentage or,
+ * for calibrated banks, from theta.
+ */
+
+import * as fs from 'fs';
+import {
+  CategoryResult,
+  OverallResult,
+  ScaleConversionTable,
+  ScaledScore,
+  ScaleSource,
+  TierDefinition,
+  TierLevel,
+} from '../types/assessment.types';
+import { TIER_DEFINITIONS } from '../constants/tiers';
+
+/**
+ * Create a linear conversion table
+ *
+ * @param options - Scale ID, version, source, and the raw and scaled ranges
+ * @returns Two-point table mapping rawMin-rawMax onto min-max
+ */
+export function createLinearScale(options: {
+  id: string;
+  version: string;
+  source: ScaleSource;
+  min: number;
+  max: number;
+  rawMin?: number;
+  rawMax?: number;
+  decimals?: number;
+}): ScaleConversionTable {
+  const rawMin = options.rawMin ?? (options.source === 'theta' ? -3 : 0);
+  const rawMax = options.rawMax ?? (options.source === 'theta' ? 3 : 100);
+  return {
+    id: options.id,
+    version: options.version,
+    source: options.source,
+    min: options.min,
+    max: options.max,
+    decimals: options.decimals ?? 0,
+    points: [
+      { raw: rawMin, scaled: options.min },
+      { raw: rawMax, scaled: options.max },
+    ],
+  };
+}
+
+/**
+ * Validate a conversion table
+ *
+ * @returns Error messages (empty if the table is valid)
+ */
+export function validateScaleConversionTable(table: ScaleConversionTable): string[] {
+  const errors: string[] = [];
+
+  if (!table.id) {
+    errors.push('Scale must have an id');
+  }
+  if (!table.version) {
+    errors.push('Scale must have a version');
+  }
+  if (table.source !== 'percentage' && table.source !== 'theta') {
+    errors.push(`Scale source must be "percentage" or "theta", got "${table.source}"`);
+  }
+  if (!(table.min < table.max)) {
+    errors.push(`Scale min (${table.min}) must be below max (${table.max})`);
+  }
+  if (!Array.isArray(table.points) || table.points.length < 2) {
+    errors.push('Scale must have at least 2 conversion points');
+    return errors;
+  }
+
+  for (let i = 1; i < table.points.length; i++) {
+    const previous = table.points[i - 1];
+    const point = table.points[i];
+    if (point.raw <= previous.raw) {
+      errors.push(`Conversion point ${i} raw score ${point.raw} must be above ${previous.raw}`);
+    }
+    if (point.scaled < previous.scaled) {
+      errors.push(`Conversion point ${i} scaled score ${point.scaled} must not be below ${previous.scaled}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a raw score to the scale
+ *
+ * @param raw - Raw score (percentage or theta, matching the table's source)
+ * @param table - Conversion table
+ * @returns Scaled score, clamped and rounded
+ */
+export function convertToScaledScore(raw: number, table: ScaleConversionTable): number {
+  const points = table.points;
+  let scaled: number;
+
+  if (raw <= points[0].raw) {
+    scaled = points[0].scaled;
+  } else if (raw >= points[points.length - 1].raw) {
+    scaled = points[points.length - 1].scaled;
+  } else {
+    const upperIndex = points.findIndex(point => point.raw >= raw);
+    const lower = points[upperIndex - 1];
+    const upper = points[upperIndex];
+    scaled = lower.scaled + (upper.scaled - lower.scaled) * (raw - lower.raw) / (upper.raw - lower.raw);
+  }
+
+  const factor = Math.pow(10, table.decimals ?? 0);
+  return Math.min(Math.max(Math.round(scaled * factor) / factor, table.min), table.max);
+}
+
+/**
+ * Get the tier for a scaled score
+ *
+ * @param scaledScore - Scaled score
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
+ * @returns Tier, or undefined if the definitions do not set `minScaledScore`
+ */
+export function getTierFromScaledScore(
+  scaledScore: number,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): TierLevel | undefined {
+  const tiers = ([5, 4, 3, 2, 1] as TierLevel[]).map(level => definitions[level]);
+  if (tiers.some(tier => tier.minScaledScore === undefined)) {
+    return undefined;
+  }
+  const tier = tiers.find(definition => scaledScore >= definition.minScaledScore!);
+  return tier ? tier.level : 1;
+}
+
+/**
+ * Calculate a scaled score from a percentage and optional theta
+ *
+ * @returns Scaled score, or undefined for a theta scale without an ability estimate
+ */
+export function calculateScaledScore(
+  percentage: number,
+  theta: number | undefined,
+  table: ScaleConversionTable,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): ScaledScore | undefined {
+  const raw = table.source === 'theta' ? theta : percentage;
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const value = convertToScaledScore(raw, table);
+  const scaledScore: ScaledScore = {
+    value,
+    scaleId: table.id,
+    scaleVersion: table.version,
+    source: table.source,
+  };
+  const tier = getTierFromScaledScore(value, definitions);
+  if (tier !== undefined) {
+    scaledScore.tier = tier;
+  }
+  return scaledScore;
+}
+
+/**
+ * Add scaled scores to overall and category results
+ *
+ * Theta scales only score results that carry an ability estimate.
+ *
+ * @param overall - Overall result
+ * @param categoryResults - Category results
+ * @param table - Conversion table
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
+ * @returns Overall and category results with `scaledScore` set where possible
+ */
+export function addScaledScores(
+  overall: OverallResult,
+  categoryResults: CategoryResult[],
+  table: ScaleConversionTable,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): { overall: OverallResult; categories: CategoryResult[] } {
+  const errors = validateScaleConversionTable(table);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scale conversion table: ${errors.join('; ')}`);
+  }
+
+  const overallScaled = calculateScaledScore(overall.percentage, overall.ability?.theta, table, definitions);
+  const categories = categoryResults.map(category => {
+    const scaledScore = calculateScaledScore(category.percentage, category.ability?.theta, table, definitions);
+    return scaledScore ? { ...category, scaledScore } : category;
+  });
+
+  return {
+    overall: overallScaled ? { ...overall, scaledScore: overallScaled } : overall,
+    categories,
+  };
+}
+
+/**
+ * Save a conversion table as JSON
+ */
+export function saveScaleConversionTable(table: ScaleConversionTable, filePath: string): void {
+  fs.writeFileSync(filePath, JSON.stringify(table, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Load and validate a conversion table
+ */
+export function loadScaleConversionTable(filePath: string): ScaleConversionTable {
+  const table: ScaleConversionTable = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const errors = validateScaleConversionTable(table);
+  if (errors.length > 0) {
+    throw new Error(`${filePath} is not a valid scale conversion table: ${errors.join('; ')}`);
+  }
+  return table;
+}
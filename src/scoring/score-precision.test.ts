@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getZScore, semInterval, wilsonInterval } from './score-precision';
+
+test('getZScore gives the two-sided normal quantile', () => {
+  assert.ok(Math.abs(getZScore(0.95) - 1.959964) < 1e-5);
+  assert.ok(Math.abs(getZScore(0.9) - 1.644854) < 1e-5);
+  assert.throws(() => getZScore(1), /between 0 and 1/);
+});
+
+test('Wilson interval matches published values', () => {
+  // 8 of 10: 95% Wilson interval 0.4902-0.9433
+  const interval = wilsonInterval(80, 10);
+  assert.ok(Math.abs(interval.lower - 49.02) < 0.01);
+  assert.ok(Math.abs(interval.upper - 94.33) < 0.01);
+  assert.equal(interval.method, 'wilson');
+});
+
+test('Wilson interval keeps non-zero width at 0% and 100%', () => {
+  // 0 of 10: 0-0.2775; 10 of 10: 0.7225-1
+  const none = wilsonInterval(0, 10);
+  const all = wilsonInterval(100, 10);
+  assert.equal(none.lower, 0);
+  assert.ok(Math.abs(none.upper - 27.75) < 0.01);
+  assert.ok(Math.abs(all.lower - 72.25) < 0.01);
+  assert.equal(all.upper, 100);
+});
+
+test('SEM interval is the score ± z × SEM, clamped to 0-100', () => {
+  const interval = semInterval(70, 5);
+  assert.ok(Math.abs(interval.lower - (70 - 1.959964 * 5)) < 1e-4);
+  assert.ok(Math.abs(interval.upper - (70 + 1.959964 * 5)) < 1e-4);
+  assert.equal(semInterval(98, 5).upper, 100);
+});
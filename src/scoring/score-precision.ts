@@ -0,0 +1,184 @@
+/**
+ * Score Precision
+ *
+ * This module puts confidence intervals around percentage scores, so a
+ * category scored from two questions is not reported as precisely as the
+ * whole test:
+ *
+ * 1. Wilson interval (default): the percentage is treated as a proportion
+ *    over n questions, n = question count
+ * 2. SEM interval: Percentage ± z × SEM, when a standard error of measurement
+ *    is known (e.g. from reliability analysis of a cohort)
+ * 3. Tier certainty = P(true score within the reported tier's range), using a
+ *    normal distribution centered on the percentage, spread to match the
+ *    interval on each side
+ */
+
+import {
+  ConfidenceInterval,
+  PerformanceClassification,
+  PerformanceThresholds,
+  TierDefinition,
+  TierLevel,
+} from '../types/assessment.types';
+import {
+  PERFORMANCE_THRESHOLDS,
+  TIER_DEFINITIONS,
+  getPerformanceClassification,
+  getTierFromPercentage,
+} from '../constants/tiers';
+import { normalCdf, normalQuantile } from '../utils/statistics';
+
+/**
+ * Default confidence level for score intervals
+ */
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+/**
+ * Get the two-sided z value for a confidence level
+ */
+export function getZScore(level: number): number {
+  if (level <= 0 || level >= 1) {
+    throw new Error(`Confidence level must be between 0 and 1 (exclusive), got ${level}`);
+  }
+  return normalQuantile(1 - (1 - level) / 2);
+}
+
+/**
+ * Calculate a Wilson score interval for a percentage
+ *
+ * Unlike the normal approximation, the interval stays within 0-100 and has
+ * non-zero width at 0% and 100%, which matters for short categories.
+ *
+ * @param percentage - Score percentage (0-100)
+ * @param questionCount - Number of questions the score is based on
+ * @param level - Confidence level (default 0.95)
+ * @returns Interval in percentage points
+ */
+export function wilsonInterval(
+  percentage: number,
+  questionCount: number,
+  level: number = DEFAULT_CONFIDENCE_LEVEL
+): ConfidenceInterval {
+  const z = getZScore(level);
+  if (questionCount <= 0) {
+    return { lower: 0, upper: 100, level, method: 'wilson', standardError: 50 / z };
+  }
+
+  const p = Math.min(Math.max(percentage / 100, 0), 1);
+  const n = questionCount;
+  const denominator = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denominator;
+  const halfWidth = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+
+  return {
+    lower: Math.max(0, center - halfWidth) * 100,
+    upper: Math.min(1, center + halfWidth) * 100,
+    level,
+    method: 'wilson',
+    standardError: (halfWidth * 100) / z,
+  };
+}
+
+/**
+ * Calculate an interval from a standard error of measurement
+ *
+ * @param percentage - Score percentage (0-100)
+ * @param standardError - Standard error of measurement in percentage points
+ * @param level - Confidence level (default 0.95)
+ * @returns Interval in percentage points, clamped to 0-100
+ */
+export function semInterval(
+  percentage: number,
+  standardError: number,
+  level: number = DEFAULT_CONFIDENCE_LEVEL
+): ConfidenceInterval {
+  const halfWidth = getZScore(level) * standardError;
+  return {
+    lower: Math.max(0, percentage - halfWidth),
+    upper: Math.min(100, percentage + halfWidth),
+    level,
+    method: 'sem',
+    standardError,
+  };
+}
+
+/**
+ * Calculate the confidence interval for a score
+ *
+ * Uses the SEM interval when a standard error is given, Wilson otherwise.
+ */
+export function calculateConfidenceInterval(
+  percentage: number,
+  questionCount: number,
+  level: number = DEFAULT_CONFIDENCE_LEVEL,
+  standardError?: number
+): ConfidenceInterval {
+  return standardError !== undefined
+    ? semInterval(percentage, standardError, level)
+    : wilsonInterval(percentage, questionCount, level);
+}
+
+/**
+ * Calculate the probability that the true score falls in the reported tier
+ *
+ * The true score is modeled as a split normal distribution centered on the
+ * percentage, with each side's spread taken from the interval's distance to
+ * that side. This keeps Wilson intervals' asymmetry near 0% and 100%. The
+ * lowest and highest tiers are open-ended.
+ *
+ * @param percentage - Score percentage (0-100)
+ * @param interval - Confidence interval around the percentage
+ * @param definitions - Tier definitions (default TIER_DEFINITIONS)
+ * @returns Probability between 0 and 1
+ */
+export function calculateTierCertainty(
+  percentage: number,
+  interval: ConfidenceInterval,
+  definitions: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): number {
+  const tier = getTierFromPercentage(percentage, definitions);
+  const z = getZScore(interval.level);
+  const spreadBelow = interval.method === 'sem'
+    ? interval.standardError
+    : (percentage - interval.lower) / z;
+  const spreadAbove = interval.method === 'sem'
+    ? interval.standardError
+    : (interval.upper - percentage) / z;
+
+  const cumulative = (bound: number): number => {
+    const spread = bound < percentage ? spreadBelow : spreadAbove;
+    if (spread <= 0) {
+      return bound < percentage ? 0 : 1;
+    }
+    return normalCdf((bound - percentage) / spread);
+  };
+
+  const lowerBound = tier === 1 ? -Infinity : definitions[tier].minPercentage;
+  const upperBound = tier === 5 ? Infinity : definitions[(tier + 1) as TierLevel].minPercentage;
+
+  return cumulative(upperBound) - cumulative(lowerBound);
+}
+
+/**
+ * Get the performance classifications an interval spans
+ *
+ * @param interval - Confidence interval around a percentage
+ * @param thresholds - Classification thresholds (default PERFORMANCE_THRESHOLDS)
+ * @returns Classifications from the lower to the upper bound
+ */
+export function getIntervalClassifications(
+  interval: ConfidenceInterval,
+  thresholds: PerformanceThresholds = PERFORMANCE_THRESHOLDS
+): PerformanceClassification[] {
+  const order: PerformanceClassification[] = [
+    'critical-weakness',
+    'weakness',
+    'adequate',
+    'strength',
+    'exceptional',
+  ];
+  const lowest = order.indexOf(getPerformanceClassification(interval.lower, thresholds));
+  const highest = order.indexOf(getPerformanceClassification(interval.upper, thresholds));
+  return order.slice(lowest, highest + 1);
+}
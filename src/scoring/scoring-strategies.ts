@@ -0,0 +1,234 @@
+/**
+ * Scoring Strategies
+ *
+ * This module keeps a registry of named scoring strategies. A question's
+ * `scoringStrategy`, or `ScoringOptions.scoringStrategy`, picks a strategy;
+ * otherwise the question type's built-in algorithm ('default') is used.
+ * Every strategy receives the default score, so it can adjust it or replace it.
+ *
+ * Built-in strategies:
+ * - default: built-in algorithm for the question type
+ * - allOrNothing: Base Score if fully correct, else 0
+ * - dichotomous: 1 point if fully correct, else 0 (every question counts equally)
+ * - proportional (multiple select): Base Score × Options Judged Correctly / Options,
+ *   where an option is judged correctly if it is a selected key or an unselected distractor
+ * - rightMinusWrong (multiple select): Base Score × max(0, Correct - Incorrect Selections) / Correct Answers
+ *
+ * Organisation-specific strategies are added with registerScoringStrategy:
+ *
+ * ```typescript
+ * registerScoringStrategy({
+ *   name: 'halfCreditFloor',
+ *   description: 'At least half the points for any partially correct answer',
+ *   score: (question, userAnswers, defaultScore) => ({
+ *     ...defaultScore,
+ *     earnedPoints: defaultScore.earnedPoints > 0
+ *       ? Math.max(defaultScore.earnedPoints, question.score / 2)
+ *       : 0,
+ *   }),
+ * });
+ * ```
+ */
+
+import {
+  PartialCreditDetails,
+  Question,
+  QuestionCreditDetails,
+  QuestionType,
+  ScoringStrategySelection,
+} from '../types/assessment.types';
+import { ScoringStrategyDefinition, StrategyScore } from '../types/scoring-strategy.types';
+
+/**
+ * Strategy used when neither the question nor the scoring options pick one
+ */
+export const DEFAULT_SCORING_STRATEGY = 'default';
+
+/**
+ * Strategies shipped with the scorer
+ */
+const BUILT_IN_STRATEGIES: ScoringStrategyDefinition[] = [
+  {
+    name: DEFAULT_SCORING_STRATEGY,
+    description: 'Built-in algorithm for the question type',
+    score: (_question, _userAnswers, defaultScore) => defaultScore,
+  },
+  {
+    name: 'allOrNothing',
+    description: 'Full points only for a fully correct answer',
+    score: (question, _userAnswers, defaultScore) => ({
+      ...defaultScore,
+      earnedPoints: defaultScore.isCorrect ? question.score : 0,
+      partialCreditDetails: withAllOrNothingCredit(defaultScore),
+    }),
+  },
+  {
+    name: 'dichotomous',
+    description: 'One point for a fully correct answer, regardless of the question score',
+    score: (_question, _userAnswers, defaultScore) => ({
+      ...defaultScore,
+      earnedPoints: defaultScore.isCorrect ? 1 : 0,
+      maxPoints: 1,
+      partialCreditDetails: withAllOrNothingCredit(defaultScore),
+    }),
+  },
+  {
+    name: 'proportional',
+    description: 'Credit for every option judged correctly (selected key or unselected distractor)',
+    questionTypes: ['multipleSelect'],
+    score: (question, _userAnswers, defaultScore) => {
+      const details = defaultScore.partialCreditDetails as PartialCreditDetails;
+      const optionCount = question.answers.length;
+      const distractorCount = optionCount - question.correctAnswers.length;
+      const creditRatio = optionCount > 0
+        ? (details.correctSelections + distractorCount - details.incorrectSelections) / optionCount
+        : 0;
+      return {
+        ...defaultScore,
+        earnedPoints: question.score * creditRatio,
+        partialCreditDetails: {
+          ...details,
+          penaltyFactor: distractorCount > 0 ? 1 - details.incorrectSelections / distractorCount : 1,
+          creditRatio,
+        },
+      };
+    },
+  },
+  {
+    name: 'rightMinusWrong',
+    description: 'Each incorrect selection cancels one correct selection',
+    questionTypes: ['multipleSelect'],
+    score: (question, _userAnswers, defaultScore) => {
+      const details = defaultScore.partialCreditDetails as PartialCreditDetails;
+      const net = Math.max(0, details.correctSelections - details.incorrectSelections);
+      const creditRatio = question.correctAnswers.length > 0 ? net / question.correctAnswers.length : 0;
+      return {
+        ...defaultScore,
+        earnedPoints: question.score * creditRatio,
+        partialCreditDetails: {
+          ...details,
+          penaltyFactor: details.correctSelections > 0 ? net / details.correctSelections : 0,
+          creditRatio,
+        },
+      };
+    },
+  },
+];
+
+/**
+ * Set partial credit details to full or no credit, matching an all-or-nothing score
+ */
+function withAllOrNothingCredit(defaultScore: StrategyScore): QuestionCreditDetails | undefined {
+  const details = defaultScore.partialCreditDetails;
+  if (!details) {
+    return undefined;
+  }
+  const creditRatio = defaultScore.isCorrect ? 1 : 0;
+  return 'penaltyFactor' in details
+    ? { ...details, penaltyFactor: creditRatio, creditRatio }
+    : { ...details, creditRatio };
+}
+
+const BUILT_IN_NAMES = new Set(BUILT_IN_STRATEGIES.map(strategy => strategy.name));
+
+/**
+ * Registered strategies by name
+ */
+const registry = new Map<string, ScoringStrategyDefinition>(
+  BUILT_IN_STRATEGIES.map(strategy => [strategy.name, strategy])
+);
+
+/**
+ * Register a scoring strategy
+ *
+ * @param definition - Strategy name, description, supported question types and scoring function
+ * @param options - Set `replace` to overwrite a custom strategy with the same name
+ */
+export function registerScoringStrategy(
+  definition: ScoringStrategyDefinition,
+  options: { replace?: boolean } = {}
+): void {
+  if (!definition.name) {
+    throw new Error('Scoring strategy must have a name');
+  }
+  if (BUILT_IN_NAMES.has(definition.name)) {
+    throw new Error(`Built-in scoring strategy "${definition.name}" cannot be replaced`);
+  }
+  if (registry.has(definition.name) && !options.replace) {
+    throw new Error(`Scoring strategy "${definition.name}" is already registered`);
+  }
+  registry.set(definition.name, definition);
+}
+
+/**
+ * Remove a custom scoring strategy
+ *
+ * @returns Whether a strategy was removed
+ */
+export function unregisterScoringStrategy(name: string): boolean {
+  if (BUILT_IN_NAMES.has(name)) {
+    throw new Error(`Built-in scoring strategy "${name}" cannot be removed`);
+  }
+  return registry.delete(name);
+}
+
+/**
+ * Get a registered scoring strategy
+ */
+export function getScoringStrategy(name: string): ScoringStrategyDefinition {
+  const strategy = registry.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown scoring strategy: ${name}`);
+  }
+  return strategy;
+}
+
+/**
+ * List registered scoring strategies
+ */
+export function listScoringStrategies(): ScoringStrategyDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Check whether a strategy can score a question type
+ */
+export function supportsQuestionType(strategy: ScoringStrategyDefinition, type: QuestionType): boolean {
+  return !strategy.questionTypes || strategy.questionTypes.includes(type);
+}
+
+/**
+ * Pick the strategy for a question
+ *
+ * The question's own `scoringStrategy` wins, then a per-type choice, then a
+ * single strategy name (skipped for types it does not support), then 'default'.
+ *
+ * @param question - The question being scored
+ * @param selection - Strategy choice from the scoring options
+ * @returns Strategy to score the question with
+ */
+export function resolveScoringStrategy(
+  question: Question,
+  selection?: ScoringStrategySelection
+): ScoringStrategyDefinition {
+  const explicit = question.scoringStrategy ??
+    (typeof selection === 'object' ? selection[question.type] : undefined);
+  if (explicit !== undefined) {
+    const strategy = getScoringStrategy(explicit);
+    if (!supportsQuestionType(strategy, question.type)) {
+      throw new Error(
+        `Scoring strategy "${explicit}" cannot score ${question.type} question ${question.id}`
+      );
+    }
+    return strategy;
+  }
+
+  if (typeof selection === 'string') {
+    const strategy = getScoringStrategy(selection);
+    if (supportsQuestionType(strategy, question.type)) {
+      return strategy;
+    }
+  }
+
+  return getScoringStrategy(DEFAULT_SCORING_STRATEGY);
+}
@@ -0,0 +1,304 @@
+/**
+ * Standard Setting
+ *
+ * This module turns panelist judgments into recommended tier cut scores:
+ *
+ * 1. Modified Angoff: for each tier, panelists estimate the chance that a
+ *    candidate who just qualifies for the tier answers each question.
+ *    Panelist cut = expected overall percentage with those chances
+ *    Recommended cut = mean of panelist cuts
+ *
+ * 2. Bookmark: questions are ordered by IRT location (the theta at which the
+ *    response probability reaches 0.67). Panelists mark the last question a
+ *    just-qualified candidate would answer correctly.
+ *    Panelist cut theta = location of the bookmarked question
+ *    Recommended cut = expected overall percentage at the median cut theta
+ *
+ * Panel agreement is reported as the SD, standard error, range and
+ * interquartile range of panelist cuts. Expected percentages mirror overall
+ * scoring (category percentages weighted by category weight).
+ */
+
+import { Question, TierLevel } from '../types/assessment.types';
+import {
+  AngoffRating,
+  BookmarkRating,
+  CutScoreRecommendation,
+  CutTier,
+  OrderedItem,
+  PanelistCut,
+  StandardSettingMethod,
+  StandardSettingResult,
+} from '../types/standard-setting.types';
+import { calculateExpectedOverallScore } from '../scoring/overall-scorer';
+import { probabilityCorrect, resolveItemParameters } from '../irt/irt-model';
+import { createTierConfiguration } from './tier-configuration';
+import { mean, median, quantile, standardDeviation } from '../utils/statistics';
+
+/**
+ * Default response probability for ordering bookmark questions (RP67)
+ */
+export const DEFAULT_RESPONSE_PROBABILITY = 0.67;
+
+/**
+ * Options for standard setting
+ */
+export interface StandardSettingOptions {
+  /** ID of the resulting tier configuration */
+  id: string;
+  /** Version of the resulting tier configuration (default '1.0') */
+  version?: string;
+}
+
+/**
+ * Tiers cut scores are set for, in increasing order
+ */
+const CUT_TIERS: CutTier[] = [2, 3, 4, 5];
+
+/**
+ * Recommend tier cut scores with the modified Angoff method
+ *
+ * Panelists who did not rate every question for a tier are left out of that
+ * tier and reported in `issues`. Only each panelist's latest round is used.
+ *
+ * @param questions - Questions on the assessment
+ * @param ratings - Angoff ratings
+ * @param options - Configuration ID and version
+ * @returns Recommended cuts, agreement statistics and a tier configuration
+ */
+export function setAngoffCutScores(
+  questions: Question[],
+  ratings: AngoffRating[],
+  options: StandardSettingOptions
+): StandardSettingResult {
+  const issues: string[] = [];
+  const questionIds = new Set(questions.map(question => question.id));
+
+  for (const rating of ratings) {
+    if (!questionIds.has(rating.questionId)) {
+      issues.push(`Panelist ${rating.panelistId} rated unknown question ${rating.questionId}`);
+    }
+    if (rating.probability < 0 || rating.probability > 1) {
+      issues.push(
+        `Panelist ${rating.panelistId} rated ${rating.questionId} with probability ${rating.probability} (must be 0-1)`
+      );
+    }
+  }
+
+  const cuts: CutScoreRecommendation[] = [];
+  for (const tier of CUT_TIERS) {
+    const tierRatings = getLatestRound(ratings.filter(rating => rating.tier === tier));
+    const panelistCuts: PanelistCut[] = [];
+
+    for (const [panelistId, panelistRatings] of groupByPanelist(tierRatings).entries()) {
+      const probabilities = new Map(
+        panelistRatings.map(rating => [rating.questionId, Math.min(Math.max(rating.probability, 0), 1)])
+      );
+      const missing = questions.filter(question => !probabilities.has(question.id)).length;
+      if (missing > 0) {
+        issues.push(`Panelist ${panelistId} did not rate ${missing} question(s) for tier ${tier}`);
+        continue;
+      }
+      panelistCuts.push({
+        panelistId,
+        cutScore: calculateExpectedOverallScore(questions, question => probabilities.get(question.id)!),
+      });
+    }
+
+    if (panelistCuts.length > 0) {
+      const summary = summarizePanelistCuts(tier, panelistCuts);
+      cuts.push({ ...summary, cutScore: summary.mean });
+    }
+  }
+
+  return createStandardSettingResult('angoff', ratings, cuts, issues, options);
+}
+
+/**
+ * Order questions for a bookmark study
+ *
+ * @param questions - Questions with IRT parameters
+ * @param responseProbability - Response probability defining each location (default 0.67)
+ * @returns Questions from easiest to hardest with their locations
+ */
+export function createOrderedItemBooklet(
+  questions: Question[],
+  responseProbability: number = DEFAULT_RESPONSE_PROBABILITY
+): OrderedItem[] {
+  if (questions.length === 0) {
+    throw new Error('Bookmark standard setting needs at least one question');
+  }
+  const uncalibrated = questions.filter(question => !question.irt).map(question => question.id);
+  if (uncalibrated.length > 0) {
+    throw new Error(`Bookmark standard setting needs IRT parameters; missing for ${uncalibrated.join(', ')}`);
+  }
+
+  return questions
+    .map(question => ({
+      questionId: question.id,
+      location: getItemLocation(question, responseProbability),
+    }))
+    .sort((a, b) => a.location - b.location)
+    .map((item, index) => ({ page: index + 1, ...item }));
+}
+
+/**
+ * Recommend tier cut scores with the bookmark method
+ *
+ * @param questions - Questions with IRT parameters
+ * @param ratings - Bookmark placements
+ * @param options - Configuration ID, version and response probability
+ * @returns Recommended cuts, agreement statistics and a tier configuration
+ */
+export function setBookmarkCutScores(
+  questions: Question[],
+  ratings: BookmarkRating[],
+  options: StandardSettingOptions & { responseProbability?: number }
+): StandardSettingResult {
+  const booklet = createOrderedItemBooklet(
+    questions,
+    options.responseProbability ?? DEFAULT_RESPONSE_PROBABILITY
+  );
+  const expectedAt = (theta: number) =>
+    calculateExpectedOverallScore(questions, question => probabilityCorrect(theta, question.irt!));
+
+  const issues: string[] = [];
+  const cuts: CutScoreRecommendation[] = [];
+
+  for (const tier of CUT_TIERS) {
+    const tierRatings = getLatestRound(ratings.filter(rating => rating.tier === tier));
+    const panelistThetas: number[] = [];
+    const panelistCuts: PanelistCut[] = [];
+
+    for (const rating of tierRatings) {
+      const item = booklet[rating.page - 1];
+      if (!Number.isInteger(rating.page) || !item) {
+        issues.push(
+          `Panelist ${rating.panelistId} placed the tier ${tier} bookmark on page ${rating.page} (booklet has ${booklet.length})`
+        );
+        continue;
+      }
+      panelistThetas.push(item.location);
+      panelistCuts.push({ panelistId: rating.panelistId, cutScore: expectedAt(item.location) });
+    }
+
+    if (panelistCuts.length > 0) {
+      const theta = median(panelistThetas);
+      cuts.push({
+        ...summarizePanelistCuts(tier, panelistCuts),
+        cutScore: expectedAt(theta),
+        theta,
+      });
+    }
+  }
+
+  return createStandardSettingResult('bookmark', ratings, cuts, issues, options);
+}
+
+/**
+ * Get the theta at which a question's response probability is reached
+ *
+ * θ = b + ln((RP - c) / (1 - RP)) / a
+ */
+export function getItemLocation(question: Question, responseProbability: number): number {
+  const { difficulty, discrimination, guessing } = resolveItemParameters(question.irt!);
+  if (responseProbability <= guessing || responseProbability >= 1) {
+    throw new Error(
+      `Response probability ${responseProbability} must be between question ${question.id}'s guessing (${guessing}) and 1`
+    );
+  }
+  return difficulty + Math.log((responseProbability - guessing) / (1 - responseProbability)) / discrimination;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Keep each panelist's latest round
+ */
+function getLatestRound<T extends { panelistId: string; round?: number }>(ratings: T[]): T[] {
+  const latest = new Map<string, number>();
+  for (const rating of ratings) {
+    latest.set(rating.panelistId, Math.max(latest.get(rating.panelistId) ?? 1, rating.round ?? 1));
+  }
+  return ratings.filter(rating => (rating.round ?? 1) === latest.get(rating.panelistId));
+}
+
+/**
+ * Group ratings by panelist
+ */
+function groupByPanelist<T extends { panelistId: string }>(ratings: T[]): Map<string, T[]> {
+  const panelists = new Map<string, T[]>();
+  for (const rating of ratings) {
+    const existing = panelists.get(rating.panelistId) || [];
+    existing.push(rating);
+    panelists.set(rating.panelistId, existing);
+  }
+  return panelists;
+}
+
+/**
+ * Calculate panel agreement statistics for a tier
+ */
+function summarizePanelistCuts(
+  tier: CutTier,
+  panelistCuts: PanelistCut[]
+): Omit<CutScoreRecommendation, 'cutScore'> {
+  const scores = panelistCuts.map(cut => cut.cutScore);
+  const sd = standardDeviation(scores, true);
+  return {
+    tier,
+    panelistCuts,
+    mean: mean(scores),
+    median: median(scores),
+    standardDeviation: sd,
+    standardError: sd / Math.sqrt(scores.length),
+    range: { min: Math.min(...scores), max: Math.max(...scores) },
+    interquartileRange: quantile(scores, 0.75) - quantile(scores, 0.25),
+  };
+}
+
+/**
+ * Check recommended cuts and build the tier configuration
+ */
+function createStandardSettingResult(
+  method: StandardSettingMethod,
+  ratings: Array<{ panelistId: string }>,
+  cuts: CutScoreRecommendation[],
+  issues: string[],
+  options: StandardSettingOptions
+): StandardSettingResult {
+  const cutMap: Partial<Record<CutTier, number>> = {};
+  for (const cut of cuts) {
+    cutMap[cut.tier] = Math.round(cut.cutScore);
+  }
+
+  for (const tier of CUT_TIERS) {
+    if (cutMap[tier] === undefined) {
+      issues.push(`No ratings for tier ${tier}; the default cut score is kept`);
+    }
+  }
+
+  const configuration = createTierConfiguration(cutMap, {
+    id: options.id,
+    version: options.version,
+    method,
+  });
+  for (const tier of CUT_TIERS) {
+    const previous = configuration.tiers[(tier - 1) as TierLevel];
+    if (configuration.tiers[tier].minPercentage <= previous.minPercentage) {
+      issues.push(
+        `Tier ${tier} cut (${configuration.tiers[tier].minPercentage}%) is not above tier ${tier - 1} (${previous.minPercentage}%)`
+      );
+    }
+  }
+
+  return {
+    method,
+    panelistCount: new Set(ratings.map(rating => rating.panelistId)).size,
+    cuts,
+    configuration,
+    issues,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Tier Configuration
+ *
+ * This module creates, validates, saves and loads tier configurations: tier
+ * definitions with cut scores (usually from a standard-setting study) and
+ * performance classification thresholds that replace the default
+ * TIER_DEFINITIONS and PERFORMANCE_THRESHOLDS when scoring:
+ *
+ * ```typescript
+ * const { tiers, performanceThresholds } = loadTierConfiguration('./data/tiers-2025.json');
+ * await scoreAssessment(input, { tierDefinitions: tiers, performanceThresholds });
+ * ```
+ */
+
+import * as fs from 'fs';
+import { PerformanceThresholds, TierDefinition, TierLevel } from '../types/assessment.types';
+import { CutTier, StandardSettingMethod, TierConfiguration } from '../types/standard-setting.types';
+import { PERFORMANCE_THRESHOLDS, TIER_DEFINITIONS } from '../constants/tiers';
+
+/**
+ * Tier levels in increasing order
+ */
+const TIER_LEVELS: TierLevel[] = [1, 2, 3, 4, 5];
+
+/**
+ * Performance classifications in increasing order
+ */
+const CLASSIFICATION_KEYS: Array<keyof PerformanceThresholds> = [
+  'CRITICAL_WEAKNESS',
+  'WEAKNESS',
+  'ADEQUATE',
+  'STRENGTH',
+  'EXCEPTIONAL',
+];
+
+/**
+ * Create a tier configuration from cut scores
+ *
+ * Tiers without a cut score keep the base definition's minimum. Each tier's
+ * maximum is set one below the next tier's minimum (100 for tier 5).
+ *
+ * @param cuts - Minimum percentage for each tier (tiers 2-5)
+ * @param options - Configuration ID, version, source method and performance
+ *   thresholds (default PERFORMANCE_THRESHOLDS)
+ * @param base - Definitions to start from (default TIER_DEFINITIONS)
+ * @returns Tier configuration
+ */
+export function createTierConfiguration(
+  cuts: Partial<Record<CutTier, number>>,
+  options: {
+    id: string;
+    version?: string;
+    method?: StandardSettingMethod;
+    performanceThresholds?: PerformanceThresholds;
+  },
+  base: Record<TierLevel, TierDefinition> = TIER_DEFINITIONS
+): TierConfiguration {
+  const tiers = {} as Record<TierLevel, TierDefinition>;
+  for (const level of TIER_LEVELS) {
+    const cut = level === 1 ? 0 : cuts[level as CutTier];
+    tiers[level] = {
+      ...base[level],
+      minPercentage: cut ?? base[level].minPercentage,
+    };
+  }
+  for (const level of TIER_LEVELS) {
+    tiers[level].maxPercentage = level === 5 ? 100 : tiers[(level + 1) as TierLevel].minPercentage - 1;
+  }
+
+  const configuration: TierConfiguration = {
+    id: options.id,
+    version: options.version ?? '1.0',
+    createdAt: new Date().toISOString(),
+    tiers,
+    performanceThresholds: options.performanceThresholds ?? PERFORMANCE_THRESHOLDS,
+  };
+  if (options.method) {
+    configuration.method = options.method;
+  }
+  return configuration;
+}
+
+/**
+ * Validate tier definitions
+ *
+ * @returns Error messages (empty if the definitions are valid)
+ */
+export function validateTierDefinitions(tiers: Record<TierLevel, TierDefinition>): string[] {
+  const errors: string[] = [];
+
+  for (const level of TIER_LEVELS) {
+    const definition = tiers?.[level];
+    if (!definition) {
+      errors.push(`Tier ${level} is missing`);
+      continue;
+    }
+    if (definition.level !== level) {
+      errors.push(`Tier ${level} has level ${definition.level}`);
+    }
+    if (typeof definition.minPercentage !== 'number' || definition.minPercentage < 0 || definition.minPercentage > 100) {
+      errors.push(`Tier ${level} minPercentage must be between 0 and 100`);
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (tiers[1].minPercentage !== 0) {
+    errors.push('Tier 1 minPercentage must be 0');
+  }
+  for (const level of [2, 3, 4, 5] as TierLevel[]) {
+    const previous = tiers[(level - 1) as TierLevel];
+    if (tiers[level].minPercentage <= previous.minPercentage) {
+      errors.push(
+        `Tier ${level} minPercentage (${tiers[level].minPercentage}) must be above tier ${level - 1} (${previous.minPercentage})`
+      );
+    }
+    if (
+      tiers[level].minScaledScore !== undefined &&
+      previous.minScaledScore !== undefined &&
+      tiers[level].minScaledScore! <= previous.minScaledScore!
+    ) {
+      errors.push(`Tier ${level} minScaledScore must be above tier ${level - 1}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate performance classification thresholds
+ *
+ * @returns Error messages (empty if the thresholds are valid)
+ */
+export function validatePerformanceThresholds(thresholds: PerformanceThresholds): string[] {
+  const errors: string[] = [];
+
+  for (const key of CLASSIFICATION_KEYS) {
+    const range = thresholds?.[key];
+    if (!range || typeof range.min !== 'number' || typeof range.max !== 'number') {
+      errors.push(`Performance threshold ${key} must have a numeric min and max`);
+      continue;
+    }
+    if (range.min < 0 || range.max > 100 || range.min > range.max) {
+      errors.push(`Performance threshold ${key} must satisfy 0 <= min <= max <= 100`);
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (thresholds.CRITICAL_WEAKNESS.min !== 0) {
+    errors.push('Performance threshold CRITICAL_WEAKNESS min must be 0');
+  }
+  for (let i = 1; i < CLASSIFICATION_KEYS.length; i++) {
+    const key = CLASSIFICATION_KEYS[i];
+    const previous = CLASSIFICATION_KEYS[i - 1];
+    if (thresholds[key].min <= thresholds[previous].min) {
+      errors.push(
+        `Performance threshold ${key} min (${thresholds[key].min}) must be above ${previous} (${thresholds[previous].min})`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Save a tier configuration as JSON
+ */
+export function saveTierConfiguration(configuration: TierConfiguration, filePath: string): void {
+  fs.writeFileSync(filePath, JSON.stringify(configuration, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Load and validate a tier configuration
+ *
+ * Configurations saved without performance thresholds get PERFORMANCE_THRESHOLDS.
+ */
+export function loadTierConfiguration(filePath: string): TierConfiguration {
+  const configuration: TierConfiguration = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  configuration.performanceThresholds = configuration.performanceThresholds ?? PERFORMANCE_THRESHOLDS;
+  const errors = configuration.id
+    ? [
+      ...validateTierDefinitions(configuration.tiers),
+      ...validatePerformanceThresholds(configuration.performanceThresholds),
+    ]
+    : ['Configuration must have an id'];
+  if (errors.length > 0) {
+    throw new Error(`${filePath} is not a valid tier configuration: ${errors.join('; ')}`);
+  }
+  return configuration;
+}
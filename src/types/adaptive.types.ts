@@ -0,0 +1,109 @@
+/**
+ * Type Definitions for Computerized Adaptive Testing
+ *
+ * This file contains TypeScript interfaces for adaptive session
+ * configuration, session state, and stopping rules.
+ */
+
+import { CategoryName, CatStopReason } from './assessment.types';
+
+// ============================================================================
+// Configuration Types
+// ============================================================================
+
+/**
+ * Adaptive session configuration
+ */
+export interface CatConfig {
+  /** Maximum number of questions to administer */
+  maxItems: number;
+
+  /** Minimum number of questions before the standard-error rule can stop the session (default 1) */
+  minItems?: number;
+
+  /** Stop once the ability standard error is at or below this value */
+  standardErrorTarget?: number;
+
+  /**
+   * Target share of questions per category (normalized to sum to 1).
+   * Defaults to an equal share for every category in the item pool.
+   */
+  contentTargets?: Partial<Record<CategoryName, number>>;
+
+  /** Ability to start from before any responses (default 0) */
+  startingTheta?: number;
+
+  /**
+   * Pick randomly among this many most-informative questions, limiting
+   * exposure of the single best item (default 1 = always the best)
+   */
+  randomesque?: number;
+
+  /** Seed for randomesque selection (default: `${assessmentId}:${userId}`) */
+  seed?: string;
+}
+
+// ============================================================================
+// Session Types
+// ============================================================================
+
+/**
+ * A question administered during an adaptive session
+ */
+export interface CatAdministeredItem {
+  /** Question ID */
+  questionId: string;
+
+  /** Question category */
+  category: CategoryName;
+
+  /** Candidate's answer */
+  userAnswers: number[];
+
+  /** Item score from 0 to 1 */
+  score: number;
+
+  /** Ability estimate after this response */
+  thetaAfter: number;
+
+  /** Standard error after this response */
+  standardErrorAfter: number;
+
+  /** Time spent in seconds (if recorded) */
+  timeSpent?: number;
+}
+
+/**
+ * State of an adaptive session
+ *
+ * Sessions hold question IDs only, so they can be stored as JSON between
+ * requests; the item pool is passed to each engine call.
+ */
+export interface CatSession {
+  /** Assessment ID */
+  assessmentId: string;
+
+  /** User ID */
+  userId: string;
+
+  /** Session configuration */
+  config: CatConfig;
+
+  /** Questions administered so far, in order */
+  administered: CatAdministeredItem[];
+
+  /** ID of the question awaiting a response (if any) */
+  pendingQuestionId?: string;
+
+  /** Current ability estimate */
+  theta: number;
+
+  /** Current standard error */
+  standardError: number;
+
+  /** Whether the session is still running */
+  status: 'active' | 'complete';
+
+  /** Why the session stopped (when complete) */
+  stopReason?: CatStopReason;
+}
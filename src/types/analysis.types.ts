@@ -5,7 +5,16 @@
  * identifying strengths and weaknesses, and calculating consistency metrics.
  */
 
-import { CategoryName, CategorySummary, TierLevel, PerformanceClassification } from './assessment.types';
+import {
+  CategoryComparison,
+  CategoryName,
+  CategorySummary,
+  ComparativeAnalysis,
+  TierLevel,
+  PerformanceClassification,
+  QuestionType,
+  ResponseStatus,
+} from './assessment.types';
 
 // ============================================================================
 // Classification Types
@@ -50,10 +59,10 @@ export interface PerformanceAnalysis {
   /** Categories scoring 60-74% */
   adequate: CategorySummary[];
 
-  /** Categories scoring 45-59% */
+  /** Categories scoring 45-59% (or lower, when the confidence interval is too wide to tell) */
   weaknesses: CategorySummary[];
 
-  /** Categories scoring 0-44% */
+  /** Categories scoring 0-44% with a confidence interval inside that range */
   criticalWeaknesses: CategorySummary[];
 
   /** Consistency score (0-100) - measures variance across categories */
@@ -67,6 +76,9 @@ export interface PerformanceAnalysis {
 
   /** Average score across all test-takers (optional) */
   averageScore?: number;
+
+  /** Comparison against norms (optional - when norms are supplied) */
+  comparative?: ComparativeAnalysis;
 }
 
 /**
@@ -145,48 +157,8 @@ export interface ProfileAnalysis {
 // Comparative Analysis
 // ============================================================================
 
-/**
- * Comparison to benchmark or other users
- */
-export interface ComparativeAnalysis {
-  /** User's overall score */
-  userScore: number;
-
-  /** Benchmark/average score */
-  benchmarkScore: number;
-
-  /** Difference from benchmark */
-  difference: number;
-
-  /** Percentile rank (0-100) */
-  percentile: number;
-
-  /** Performance relative to benchmark */
-  relativePerformance: 'above-average' | 'average' | 'below-average';
-
-  /** Category-by-category comparison */
-  categoryComparisons: CategoryComparison[];
-}
-
-/**
- * Comparison for a single category
- */
-export interface CategoryComparison {
-  /** Category name */
-  category: CategoryName;
-
-  /** User's score */
-  userScore: number;
-
-  /** Benchmark score */
-  benchmarkScore: number;
-
-  /** Difference */
-  difference: number;
-
-  /** Relative performance */
-  relativePerformance: 'above-average' | 'average' | 'below-average';
-}
+// Defined alongside the assessment result, which carries them
+export { ComparativeAnalysis, CategoryComparison };
 
 // ============================================================================
 // Improvement Analysis
@@ -234,3 +206,675 @@ export interface CategoryImprovement {
   /** Estimated effort */
   effort: 'low' | 'medium' | 'high';
 }
+
+// ============================================================================
+// Local Dependence Analysis
+// ============================================================================
+
+/**
+ * Residual correlation between two questions in the same group
+ */
+export interface QuestionPairDependence {
+  /** First question ID */
+  questionA: string;
+
+  /** Second question ID */
+  questionB: string;
+
+  /** Correlation of the two questions' residuals after controlling for rest score (Q3) */
+  residualCorrelation: number;
+
+  /** Whether the correlation exceeds the dependence threshold */
+  flagged: boolean;
+}
+
+/**
+ * Local dependence statistics for a question group
+ */
+export interface GroupDependence {
+  /** Group ID */
+  groupId: string;
+
+  /** Number of questions in the group */
+  questionCount: number;
+
+  /** Number of results that included the group */
+  sampleSize: number;
+
+  /** Mean residual correlation across all question pairs */
+  meanResidualCorrelation: number;
+
+  /** Largest residual correlation across all question pairs */
+  maxResidualCorrelation: number;
+
+  /** Pair-by-pair statistics */
+  pairs: QuestionPairDependence[];
+
+  /** Whether any pair in the group exceeds the threshold */
+  flagged: boolean;
+}
+
+/**
+ * Local dependence report across a cohort of results
+ */
+export interface LocalDependenceReport {
+  /** Number of results analyzed */
+  sampleSize: number;
+
+  /** Residual correlation above which a pair is flagged */
+  threshold: number;
+
+  /** Statistics for each question group */
+  groups: GroupDependence[];
+}
+
+// ============================================================================
+// Item Analysis
+// ============================================================================
+
+/**
+ * Reason a question is flagged by item analysis
+ */
+export type ItemFlag =
+  | 'tooEasy'                  // p-value above the easy threshold
+  | 'tooHard'                  // p-value below the hard threshold
+  | 'negativeDiscrimination';  // Corrected item-total correlation below zero
+
+/**
+ * Classical statistics for a single question across a cohort
+ */
+export interface ItemStatistics {
+  /** Question ID */
+  questionId: string;
+
+  /** Question category */
+  category: CategoryName;
+
+  /** Question type */
+  type: QuestionType;
+
+  /** Number of results that included the question */
+  responseCount: number;
+
+  /** Number of responses counted in the statistics (excluded responses are left out) */
+  scoredCount: number;
+
+  /** Difficulty: mean item score (earned / max points), 0-1, higher = easier */
+  pValue: number;
+
+  /** Correlation of item score with total score */
+  pointBiserial: number;
+
+  /** Correlation of item score with total score excluding this question */
+  correctedItemTotal: number;
+
+  /** Share of responses not answered (omitted, not reached or timed out, 0-1) */
+  omissionRate: number;
+
+  /** Number of responses with each response status */
+  responseCounts: Record<ResponseStatus, number>;
+
+  /** Mean time spent in seconds (null if no times were recorded) */
+  meanTimeSpent: number | null;
+
+  /** Reasons the question needs review */
+  flags: ItemFlag[];
+}
+
+/**
+ * Item analysis summary for a category
+ */
+export interface CategoryItemAnalysis {
+  /** Category name */
+  category: CategoryName;
+
+  /** Number of questions analyzed */
+  itemCount: number;
+
+  /** Mean p-value of the category's questions */
+  meanPValue: number;
+
+  /** Mean corrected item-total correlation of the category's questions */
+  meanDiscrimination: number;
+
+  /** IDs of flagged questions */
+  flaggedQuestions: string[];
+}
+
+/**
+ * Item analysis report across a cohort of results
+ */
+export interface ItemAnalysisReport {
+  /** Number of results analyzed */
+  sampleSize: number;
+
+  /** Statistics for every question */
+  items: ItemStatistics[];
+
+  /** Summary for each category */
+  categories: CategoryItemAnalysis[];
+
+  /** Number of flagged questions */
+  flaggedCount: number;
+}
+
+// ============================================================================
+// Distractor Analysis
+// ============================================================================
+
+/**
+ * Ability group a candidate falls in (by total earned points)
+ */
+export type AbilityGroup = 'lower' | 'middle' | 'upper';
+
+/**
+ * Selection statistics for a single answer option
+ */
+export interface OptionStatistics {
+  /** Answer option index */
+  optionId: number;
+
+  /** Answer option text */
+  text: string;
+
+  /** Whether the option is part of the key */
+  isKey: boolean;
+
+  /** Share of responses selecting the option (0-1) */
+  selectionRate: number;
+
+  /** Share of responses selecting the option within each ability group (0-1) */
+  selectionRateByGroup: Record<AbilityGroup, number>;
+
+  /** Upper-group selection rate minus lower-group selection rate */
+  discrimination: number;
+
+  /** Distractor chosen by almost nobody */
+  nonFunctioning: boolean;
+
+  /** Distractor chosen by upper-group candidates more often than the key */
+  likelyMiskey: boolean;
+}
+
+/**
+ * Distractor analysis for a single question
+ */
+export interface QuestionDistractorAnalysis {
+  /** Question ID */
+  questionId: string;
+
+  /** Question category */
+  category: CategoryName;
+
+  /** Question type */
+  type: QuestionType;
+
+  /** Number of results that included the question */
+  responseCount: number;
+
+  /** Share of responses not answered (omitted, not reached or timed out, 0-1) */
+  omissionRate: number;
+
+  /** Number of responses with each response status */
+  responseCounts: Record<ResponseStatus, number>;
+
+  /** Statistics for every answer option */
+  options: OptionStatistics[];
+
+  /** Indices of non-functioning distractors */
+  nonFunctioningDistractors: number[];
+
+  /** Indices of distractors that look like the real key */
+  likelyMiskeys: number[];
+}
+
+/**
+ * Distractor analysis report across a cohort of results
+ */
+export interface DistractorAnalysisReport {
+  /** Number of results analyzed */
+  sampleSize: number;
+
+  /** Number of candidates in each ability group */
+  groupSizes: Record<AbilityGroup, number>;
+
+  /** Analysis for each multiple choice and multiple select question */
+  questions: QuestionDistractorAnalysis[];
+}
+
+// ============================================================================
+// Reliability
+// ============================================================================
+
+/**
+ * Reliability coefficient reported (KR-20 when every question is scored right/wrong)
+ */
+export type ReliabilityCoefficient = 'alpha' | 'KR-20';
+
+/**
+ * Reliability if a single question were removed
+ */
+export interface ItemDeletionStatistic {
+  /** Question ID */
+  questionId: string;
+
+  /** Coefficient alpha of the remaining questions */
+  alphaIfDeleted: number;
+}
+
+/**
+ * Reliability statistics for a set of questions
+ */
+export interface ReliabilityStatistics {
+  /** Number of questions included */
+  itemCount: number;
+
+  /** Number of results analyzed */
+  sampleSize: number;
+
+  /** Coefficient reported in `alpha` */
+  coefficient: ReliabilityCoefficient;
+
+  /** Cronbach's alpha / KR-20 (internal consistency) */
+  alpha: number;
+
+  /** Correlation between odd and even question halves */
+  splitHalf: number;
+
+  /** Split-half correlation stepped up to full length (Spearman-Brown) */
+  spearmanBrown: number;
+
+  /** Maximum points across the questions */
+  maxPoints: number;
+
+  /** Mean total earned points */
+  meanScore: number;
+
+  /** Standard deviation of total earned points */
+  standardDeviation: number;
+
+  /** Standard error of measurement in points */
+  standardErrorOfMeasurement: number;
+
+  /** Standard error of measurement in percentage points */
+  standardErrorPercentage: number;
+
+  /** Alpha with each question removed */
+  alphaIfItemDeleted: ItemDeletionStatistic[];
+}
+
+/**
+ * Reliability statistics for a category
+ */
+export interface CategoryReliability extends ReliabilityStatistics {
+  /** Category name */
+  category: CategoryName;
+
+  /** Whether the category is reliable enough to report on its own */
+  reportable: boolean;
+
+  /** Reasons the category is not reportable */
+  issues: string[];
+}
+
+/**
+ * Test-level reliability report across a cohort of results
+ */
+export interface ReliabilityReport {
+  /** Reliability of the whole test */
+  overall: ReliabilityStatistics;
+
+  /** Reliability of each category */
+  categories: CategoryReliability[];
+
+  /** Questions left out because not every result includes them */
+  excludedQuestions: string[];
+}
+
+// ============================================================================
+// Differential Item Functioning
+// ============================================================================
+
+/**
+ * ETS DIF severity class
+ */
+export type DifClass =
+  | 'A'   // Negligible
+  | 'B'   // Slight to moderate
+  | 'C';  // Moderate to large
+
+/**
+ * Group a question favors, at equal total score
+ */
+export type DifDirection = 'reference' | 'focal' | 'none';
+
+/**
+ * Mantel-Haenszel DIF statistics for a question
+ */
+export interface MantelHaenszelDif {
+  /** Common odds ratio of answering correctly, reference over focal */
+  commonOddsRatio: number;
+
+  /** MH D-DIF on the ETS delta metric (-2.35 × ln odds ratio; negative favors the reference group) */
+  deltaDif: number;
+
+  /** Standard error of MH D-DIF */
+  standardError: number;
+
+  /** MH chi-square with continuity correction */
+  chiSquare: number;
+
+  /** Significance of the chi-square (df = 1) */
+  pValue: number;
+
+  /** Number of total-score strata containing both groups */
+  strataCount: number;
+
+  /** ETS severity class */
+  etsClass: DifClass;
+}
+
+/**
+ * Logistic-regression DIF statistics for a question
+ */
+export interface LogisticRegressionDif {
+  /** Chi-square for adding group to total score (uniform DIF, df = 1) */
+  uniformChiSquare: number;
+
+  /** Significance of the uniform DIF chi-square */
+  uniformPValue: number;
+
+  /** Chi-square for adding the group × total interaction (non-uniform DIF, df = 1) */
+  nonUniformChiSquare: number;
+
+  /** Significance of the non-uniform DIF chi-square */
+  nonUniformPValue: number;
+
+  /** Chi-square for adding both group terms (df = 2) */
+  totalChiSquare: number;
+
+  /** Significance of the combined chi-square */
+  totalPValue: number;
+
+  /** Nagelkerke R² gained by adding both group terms */
+  rSquaredChange: number;
+
+  /** Effect-size class (Jodoin-Gierl cut-offs on the R² change) */
+  effectClass: DifClass;
+
+  /** Group coefficient in the uniform model (negative favors the reference group) */
+  groupCoefficient: number;
+}
+
+/**
+ * DIF analysis for a single question
+ */
+export interface QuestionDif {
+  /** Question ID */
+  questionId: string;
+
+  /** Question category */
+  category: CategoryName;
+
+  /** Question type */
+  type: QuestionType;
+
+  /** Number of responses in each group */
+  responseCounts: { reference: number; focal: number };
+
+  /** Share answering correctly in each group (0-1), before matching on total score */
+  proportionCorrect: { reference: number; focal: number };
+
+  /** Mantel-Haenszel statistics (null if no stratum separates right from wrong) */
+  mantelHaenszel: MantelHaenszelDif | null;
+
+  /** Logistic-regression statistics (null if every response was right or every response wrong) */
+  logisticRegression: LogisticRegressionDif | null;
+
+  /** ETS severity class (from Mantel-Haenszel) */
+  etsClass: DifClass;
+
+  /** Group the question favors */
+  favors: DifDirection;
+
+  /** Whether the question needs fairness review (ETS B/C, or B/C logistic-regression effect) */
+  flagged: boolean;
+}
+
+/**
+ * Fairness summary for a category
+ */
+export interface CategoryFairness {
+  /** Category name */
+  category: CategoryName;
+
+  /** Number of questions analyzed */
+  itemCount: number;
+
+  /** Number of questions in each ETS class */
+  classCounts: Record<DifClass, number>;
+
+  /** Sum of MH D-DIF across the category (DIF that accumulates rather than cancels) */
+  netDeltaDif: number;
+
+  /** IDs of flagged questions favoring the reference group */
+  favorsReference: string[];
+
+  /** IDs of flagged questions favoring the focal group */
+  favorsFocal: string[];
+
+  /** IDs of flagged questions */
+  flaggedQuestions: string[];
+
+  /** Whether the category has no C-class questions */
+  fair: boolean;
+}
+
+/**
+ * DIF analysis of one focal group against the reference group
+ */
+export interface DifComparison {
+  /** Reference group */
+  referenceGroup: string;
+
+  /** Focal group */
+  focalGroup: string;
+
+  /** Number of results in each group */
+  sampleSizes: { reference: number; focal: number };
+
+  /** Analysis for each question with enough responses in both groups */
+  questions: QuestionDif[];
+
+  /** Fairness summary for each category */
+  categories: CategoryFairness[];
+
+  /** Questions left out for too few responses in either group */
+  skippedQuestions: string[];
+
+  /** Number of flagged questions */
+  flaggedCount: number;
+}
+
+/**
+ * DIF report across a cohort of results
+ */
+export interface DifReport {
+  /** Reference group */
+  referenceGroup: string;
+
+  /** Comparison against each focal group */
+  comparisons: DifComparison[];
+
+  /** Number of results without a group */
+  ungroupedCount: number;
+
+  /** Focal groups left out and other problems */
+  issues: string[];
+}
+
+// ============================================================================
+// Adverse Impact
+// ============================================================================
+
+/**
+ * Outcome used as a screening gate
+ */
+export type SelectionGateType =
+  | 'tier'        // Overall tier at or above a level
+  | 'readiness';  // Role readiness at or above a level
+
+/**
+ * Screening gate: candidates at or above the cut are selected
+ */
+export interface SelectionGate {
+  /** Gate ID (e.g. 'tier-3', 'readiness-high') */
+  id: string;
+
+  /** Outcome the gate screens on */
+  type: SelectionGateType;
+
+  /** Lowest tier or readiness level that passes */
+  level: TierLevel | 'medium' | 'high';
+
+  /** Lowest overall percentage that passes */
+  minPercentage: number;
+
+  /** Human-readable description */
+  label: string;
+}
+
+/**
+ * Selection rate of one group at a gate
+ */
+export interface GroupSelectionRate {
+  /** Group name */
+  group: string;
+
+  /** Number of candidates in the group */
+  count: number;
+
+  /** Number of candidates passing the gate */
+  selected: number;
+
+  /** Share passing the gate (0-1) */
+  selectionRate: number;
+
+  /** Selection rate divided by the highest group's selection rate */
+  impactRatio: number;
+
+  /** Two-proportion z statistic against the highest group (negative = lower rate) */
+  zScore: number;
+
+  /** Two-sided significance of the z-test */
+  zPValue: number;
+
+  /** Two-sided significance of Fisher's exact test against the highest group */
+  fisherPValue: number;
+
+  /** Impact ratio below four-fifths */
+  adverseImpact: boolean;
+
+  /** Difference from the highest group is statistically significant (Fisher's exact test) */
+  significant: boolean;
+}
+
+/**
+ * Adverse impact at a single gate
+ */
+export interface GateImpact {
+  /** Gate */
+  gate: SelectionGate;
+
+  /** Group with the highest selection rate */
+  comparisonGroup: string;
+
+  /** Share of all grouped candidates passing the gate (0-1) */
+  overallSelectionRate: number;
+
+  /** Selection rate for each group */
+  groups: GroupSelectionRate[];
+
+  /** Groups with an impact ratio below four-fifths */
+  adverselyImpactedGroups: string[];
+}
+
+/**
+ * Adverse impact report across a cohort of results
+ */
+export interface AdverseImpactReport {
+  /** Number of grouped results analyzed */
+  sampleSize: number;
+
+  /** Number of results in each group */
+  groupSizes: Record<string, number>;
+
+  /** Number of results without a group */
+  ungroupedCount: number;
+
+  /** Impact at each gate */
+  gates: GateImpact[];
+
+  /** IDs of gates where some group falls below four-fifths */
+  flaggedGates: string[];
+
+  /** Small groups and other caveats */
+  issues: string[];
+}
+
+/**
+ * Change in one group's outcome at a gate when cuts move
+ */
+export interface GroupImpactChange {
+  /** Group name */
+  group: string;
+
+  /** Selection rate with the current cuts (0-1) */
+  baselineSelectionRate: number;
+
+  /** Selection rate with the proposed cuts (0-1) */
+  proposedSelectionRate: number;
+
+  /** Impact ratio with the current cuts */
+  baselineImpactRatio: number;
+
+  /** Impact ratio with the proposed cuts */
+  proposedImpactRatio: number;
+}
+
+/**
+ * Change in impact at a gate when cuts move
+ */
+export interface GateImpactChange {
+  /** Gate ID */
+  gateId: string;
+
+  /** Cut with the current definitions */
+  baselineMinPercentage: number;
+
+  /** Cut with the proposed definitions */
+  proposedMinPercentage: number;
+
+  /** Change for each group */
+  groups: GroupImpactChange[];
+
+  /** Groups below four-fifths only with the proposed cuts */
+  newlyImpacted: string[];
+
+  /** Groups below four-fifths only with the current cuts */
+  resolved: string[];
+}
+
+/**
+ * Simulated effect of moving tier cuts on adverse impact
+ */
+export interface CutChangeSimulation {
+  /** Report with the current tier definitions */
+  baseline: AdverseImpactReport;
+
+  /** Report with the proposed tier definitions */
+  proposed: AdverseImpactReport;
+
+  /** Change at each gate */
+  changes: GateImpactChange[];
+}
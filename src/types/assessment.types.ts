@@ -12,7 +12,83 @@
 /**
  * Valid question types in the assessment
  */
-export type QuestionType = 'multipleChoice' | 'trueFalse' | 'multipleSelect';
+export type QuestionType =
+  | 'multipleChoice'
+  | 'trueFalse'
+  | 'multipleSelect'
+  | 'ordering'
+  | 'numericEntry'
+  | 'matching'
+  | 'grid';
+
+/**
+ * Partial credit methods for ordering questions
+ */
+export type OrderingCreditMethod =
+  | 'kendallTau'                  // Share of item pairs placed in the correct relative order
+  | 'longestCorrectSubsequence'   // Longest run of items kept in correct relative order
+  | 'allOrNothing';               // Full credit only for the exact sequence
+
+/**
+ * Matching rules for numeric entry questions
+ */
+export type NumericMatchMode =
+  | 'exact'       // Response must equal a correct value
+  | 'absolute'    // |response - correct| <= tolerance
+  | 'relative';   // |response - correct| <= tolerance × |correct|
+
+/**
+ * Written forms accepted as equivalent to a decimal numeric response
+ */
+export type NumericEquivalentForm = 'fraction' | 'percentage';
+
+/**
+ * Answer rules for numeric entry questions
+ */
+export interface NumericAnswerSpec {
+  /** How the response is compared to the correct value(s) (defaults to 'exact') */
+  match?: NumericMatchMode;
+  /** Allowed difference for 'absolute' (same units) or 'relative' (fraction, e.g. 0.05 = 5%) matching */
+  tolerance?: number;
+  /** Equivalent written forms accepted besides decimals (e.g. "3/4", "75%") */
+  acceptedForms?: NumericEquivalentForm[];
+  /** Unit the answer is expressed in (e.g. "km", "%") */
+  unit?: string;
+  /** Whether the response must include the unit */
+  unitRequired?: boolean;
+}
+
+/**
+ * Rotation of a grid cell's symbol, in degrees clockwise
+ */
+export type GridRotation = 0 | 90 | 180 | 270;
+
+/**
+ * How a grid question is answered
+ */
+export type GridAnswerMode =
+  | 'state'   // Full grid state: a symbol index for every cell
+  | 'cells';  // Coordinate set: the indices of selected cells
+
+/**
+ * Structured grid stimulus for spatial questions
+ *
+ * Cells are addressed row-major: cell index = row × columns + column.
+ */
+export interface GridDefinition {
+  /** Number of rows */
+  rows: number;
+  /** Number of columns */
+  columns: number;
+  /** Symbols that can occupy a cell (cell values index into this array) */
+  symbols: string[];
+  /** Starting symbol index for each cell, row-major (-1 = empty) */
+  cells: number[];
+  /** Rotation of each cell's symbol, row-major (defaults to 0 for every cell) */
+  rotations?: GridRotation[];
+  /** Whether the answer is a grid state or a set of cells */
+  answerMode: GridAnswerMode;
+}
 
 /**
  * Valid assessment categories (8 cognitive skill areas)
@@ -27,6 +103,35 @@ export type CategoryName =
   | 'Mathematical Reasoning'
   | 'Rule Application';
 
+/**
+ * Item response theory model
+ */
+export type IrtModel =
+  | '1PL'  // Difficulty only (Rasch)
+  | '2PL'  // Difficulty and discrimination
+  | '3PL'; // Difficulty, discrimination and guessing
+
+/**
+ * Item response theory parameters of a question
+ *
+ * P(correct | theta) = guessing + (1 - guessing) / (1 + e^(-discrimination × (theta - difficulty)))
+ */
+export interface ItemParameters {
+  /** Model the parameters belong to (inferred from the parameters present if omitted) */
+  model?: IrtModel;
+  /** Difficulty (b): ability at which the item is most informative */
+  difficulty: number;
+  /** Discrimination (a): slope at the difficulty (defaults to 1; ignored for 1PL) */
+  discrimination?: number;
+  /** Pseudo-guessing (c): lower asymptote (defaults to 0; ignored for 1PL and 2PL) */
+  guessing?: number;
+}
+
+/**
+ * Difficulty rating of a question (used by form blueprints)
+ */
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
 /**
  * Answer option within a question
  */
@@ -49,14 +154,100 @@ export interface Question {
   type: QuestionType;
   /** Assessment category this question belongs to */
   category: CategoryName;
-  /** Array of possible answers */
+  /** Array of possible answers (empty for numeric entry and grid; the right-hand responses for matching) */
   answers: Answer[];
-  /** Array of indices pointing to correct answer(s) */
+  /**
+   * Array of indices pointing to correct answer(s)
+   * (for ordering: the correct sequence; for numeric entry: the accepted values;
+   * for matching: the response index for each premise; for grid: the expected
+   * grid state or cell indices, depending on grid.answerMode)
+   */
   correctAnswers: number[];
   /** Base points awarded for answering correctly */
   score: number;
   /** Category weight/importance (typically 1-5) */
   weight: number;
+  /** Partial credit method for ordering questions (defaults to 'kendallTau') */
+  orderingCredit?: OrderingCreditMethod;
+  /** Answer rules for numeric entry questions */
+  numericAnswer?: NumericAnswerSpec;
+  /** Left-hand items to be matched to responses in answers (matching questions) */
+  premises?: Answer[];
+  /** Grid stimulus (grid questions) */
+  grid?: GridDefinition;
+  /** Whether answer options may be shuffled per candidate (defaults to true) */
+  shuffleAnswers?: boolean;
+  /** Difficulty rating (used for blueprint difficulty spread) */
+  difficulty?: QuestionDifficulty;
+  /** Item response theory parameters (used by adaptive testing) */
+  irt?: ItemParameters;
+  /** Registered scoring strategy for this question (overrides ScoringOptions.scoringStrategy) */
+  scoringStrategy?: string;
+}
+
+/**
+ * Group of questions sharing one stimulus (e.g. a passage, rule set or flow diagram)
+ *
+ * Group questions are always delivered together and scored together.
+ */
+export interface QuestionGroup {
+  /** Unique identifier for the group */
+  id: string;
+  /** Optional title shown above the stimulus */
+  title?: string;
+  /** Shared stimulus presented with every question in the group */
+  stimulus: string;
+  /** Child questions that refer to the stimulus */
+  questions: Question[];
+}
+
+/**
+ * Question bank: standalone questions plus optional question groups
+ * (the shape of templates/sample-questions.json)
+ */
+export interface QuestionBank {
+  /** Standalone questions */
+  questions: Question[];
+  /** Question groups sharing a stimulus */
+  questionGroups?: QuestionGroup[];
+}
+
+// ============================================================================
+// Presentation Types
+// ============================================================================
+
+/**
+ * How a single question was presented to a candidate
+ */
+export interface QuestionPresentation {
+  /** Question ID */
+  questionId: string;
+  /** Position of the question in the presented order (0-based) */
+  position: number;
+  /** Canonical answer index shown at each presented option position */
+  answerOrder: number[];
+}
+
+/**
+ * Per-candidate presentation of an assessment (question order and option order)
+ */
+export interface AssessmentPresentation {
+  /** Seed the presentation was generated from */
+  seed: string;
+  /** Questions in presented order */
+  questions: QuestionPresentation[];
+}
+
+/**
+ * Audit record of a presented response
+ */
+export interface PresentedResponse {
+  /** Position of the question in the presented order (0-based) */
+  position: number;
+  /** Canonical answer index shown at each presented option position */
+  answerOrder: number[];
+  /** Answer exactly as submitted, in presented option indices */
+  presentedAnswers: number[];
 }
 
 // ============================================================================
@@ -93,6 +284,19 @@ export interface TierDefinition {
   maxPercentage: number;
   description: string;
   color: string;
+  /** Lowest scaled score in this tier (when tiers are expressed on a scaled metric) */
+  minScaledScore?: number;
+}
+
+/**
+ * Percentage range of each performance classification
+ */
+export interface PerformanceThresholds {
+  EXCEPTIONAL: { min: number; max: number };
+  STRENGTH: { min: number; max: number };
+  ADEQUATE: { min: number; max: number };
+  WEAKNESS: { min: number; max: number };
+  CRITICAL_WEAKNESS: { min: number; max: number };
 }
 
 // ============================================================================
@@ -113,8 +317,103 @@ export interface PartialCreditDetails {
   correctRatio: number;
   /** Penalty factor for incorrect selections (0-1) */
   penaltyFactor: number;
+  /** Share of points awarded, when a scoring strategy does not multiply the two above (0-1) */
+  creditRatio?: number;
+}
+
+/**
+ * Partial credit details for ordering questions
+ */
+export interface OrderingCreditDetails {
+  /** Partial credit method that was applied */
+  method: OrderingCreditMethod;
+  /** For each position in the correct sequence, whether the user placed the right item there */
+  positionResults: boolean[];
+  /** Number of positions holding the correct item */
+  correctPositions: number;
+  /** Number of positions in the correct sequence */
+  totalPositions: number;
+  /** Number of item pairs placed in the correct relative order */
+  concordantPairs: number;
+  /** Number of item pairs placed in the wrong relative order */
+  discordantPairs: number;
+  /** Length of the longest subsequence kept in correct relative order */
+  longestCorrectSubsequence: number;
+  /** Credit ratio under the applied method (0-1) */
+  creditRatio: number;
+}
+
+/**
+ * A single premise-to-response pair made in a matching question
+ */
+export interface MatchedPair {
+  /** Premise index */
+  premise: number;
+  /** Response index chosen by the user (null if left unmatched) */
+  response: number | null;
+  /** Correct response index for this premise */
+  correctResponse: number;
+  /** Whether the pair is correct */
+  isCorrect: boolean;
+}
+
+/**
+ * Partial credit details for matching questions
+ */
+export interface MatchingCreditDetails {
+  /** Every pair the user made, one per premise */
+  pairs: MatchedPair[];
+  /** Number of correct pairs */
+  correctPairs: number;
+  /** Number of premises to be matched */
+  totalPairs: number;
+  /** Ratio of correct pairs to total pairs (0-1) */
+  creditRatio: number;
+}
+
+/**
+ * Result for a single scored cell in a grid question
+ */
+export interface GridCellResult {
+  /** Cell index (row-major) */
+  cell: number;
+  /** Row of the cell (0-based) */
+  row: number;
+  /** Column of the cell (0-based) */
+  column: number;
+  /** Expected value (symbol index in state mode, 1/0 selected in cells mode) */
+  expected: number;
+  /** User's value (symbol index in state mode, 1/0 selected in cells mode) */
+  actual: number;
+  /** Whether the cell is correct */
+  isCorrect: boolean;
+}
+
+/**
+ * Partial credit details for grid questions
+ */
+export interface GridCreditDetails {
+  /** How the grid was answered */
+  answerMode: GridAnswerMode;
+  /** Results for every scored cell */
+  cellResults: GridCellResult[];
+  /** Number of scored cells that are correct */
+  correctCells: number;
+  /** Number of cells that were scored */
+  scoredCells: number;
+  /** Ratio of correct cells to scored cells (0-1) */
+  creditRatio: number;
 }
 
+/**
+ * Question-type-specific partial credit details
+ */
+export type QuestionCreditDetails =
+  | PartialCreditDetails
+  | OrderingCreditDetails
+  | MatchingCreditDetails
+  | GridCreditDetails;
+
 /**
  * Result for a single question
  */
@@ -127,7 +426,11 @@ export interface QuestionResult {
   type: QuestionType;
 
   // User response
-  /** Indices selected by user */
+  /**
+   * Canonical indices selected by user (for ordering: the submitted sequence; for numeric entry:
+   * the value; for matching: the response chosen for each premise; for grid: the
+   * grid state or selected cell indices)
+   */
   userAnswers: number[];
   /** Correct answer indices */
   correctAnswers: number[];
@@ -146,14 +449,120 @@ export interface QuestionResult {
   /** Whether partial credit was awarded */
   isPartialCredit: boolean;
 
-  // Partial credit details (for multipleSelect only)
-  partialCreditDetails?: PartialCreditDetails;
+  // Partial credit details (for multipleSelect, ordering, matching and grid)
+  partialCreditDetails?: QuestionCreditDetails;
 
   // Metadata
   /** Weight of this question */
   weight: number;
   /** Time spent on question in seconds (optional) */
   timeSpent?: number;
+  /** ID of the question group this question belongs to (if any) */
+  groupId?: string;
+  /** How the question was presented (when scored from a shuffled presentation) */
+  presentation?: PresentedResponse;
+  /** Scoring strategy used (omitted for the question type's default) */
+  scoringStrategy?: string;
+  /** Raw and corrected points (multiple choice and true/false, when formula scoring is on) */
+  formulaScore?: QuestionFormulaScore;
+  /** Whether the question was answered, and why not if it was not */
+  responseStatus: ResponseStatus;
+  /** Whether the response policy left the question out of the score (maxPoints and weight are 0) */
+  excluded?: boolean;
+}
+
+/**
+ * Response status of a question
+ */
+export type ResponseStatus =
+  | 'answered'    // At least one answer was given
+  | 'omitted'     // Skipped; a later question was answered
+  | 'notReached'  // Unanswered, and no later question was answered
+  | 'timedOut';   // The question's time ran out before an answer was given
+
+/**
+ * Response status of an unanswered question
+ */
+export type UnansweredStatus = Exclude<ResponseStatus, 'answered'>;
+
+/**
+ * How an unanswered question is scored
+ */
+export type UnansweredScoring =
+  | 'incorrect'  // 0 points out of the question's points
+  | 'excluded';  // Left out of the earned and maximum points
+
+/**
+ * How each unanswered status is scored (default: every status is 'incorrect')
+ */
+export type ResponsePolicy = Partial<Record<UnansweredStatus, UnansweredScoring>>;
+
+/**
+ * How wrong answers are penalized under formula scoring
+ */
+export type FormulaScoringMode =
+  | 'guessingCorrection'  // Deduct points / (answer options - 1), so blind guessing nets zero on average
+  | 'negativeMarking';    // Deduct a fixed share of the question's points
+
+/**
+ * Formula scoring options
+ */
+export interface FormulaScoringOptions {
+  /** Penalty rule for wrong answers */
+  mode: FormulaScoringMode;
+  /** Share of the question's points deducted per wrong answer under negative marking (default 0.25) */
+  penalty?: number;
+}
+
+/**
+ * Formula score of a single question
+ */
+export interface QuestionFormulaScore {
+  /** Penalty rule applied */
+  mode: FormulaScoringMode;
+  /** Points before the penalty */
+  rawPoints: number;
+  /** Points after the penalty (earnedPoints; negative for a wrong answer) */
+  correctedPoints: number;
+  /** Points deducted (0 for correct and omitted answers) */
+  penaltyPoints: number;
+  /** Whether the question was left unanswered (omissions are never penalized) */
+  omitted: boolean;
+}
+
+// ============================================================================
+// Question Group Result Types
+// ============================================================================
+
+/**
+ * Result for a question group
+ */
+export interface QuestionGroupResult {
+  /** Group ID */
+  groupId: string;
+  /** Categories covered by the group's questions */
+  categories: CategoryName[];
+
+  // Scoring
+  /** Points earned across the group */
+  earnedPoints: number;
+  /** Maximum possible points */
+  maxPoints: number;
+  /** Percentage score (0-100) */
+  percentage: number;
+
+  // Questions
+  /** Number of questions in the group */
+  questionCount: number;
+  /** Number of fully correct answers */
+  correctCount: number;
+  /** Number of partial credit answers */
+  partialCreditCount: number;
+  /** Number of incorrect answers */
+  incorrectCount: number;
+
+  /** Array of question IDs in the group */
+  questions: string[];
 }
 
 // ============================================================================
@@ -200,9 +609,23 @@ export interface CategoryResult {
   partialCreditCount: number;
   /** Number of incorrect answers */
   incorrectCount: number;
+  /** Number of questions with each response status */
+  responseCounts: Record<ResponseStatus, number>;
 
   /** Array of question IDs in this category */
   questions: string[];
+
+  // Precision
+  /** Confidence interval around the percentage */
+  confidenceInterval: ConfidenceInterval;
+  /** Probability the true score falls in the reported tier (0-1) */
+  tierCertainty: number;
+
+  /** Scaled score (when a scale conversion table is supplied) */
+  scaledScore?: ScaledScore;
+
+  /** IRT ability estimate for this category (when its questions have IRT parameters) */
+  ability?: AbilityEstimate;
 }
 
 /**
@@ -217,6 +640,215 @@ export interface CategorySummary {
   tier: TierLevel;
   /** Number of questions */
   questionCount: number;
+  /** Confidence interval spans more than one performance classification */
+  uncertain?: boolean;
+}
+
+// ============================================================================
+// Score Precision Types
+// ============================================================================
+
+/**
+ * How a score confidence interval was computed
+ */
+export type ConfidenceIntervalMethod =
+  | 'wilson'  // Wilson score interval, treating each question as one trial
+  | 'sem';    // Score ± z × standard error of measurement
+
+/**
+ * Confidence interval around a percentage score
+ */
+export interface ConfidenceInterval {
+  /** Lower bound (0-100) */
+  lower: number;
+
+  /** Upper bound (0-100) */
+  upper: number;
+
+  /** Confidence level (e.g. 0.95) */
+  level: number;
+
+  /** Method used */
+  method: ConfidenceIntervalMethod;
+
+  /** Standard error in percentage points (half-width / z) */
+  standardError: number;
+}
+
+/**
+ * Known standard errors of measurement, in percentage points
+ * (e.g. `standardErrorPercentage` from reliability analysis)
+ */
+export interface ScoreStandardErrors {
+  /** Standard error of the overall percentage */
+  overall?: number;
+
+  /** Standard error of each category percentage */
+  categories?: Partial<Record<CategoryName, number>>;
+}
+
+/**
+ * Options for score confidence intervals
+ */
+export interface ScorePrecisionOptions {
+  /** Confidence level (default 0.95) */
+  confidenceLevel?: number;
+
+  /** Known standard errors; SEM intervals are used where given, Wilson otherwise */
+  standardErrors?: ScoreStandardErrors;
+}
+
+// ============================================================================
+// Scaled Score Types
+// ============================================================================
+
+/**
+ * Raw score a scale converts from
+ */
+export type ScaleSource =
+  | 'percentage'  // Percentage score (0-100)
+  | 'theta';      // IRT ability estimate
+
+/**
+ * One point of a scale conversion table
+ */
+export interface ScaleConversionPoint {
+  /** Raw score (percentage or theta) */
+  raw: number;
+
+  /** Scaled score */
+  scaled: number;
+}
+
+/**
+ * Versioned conversion from raw scores to a reporting scale
+ *
+ * Raw scores between points are interpolated linearly; raw scores outside the
+ * table map to the first or last point.
+ */
+export interface ScaleConversionTable {
+  /** Scale ID (e.g. "aptitude-200-800") */
+  id: string;
+
+  /** Table version; bump when the conversion changes */
+  version: string;
+
+  /** Raw score the table converts from */
+  source: ScaleSource;
+
+  /** Lowest reportable scaled score */
+  min: number;
+
+  /** Highest reportable scaled score */
+  max: number;
+
+  /** Decimal places scaled scores are rounded to (default 0) */
+  decimals?: number;
+
+  /** Conversion points in increasing raw order */
+  points: ScaleConversionPoint[];
+}
+
+/**
+ * Score on a reporting scale
+ */
+export interface ScaledScore {
+  /** Scaled score */
+  value: number;
+
+  /** Scale ID */
+  scaleId: string;
+
+  /** Conversion table version */
+  scaleVersion: string;
+
+  /** Raw score the value was converted from */
+  source: ScaleSource;
+
+  /** Tier on the scaled metric (when tier definitions set `minScaledScore`) */
+  tier?: TierLevel;
+}
+
+// ============================================================================
+// Norm Types
+// ============================================================================
+
+/**
+ * Score distribution of a reference population
+ */
+export interface NormDistribution {
+  /** Number of scores */
+  count: number;
+
+  /** Mean percentage */
+  mean: number;
+
+  /** Standard deviation of the percentages */
+  standardDeviation: number;
+
+  /**
+   * Percentile rank (0-100) at each whole percentage 0-100 (101 entries);
+   * scores in between are interpolated
+   */
+  percentileRanks: number[];
+}
+
+/**
+ * Norms for one reference group (the whole population or a segment)
+ */
+export interface NormGroup {
+  /** Number of results in the group */
+  sampleSize: number;
+
+  /** Distribution of overall percentages */
+  overall: NormDistribution;
+
+  /** Distribution of each category's percentages */
+  categories: Partial<Record<CategoryName, NormDistribution>>;
+}
+
+// ============================================================================
+// Ability Types
+// ============================================================================
+
+/**
+ * Ability estimation method
+ */
+export type AbilityEstimationMethod =
+  | 'EAP'  // Expected a posteriori (mean of the posterior, normal prior)
+  | 'MLE'; // Maximum likelihood
+
+/**
+ * Normal prior on ability for EAP estimation
+ */
+export interface AbilityPrior {
+  /** Prior mean (theta) */
+  mean: number;
+  /** Prior standard deviation */
+  standardDeviation: number;
+}
+
+/**
+ * Estimate of candidate ability on the theta scale
+ */
+export interface AbilityEstimate {
+  /** Ability estimate (theta, mean 0 and SD 1 in the calibration population) */
+  theta: number;
+
+  /** Standard error of the estimate */
+  standardError: number;
+
+  /** Method used */
+  method: AbilityEstimationMethod;
+
+  /** Number of responses used (questions with IRT parameters) */
+  itemCount: number;
+
+  /**
+   * Whether the estimate is at the edge of the theta range
+   * (MLE of an all-correct or all-incorrect pattern)
+   */
+  boundary?: boolean;
 }
 
 // ============================================================================
@@ -239,12 +871,70 @@ export interface OverallResult {
   tier: TierLevel;
   /** Overall tier rank */
   rank: TierRank;
+  /** Confidence interval around the percentage */
+  confidenceInterval: ConfidenceInterval;
+  /** Probability the true score falls in the reported tier (0-1) */
+  tierCertainty: number;
+  /** Scaled score (when a scale conversion table is supplied) */
+  scaledScore?: ScaledScore;
+  /** IRT ability estimate (when questions have IRT parameters) */
+  ability?: AbilityEstimate;
+  /** Raw and corrected scores (when formula scoring is on) */
+  formulaScore?: FormulaScoreSummary;
+}
+
+/**
+ * Raw and formula-corrected overall scores
+ */
+export interface FormulaScoreSummary {
+  /** Penalty rule applied */
+  mode: FormulaScoringMode;
+  /** Overall percentage without penalties */
+  rawPercentage: number;
+  /** Overall percentage with penalties (the reported percentage) */
+  correctedPercentage: number;
+  /** Total points without penalties */
+  rawPoints: number;
+  /** Total points with penalties */
+  correctedPoints: number;
+  /** Number of penalized (wrong) answers */
+  wrongCount: number;
+  /** Number of formula-scored questions left unanswered */
+  omittedCount: number;
 }
 
 // ============================================================================
 // Complete Assessment Result
 // ============================================================================
 
+/**
+ * Why an adaptive session stopped
+ */
+export type CatStopReason =
+  | 'maxItems'             // Reached the maximum number of questions
+  | 'standardErrorTarget'  // Ability estimate is precise enough
+  | 'poolExhausted';       // No questions left to administer
+
+/**
+ * Summary of an adaptive session attached to assessment metadata
+ */
+export interface AdaptiveSummary {
+  /** Final ability estimate */
+  theta: number;
+
+  /** Final standard error */
+  standardError: number;
+
+  /** Number of questions administered */
+  itemsAdministered: number;
+
+  /** Why the session stopped */
+  stopReason: CatStopReason;
+
+  /** Question IDs in the order administered */
+  administeredOrder: string[];
+}
+
 /**
  * Metadata about the assessment
  */
@@ -253,10 +943,49 @@ export interface AssessmentMetadata {
   totalQuestions: number;
   /** Number of questions answered */
   questionsAnswered: number;
+  /** Number of questions with each response status */
+  responseCounts: Record<ResponseStatus, number>;
   /** Total time spent in seconds */
   timeSpent: number;
   /** Assessment version */
   version: string;
+  /** ID of the assembled form that was delivered (if any) */
+  formId?: string;
+  /** Version of the assembled form that was delivered (if any) */
+  formVersion?: string;
+  /** Adaptive session summary (when delivered adaptively) */
+  adaptive?: AdaptiveSummary;
+  /** Equating onto the base form (when the result was equated) */
+  equating?: EquatingSummary;
+}
+
+/**
+ * How scores on one form are mapped onto the base form
+ */
+export type EquatingMethod =
+  | 'mean'            // Shift by the difference in means
+  | 'linear'          // Match means and standard deviations
+  | 'equipercentile'  // Match percentile ranks
+  | 'irtTrueScore';   // Match expected scores at equal theta
+
+/**
+ * Equating applied to a result, recorded in assessment metadata
+ */
+export interface EquatingSummary {
+  /** Equating method */
+  method: EquatingMethod;
+
+  /** Form the result was delivered on */
+  formId: string;
+
+  /** Base form the score was equated onto */
+  baseFormId: string;
+
+  /** Overall percentage on the delivered form */
+  rawPercentage: number;
+
+  /** Overall percentage on the base form's metric */
+  equatedPercentage: number;
 }
 
 /**
@@ -279,6 +1008,9 @@ export interface AssessmentResult {
   /** Question-by-question results */
   questions: QuestionResult[];
 
+  /** Question group results (when the assessment has question groups) */
+  groups?: QuestionGroupResult[];
+
   /** Performance analysis */
   analysis: PerformanceAnalysis;
 
@@ -306,6 +1038,50 @@ export interface PerformanceAnalysis {
   improvementPotential: 'high' | 'medium' | 'low';
   percentile?: number;
   averageScore?: number;
+  comparative?: ComparativeAnalysis;
+}
+
+/**
+ * Comparison to benchmark or other users
+ */
+export interface ComparativeAnalysis {
+  /** User's overall score */
+  userScore: number;
+
+  /** Benchmark/average score */
+  benchmarkScore: number;
+
+  /** Difference from benchmark */
+  difference: number;
+
+  /** Percentile rank (0-100) */
+  percentile: number;
+
+  /** Performance relative to benchmark */
+  relativePerformance: 'above-average' | 'average' | 'below-average';
+
+  /** Category-by-category comparison */
+  categoryComparisons: CategoryComparison[];
+}
+
+/**
+ * Comparison for a single category
+ */
+export interface CategoryComparison {
+  /** Category name */
+  category: CategoryName;
+
+  /** User's score */
+  userScore: number;
+
+  /** Benchmark score */
+  benchmarkScore: number;
+
+  /** Difference */
+  difference: number;
+
+  /** Relative performance */
+  relativePerformance: 'above-average' | 'average' | 'below-average';
 }
 
 // ============================================================================
@@ -370,10 +1146,23 @@ export interface AssessmentInput {
   userId: string;
   /** Array of questions */
   questions: Question[];
+  /** Question groups sharing a stimulus (scored alongside questions) */
+  questionGroups?: QuestionGroup[];
   /** User's answers (map of question ID to selected answer indices) */
   userAnswers: Record<string, number[]>;
   /** Time spent on each question (optional) */
   timeSpent?: Record<string, number>;
+  /**
+   * Why questions were left unanswered, as recorded by the delivery (e.g. 'timedOut');
+   * unanswered questions not listed are 'notReached' after the last answer, else 'omitted'
+   */
+  responseStatuses?: Record<string, UnansweredStatus>;
+  /** Per-candidate presentation; when set, userAnswers use presented option indices */
+  presentation?: AssessmentPresentation;
+  /** ID of the assembled form the questions came from */
+  formId?: string;
+  /** Version of the assembled form the questions came from */
+  formVersion?: string;
 }
 
 /**
@@ -386,4 +1175,33 @@ export interface ScoringOptions {
   includeRecommendations?: boolean;
   /** Assessment version */
   version?: string;
+  /**
+   * IRT ability estimation method (default 'EAP'); only used when
+   * questions have IRT parameters. 'none' skips ability estimation.
+   */
+  abilityEstimation?: AbilityEstimationMethod | 'none';
+  /** Prior for EAP ability estimates (default standard normal) */
+  abilityPrior?: AbilityPrior;
+  /** Confidence interval options for category and overall percentages */
+  precision?: ScorePrecisionOptions;
+  /** Reference group for percentiles and comparisons in the analysis */
+  norms?: NormGroup;
+  /** Conversion table for scaled scores on overall and category results */
+  scale?: ScaleConversionTable;
+  /** Tier definitions to classify with (default TIER_DEFINITIONS; see standard setting) */
+  tierDefinitions?: Record<TierLevel, TierDefinition>;
+  /** Performance classification thresholds (default PERFORMANCE_THRESHOLDS; see standard setting) */
+  performanceThresholds?: PerformanceThresholds;
+  /** Scoring strategy for questions that do not set their own */
+  scoringStrategy?: ScoringStrategySelection;
+  /** Penalize wrong multiple choice and true/false answers (off by default) */
+  formulaScoring?: FormulaScoringOptions;
+  /** How omitted, not-reached and timed-out questions are scored (default: as incorrect) */
+  responsePolicy?: ResponsePolicy;
 }
+
+/**
+ * Scoring strategy choice: one registered strategy name (used for the question
+ * types it supports) or a strategy name per question type
+ */
+export type ScoringStrategySelection = string | Partial<Record<QuestionType, string>>;
@@ -0,0 +1,51 @@
+/**
+ * Type Definitions for Score Equating
+ *
+ * This file contains TypeScript interfaces for equating functions, which map
+ * overall percentages on one form onto the metric of a base form.
+ */
+
+import { EquatingMethod } from './assessment.types';
+
+/**
+ * One point of an equating conversion
+ */
+export interface EquatingPoint {
+  /** Percentage on the form being equated */
+  raw: number;
+
+  /** Equivalent percentage on the base form */
+  equated: number;
+}
+
+/**
+ * Equating function from one form onto a base form
+ *
+ * Mean and linear equating store a slope and intercept; equipercentile and
+ * IRT true-score equating store a conversion table that is interpolated.
+ */
+export interface EquatingFunction {
+  /** Equating method */
+  method: EquatingMethod;
+
+  /** Form being equated */
+  fromFormId: string;
+
+  /** Base form */
+  toFormId: string;
+
+  /** When the function was created (ISO 8601) */
+  createdAt: string;
+
+  /** Equated = slope × raw + intercept (mean and linear) */
+  slope?: number;
+
+  /** Equated = slope × raw + intercept (mean and linear) */
+  intercept?: number;
+
+  /** Conversion points in increasing raw order (equipercentile and IRT true-score) */
+  points?: EquatingPoint[];
+
+  /** Number of results on each form the function was estimated from */
+  sampleSizes?: { from: number; to: number };
+}
@@ -0,0 +1,274 @@
+/**
+ * Type Definitions for Test Form Assembly
+ *
+ * This file contains TypeScript interfaces for blueprints (what a form must
+ * contain), assembled forms, the constraint violations reported when a
+ * blueprint cannot be met, and equivalence reports for parallel forms.
+ */
+
+import {
+  CategoryName,
+  Question,
+  QuestionDifficulty,
+  QuestionGroup,
+  QuestionType,
+} from './assessment.types';
+
+// ============================================================================
+// Blueprint Types
+// ============================================================================
+
+/**
+ * Inclusive numeric range (either bound may be omitted)
+ */
+export interface BlueprintRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Blueprint describing what an assembled form must contain
+ */
+export interface FormBlueprint {
+  /** Unique blueprint identifier */
+  id: string;
+
+  /** Blueprint version */
+  version?: string;
+
+  /** Display name */
+  name?: string;
+
+  /** Number of questions on the form */
+  length: number;
+
+  /**
+   * Exact number of questions per category
+   * (unlisted categories may fill any remaining length)
+   */
+  categories?: Partial<Record<CategoryName, number>>;
+
+  /** Allowed number of questions per question type */
+  questionTypes?: Partial<Record<QuestionType, BlueprintRange>>;
+
+  /** Allowed number of questions per difficulty (unrated questions are not counted) */
+  difficulty?: Partial<Record<QuestionDifficulty, BlueprintRange>>;
+
+  /** Allowed sum of question weights */
+  totalWeight?: BlueprintRange;
+
+  /** Allowed sum of question scores */
+  totalScore?: BlueprintRange;
+
+  /** Question IDs that must appear on the form */
+  requiredQuestions?: string[];
+
+  /** Question IDs that must not appear on the form */
+  excludedQuestions?: string[];
+}
+
+// ============================================================================
+// Assembled Form Types
+// ============================================================================
+
+/**
+ * Content summary of a set of questions
+ */
+export interface FormSummary {
+  /** Number of questions */
+  questionCount: number;
+
+  /** Questions per category */
+  byCategory: Partial<Record<CategoryName, number>>;
+
+  /** Questions per question type */
+  byType: Partial<Record<QuestionType, number>>;
+
+  /** Questions per difficulty (unrated questions are not counted) */
+  byDifficulty: Partial<Record<QuestionDifficulty, number>>;
+
+  /** Sum of question weights */
+  totalWeight: number;
+
+  /** Sum of question scores */
+  totalScore: number;
+}
+
+/**
+ * Versioned, assembled test form
+ */
+export interface AssessmentForm {
+  /** Unique form identifier */
+  id: string;
+
+  /** Form version */
+  version: string;
+
+  /** Blueprint the form was assembled from */
+  blueprintId: string;
+
+  /** Blueprint version (if the blueprint was versioned) */
+  blueprintVersion?: string;
+
+  /** Seed used for selection (same bank + blueprint + seed = same form) */
+  seed: string;
+
+  /** Assembly timestamp (ISO 8601) */
+  createdAt: string;
+
+  /** Standalone questions on the form */
+  questions: Question[];
+
+  /** Question groups on the form (selected as whole units) */
+  questionGroups?: QuestionGroup[];
+
+  /** Content summary */
+  summary: FormSummary;
+}
+
+// ============================================================================
+// Assembly Result Types
+// ============================================================================
+
+/**
+ * Blueprint constraint that can be violated
+ */
+export type BlueprintConstraint =
+  | 'length'
+  | 'category'
+  | 'questionType'
+  | 'difficulty'
+  | 'totalWeight'
+  | 'totalScore'
+  | 'requiredQuestion';
+
+/**
+ * A blueprint constraint that is or could not be met
+ */
+export interface BlueprintViolation {
+  /** Constraint that was violated */
+  constraint: BlueprintConstraint;
+
+  /** Constraint key (category, question type, difficulty or question ID) */
+  key?: string;
+
+  /** Human-readable explanation */
+  message: string;
+
+  /** Required range */
+  expected: BlueprintRange;
+
+  /** Actual (or best achievable) value */
+  actual: number;
+}
+
+/**
+ * Result of assembling a form
+ */
+export interface FormAssemblyResult {
+  /** Whether a form meeting every constraint was found */
+  success: boolean;
+
+  /** Assembled form (only when successful) */
+  form?: AssessmentForm;
+
+  /** Unmet constraints (empty when successful) */
+  violations: BlueprintViolation[];
+}
+
+// ============================================================================
+// Parallel Form Types
+// ============================================================================
+
+/**
+ * Questions shared by two forms
+ */
+export interface FormOverlap {
+  /** First form ID */
+  formA: string;
+
+  /** Second form ID */
+  formB: string;
+
+  /** IDs of questions on both forms */
+  sharedQuestions: string[];
+
+  /** Shared questions as a percentage of the shorter form */
+  overlapPercentage: number;
+}
+
+/**
+ * Equivalence statistics for a single form
+ */
+export interface FormEquivalenceSummary {
+  /** Form ID */
+  formId: string;
+
+  /** Content summary */
+  summary: FormSummary;
+
+  /** Mean estimated difficulty of questions with an estimate (null if none) */
+  meanDifficulty: number | null;
+}
+
+/**
+ * Spread of a statistic across forms
+ */
+export interface StatisticSpread {
+  min: number;
+  max: number;
+  /** max - min */
+  spread: number;
+}
+
+/**
+ * Report quantifying how equivalent a set of forms are
+ */
+export interface FormEquivalenceReport {
+  /** Number of forms compared */
+  formCount: number;
+
+  /** Per-form statistics */
+  forms: FormEquivalenceSummary[];
+
+  /** Overlap for every pair of forms */
+  overlaps: FormOverlap[];
+
+  /** Largest number of questions shared by any two forms */
+  maxSharedQuestions: number;
+
+  /** Spread of question count per category across forms */
+  categorySpread: Partial<Record<CategoryName, StatisticSpread>>;
+
+  /** Spread of total score across forms */
+  totalScore: StatisticSpread;
+
+  /** Spread of total weight across forms */
+  totalWeight: StatisticSpread;
+
+  /** Spread of mean estimated difficulty across forms (forms without estimates are skipped) */
+  meanDifficulty: StatisticSpread;
+
+  /** Whether category counts match exactly and every spread is within tolerance */
+  equivalent: boolean;
+
+  /** Explanations for each way the forms differ beyond tolerance */
+  issues: string[];
+}
+
+/**
+ * Result of generating parallel forms
+ */
+export interface ParallelFormsResult {
+  /** Whether every requested form was generated */
+  success: boolean;
+
+  /** Generated forms (may be fewer than requested on failure) */
+  forms: AssessmentForm[];
+
+  /** Unmet constraints for the first form that could not be generated */
+  violations: BlueprintViolation[];
+
+  /** Equivalence report for the generated forms */
+  report: FormEquivalenceReport;
+}
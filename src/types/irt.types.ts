@@ -0,0 +1,144 @@
+/**
+ * Type Definitions for Item Response Theory
+ *
+ * This file contains TypeScript interfaces for responses scored against
+ * item parameters. Item parameters and ability estimates ride along on
+ * questions and results, so they live in assessment.types.ts.
+ */
+
+import { ItemParameters } from './assessment.types';
+
+// ============================================================================
+// Response Types
+// ============================================================================
+
+/**
+ * A scored response to an item with known parameters
+ */
+export interface ItemResponse {
+  /** Item parameters */
+  parameters: ItemParameters;
+
+  /**
+   * Item score from 0 to 1 (earned points / max points).
+   * Partial credit is treated as a fractional response.
+   */
+  score: number;
+}
+
+// ============================================================================
+// Calibration Types
+// ============================================================================
+
+/**
+ * Model fitted during calibration
+ */
+export type CalibrationModel =
+  | 'rasch'  // Difficulty only (written back as 1PL)
+  | '2PL';   // Difficulty and discrimination
+
+/**
+ * Options for item calibration
+ */
+export interface CalibrationOptions {
+  /** Model to fit (default 'rasch') */
+  model?: CalibrationModel;
+
+  /** Maximum JMLE iterations (default 100) */
+  maxIterations?: number;
+
+  /** Stop when no parameter changes by more than this (default 0.001) */
+  convergence?: number;
+
+  /** Minimum responses for an item to be calibrated (default 20) */
+  minResponses?: number;
+
+  /** Acceptable infit/outfit mean-square range (default 0.7-1.3) */
+  fitRange?: { min: number; max: number };
+}
+
+/**
+ * Calibrated parameters and fit statistics for one question
+ */
+export interface ItemCalibration {
+  /** Question ID */
+  questionId: string;
+
+  /** Estimated parameters */
+  parameters: ItemParameters;
+
+  /** Standard errors of the estimated parameters */
+  standardErrors: {
+    difficulty: number;
+    discrimination?: number;
+  };
+
+  /** Number of responses used */
+  responseCount: number;
+
+  /** Mean item score (proportion correct) */
+  pValue: number;
+
+  /** Information-weighted mean-square residual (expected 1) */
+  infit: number;
+
+  /** Unweighted mean-square residual (expected 1, sensitive to outliers) */
+  outfit: number;
+
+  /** Whether infit or outfit falls outside the acceptable range */
+  misfit: boolean;
+}
+
+/**
+ * Question that could not be calibrated
+ */
+export interface ExcludedItem {
+  /** Question ID */
+  questionId: string;
+
+  /** Why it was excluded */
+  reason: 'tooFewResponses' | 'allCorrect' | 'allIncorrect';
+
+  /** Number of responses available */
+  responseCount: number;
+}
+
+/**
+ * Convergence diagnostics for a calibration run
+ */
+export interface CalibrationDiagnostics {
+  /** Whether the parameter changes fell below the convergence criterion */
+  converged: boolean;
+
+  /** Number of iterations run */
+  iterations: number;
+
+  /** Largest parameter change in the final iteration */
+  maxChange: number;
+
+  /** Log-likelihood of the data at the final estimates */
+  logLikelihood: number;
+
+  /** Number of candidates used */
+  personCount: number;
+
+  /** Candidates excluded for an all-correct or all-incorrect pattern */
+  excludedPersons: number;
+
+  /** Questions that could not be calibrated */
+  excludedItems: ExcludedItem[];
+}
+
+/**
+ * Result of calibrating a question bank
+ */
+export interface CalibrationResult {
+  /** Model fitted */
+  model: CalibrationModel;
+
+  /** Calibrated questions */
+  items: ItemCalibration[];
+
+  /** Convergence diagnostics */
+  diagnostics: CalibrationDiagnostics;
+}
@@ -0,0 +1,58 @@
+/**
+ * Type Definitions for Norms
+ *
+ * This file contains TypeScript interfaces for norm tables: score
+ * distributions of a reference population, used to turn a candidate's
+ * percentages into percentile ranks and comparisons.
+ */
+
+import { AssessmentResult, NormGroup } from './assessment.types';
+
+/**
+ * Norm table built from a reference population, optionally segmented by cohort
+ */
+export interface NormTable {
+  /** Norm table ID */
+  id: string;
+
+  /** Norm table version */
+  version: string;
+
+  /** When the table was built (ISO 8601) */
+  createdAt: string;
+
+  /** Form the reference results were delivered on (if any) */
+  formId?: string;
+
+  /** What segments represent (e.g. "experience level") */
+  segmentedBy?: string;
+
+  /** Norms for the whole reference population */
+  population: NormGroup;
+
+  /** Norms for each cohort segment, keyed by segment name */
+  segments?: Record<string, NormGroup>;
+}
+
+/**
+ * Options for building a norm table
+ */
+export interface NormTableOptions {
+  /** Norm table ID */
+  id: string;
+
+  /** Norm table version (default '1.0') */
+  version?: string;
+
+  /** Form the reference results were delivered on */
+  formId?: string;
+
+  /** Segment name for a result (undefined leaves it out of every segment) */
+  segmentBy?: (result: AssessmentResult) => string | undefined;
+
+  /** What segments represent (stored with the table) */
+  segmentLabel?: string;
+
+  /** Minimum results for a segment to be kept (default 30) */
+  minSegmentSize?: number;
+}
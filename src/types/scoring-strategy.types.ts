@@ -0,0 +1,56 @@
+/**
+ * Type Definitions for Scoring Strategies
+ *
+ * This file contains TypeScript interfaces for named scoring strategies that
+ * can replace the built-in scoring of a question type.
+ */
+
+import { Question, QuestionCreditDetails, QuestionType } from './assessment.types';
+
+/**
+ * Score produced by a scoring strategy
+ */
+export interface StrategyScore {
+  /** Points earned */
+  earnedPoints: number;
+
+  /** Maximum possible points (default: the question's score) */
+  maxPoints?: number;
+
+  /** Whether the answer is fully correct */
+  isCorrect: boolean;
+
+  /** Partial credit details */
+  partialCreditDetails?: QuestionCreditDetails;
+}
+
+/**
+ * Scoring function
+ *
+ * @param question - The question being scored
+ * @param userAnswers - Canonical answer indices (validated)
+ * @param defaultScore - Score from the question type's built-in algorithm
+ * @returns Score for the answer
+ */
+export type ScoringStrategy = (
+  question: Question,
+  userAnswers: number[],
+  defaultScore: StrategyScore
+) => StrategyScore;
+
+/**
+ * Registered scoring strategy
+ */
+export interface ScoringStrategyDefinition {
+  /** Name questions and scoring options refer to */
+  name: string;
+
+  /** What the strategy awards */
+  description: string;
+
+  /** Question types the strategy can score (default: all) */
+  questionTypes?: QuestionType[];
+
+  /** Scoring function */
+  score: ScoringStrategy;
+}
@@ -0,0 +1,161 @@
+/**
+ * Type Definitions for Standard Setting
+ *
+ * This file contains TypeScript interfaces for panelist ratings (modified
+ * Angoff and bookmark), the cut scores recommended from them, and the tier
+ * configuration the scorer loads.
+ */
+
+import { PerformanceThresholds, TierDefinition, TierLevel } from './assessment.types';
+
+/**
+ * Standard-setting method
+ */
+export type StandardSettingMethod = 'angoff' | 'bookmark';
+
+/**
+ * Tier a cut score is set for (tier 1 has no lower cut)
+ */
+export type CutTier = Exclude<TierLevel, 1>;
+
+/**
+ * Modified Angoff rating: the chance a minimally qualified candidate for the
+ * tier earns the question's points
+ */
+export interface AngoffRating {
+  /** Panelist ID */
+  panelistId: string;
+
+  /** Question ID */
+  questionId: string;
+
+  /** Tier the candidate is minimally qualified for */
+  tier: CutTier;
+
+  /** Probability of a correct answer (0-1) */
+  probability: number;
+
+  /** Rating round (later rounds replace earlier ones; default 1) */
+  round?: number;
+}
+
+/**
+ * Bookmark rating: the last question in the ordered item booklet a minimally
+ * qualified candidate for the tier is likely to answer correctly
+ */
+export interface BookmarkRating {
+  /** Panelist ID */
+  panelistId: string;
+
+  /** Tier the candidate is minimally qualified for */
+  tier: CutTier;
+
+  /** 1-based page of the bookmarked question in the ordered item booklet */
+  page: number;
+
+  /** Rating round (later rounds replace earlier ones; default 1) */
+  round?: number;
+}
+
+/**
+ * Question in an ordered item booklet
+ */
+export interface OrderedItem {
+  /** 1-based page */
+  page: number;
+
+  /** Question ID */
+  questionId: string;
+
+  /** Theta at which the response probability is reached */
+  location: number;
+}
+
+/**
+ * One panelist's cut score for a tier
+ */
+export interface PanelistCut {
+  /** Panelist ID */
+  panelistId: string;
+
+  /** Cut score (percentage) */
+  cutScore: number;
+}
+
+/**
+ * Recommended cut score for a tier with panel agreement statistics
+ */
+export interface CutScoreRecommendation {
+  /** Tier the cut score starts */
+  tier: CutTier;
+
+  /** Recommended cut score (percentage; panel mean for Angoff, median for bookmark) */
+  cutScore: number;
+
+  /** Cut score on the theta scale (bookmark only) */
+  theta?: number;
+
+  /** Each panelist's cut score */
+  panelistCuts: PanelistCut[];
+
+  /** Mean panelist cut score */
+  mean: number;
+
+  /** Median panelist cut score */
+  median: number;
+
+  /** Standard deviation of panelist cut scores (lower = more agreement) */
+  standardDeviation: number;
+
+  /** Standard error of the recommended cut score (SD / √panelists) */
+  standardError: number;
+
+  /** Lowest and highest panelist cut scores */
+  range: { min: number; max: number };
+
+  /** Interquartile range of panelist cut scores */
+  interquartileRange: number;
+}
+
+/**
+ * Tier definitions the scorer can load in place of TIER_DEFINITIONS
+ */
+export interface TierConfiguration {
+  /** Configuration ID */
+  id: string;
+
+  /** Configuration version */
+  version: string;
+
+  /** When the configuration was created (ISO 8601) */
+  createdAt: string;
+
+  /** Method the cut scores came from (if standard setting was used) */
+  method?: StandardSettingMethod;
+
+  /** Tier definitions */
+  tiers: Record<TierLevel, TierDefinition>;
+
+  /** Performance classification thresholds for category results */
+  performanceThresholds: PerformanceThresholds;
+}
+
+/**
+ * Outcome of a standard-setting study
+ */
+export interface StandardSettingResult {
+  /** Method used */
+  method: StandardSettingMethod;
+
+  /** Number of panelists with ratings */
+  panelistCount: number;
+
+  /** Recommended cut score per tier with ratings */
+  cuts: CutScoreRecommendation[];
+
+  /** Tier configuration with the recommended cuts (rounded to whole percentages) */
+  configuration: TierConfiguration;
+
+  /** Problems found (missing ratings, cuts out of order) */
+  issues: string[];
+}
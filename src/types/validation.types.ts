@@ -0,0 +1,118 @@
+/**
+ * Type Definitions for Question Bank Validation
+ *
+ * This file contains TypeScript interfaces for linting whole question banks,
+ * reporting problems with their locations, and summarizing bank coverage.
+ */
+
+import { CategoryName, QuestionType } from './assessment.types';
+
+// ============================================================================
+// Lint Issue Types
+// ============================================================================
+
+/**
+ * Severity of a lint issue
+ */
+export type LintSeverity =
+  | 'error'     // The bank must not be used until this is fixed
+  | 'warning';  // The bank works but may measure poorly
+
+/**
+ * A single problem found in a question bank
+ */
+export interface LintIssue {
+  /** Issue severity */
+  severity: LintSeverity;
+
+  /** Machine-readable issue code (e.g. "duplicate-id") */
+  code: string;
+
+  /** Human-readable description */
+  message: string;
+
+  /** Location in the bank as a JSON path (e.g. "questions[3].answers[1].id") */
+  location: string;
+
+  /** ID of the question involved (if any) */
+  questionId?: string;
+}
+
+// ============================================================================
+// Coverage Types
+// ============================================================================
+
+/**
+ * Coverage of a single category
+ */
+export interface CategoryCoverage {
+  /** Category name */
+  category: CategoryName;
+
+  /** Number of questions in this category */
+  questionCount: number;
+
+  /** Number of questions per question type */
+  byType: Partial<Record<QuestionType, number>>;
+
+  /** Sum of question scores */
+  totalScore: number;
+
+  /** Sum of question weights */
+  totalWeight: number;
+
+  /** Whether the category meets the minimum question count */
+  meetsMinimum: boolean;
+}
+
+/**
+ * Coverage of the whole bank
+ */
+export interface BankCoverage {
+  /** Coverage for each of the 8 categories (including empty ones) */
+  byCategory: CategoryCoverage[];
+
+  /** Number of questions per question type */
+  byType: Partial<Record<QuestionType, number>>;
+
+  /** Categories with no questions */
+  missingCategories: CategoryName[];
+}
+
+// ============================================================================
+// Lint Report Types
+// ============================================================================
+
+/**
+ * Options for linting a question bank
+ */
+export interface LintOptions {
+  /** Minimum questions per category before a warning is raised (default 2) */
+  minQuestionsPerCategory?: number;
+
+  /** Whether a category with no questions is an error rather than a warning (default false) */
+  requireAllCategories?: boolean;
+
+  /** Path to a JSON schema (defaults to the bundled templates/question-template.json; unreadable schemas are reported as errors) */
+  schemaPath?: string;
+}
+
+/**
+ * Complete lint report for a question bank
+ */
+export interface QuestionBankLintReport {
+  /** Whether the bank has no errors (warnings allowed) */
+  valid: boolean;
+
+  /** Number of questions in the bank (including grouped questions) */
+  questionCount: number;
+
+  /** Problems that must be fixed */
+  errors: LintIssue[];
+
+  /** Problems worth reviewing */
+  warnings: LintIssue[];
+
+  /** Coverage by category and question type */
+  coverage: BankCoverage;
+}
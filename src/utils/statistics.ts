@@ -0,0 +1,233 @@
+/**
+ * Statistics Utilities
+ *
+ * This module contains small descriptive statistics helpers shared by the
+ * cohort-level analysis modules (mean, variance, quantiles, correlation) and the
+ * standard normal distribution used for confidence intervals.
+ */
+
+/**
+ * Calculate the arithmetic mean (0 for an empty array)
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Calculate the variance
+ *
+ * @param values - Sample values
+ * @param sample - Use the sample (n - 1) denominator instead of the population (n) one
+ */
+export function variance(values: number[], sample: boolean = false): number {
+  const denominator = sample ? values.length - 1 : values.length;
+  if (denominator <= 0) {
+    return 0;
+  }
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / denominator;
+}
+
+/**
+ * Calculate the standard deviation
+ *
+ * @param values - Sample values
+ * @param sample - Use the sample (n - 1) denominator instead of the population (n) one
+ */
+export function standardDeviation(values: number[], sample: boolean = false): number {
+  return Math.sqrt(variance(values, sample));
+}
+
+/**
+ * Calculate the population covariance of two paired arrays
+ */
+export function covariance(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n === 0) {
+    return 0;
+  }
+  const meanX = mean(x.slice(0, n));
+  const meanY = mean(y.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (x[i] - meanX) * (y[i] - meanY);
+  }
+  return sum / n;
+}
+
+/**
+ * Calculate the Pearson correlation of two paired arrays
+ *
+ * Returns 0 when either array has no variance (correlation undefined).
+ */
+export function pearsonCorrelation(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  const sdX = standardDeviation(x.slice(0, n));
+  const sdY = standardDeviation(y.slice(0, n));
+  if (sdX === 0 || sdY === 0) {
+    return 0;
+  }
+  return covariance(x, y) / (sdX * sdY);
+}
+
+/**
+ * Calculate a quantile with linear interpolation between order statistics
+ * (0 for an empty array)
+ *
+ * @param values - Sample values
+ * @param q - Quantile (0-1, e.g. 0.5 for the median)
+ */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * Math.min(Math.max(q, 0), 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Calculate the median (0 for an empty array)
+ */
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+/**
+ * Sum an array of numbers
+ */
+export function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Standard normal cumulative distribution function
+ *
+ * Uses the Abramowitz-Stegun erf approximation (error < 1.5e-7).
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 +
+    t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal cumulative distribution function
+ *
+ * Uses Acklam's rational approximation (relative error < 1.2e-9).
+ *
+ * @param p - Probability strictly between 0 and 1
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`Probability must be between 0 and 1 (exclusive), got ${p}`);
+  }
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687,
+    138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Natural log of the gamma function (ln((n - 1)!) for whole n)
+ *
+ * Uses the Lanczos approximation (g = 7, 9 coefficients).
+ *
+ * @param x - Positive value
+ */
+export function logGamma(x: number): number {
+  const coefficients = [0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let series = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    series += coefficients[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(series);
+}
+
+/**
+ * Upper-tail probability of the chi-square distribution
+ *
+ * Regularized upper incomplete gamma Q(df / 2, statistic / 2), by series
+ * below the mean and continued fraction above it.
+ *
+ * @param statistic - Chi-square statistic
+ * @param degreesOfFreedom - Degrees of freedom
+ * @returns p-value (0-1)
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  if (statistic <= 0) {
+    return 1;
+  }
+  const a = degreesOfFreedom / 2;
+  const x = statistic / 2;
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let total = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(total) * 1e-14; n++) {
+      term *= x / (a + n);
+      total += term;
+    }
+    return Math.min(Math.max(1 - total * Math.exp(logPrefix), 0), 1);
+  }
+
+  // Lentz's continued fraction
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < tiny ? tiny : d;
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) {
+      break;
+    }
+  }
+  return Math.min(Math.max(h * Math.exp(logPrefix), 0), 1);
+}
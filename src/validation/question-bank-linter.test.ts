@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import * as path from 'path';
+import { Question, QuestionBank } from '../types/assessment.types';
+import { lintQuestionBank, lintQuestionBankFile } from './question-bank-linter';
+
+const sampleBankPath = path.join(__dirname, '../../templates/sample-questions.json');
+
+function errorLocations(bank: unknown): string[] {
+  return lintQuestionBank(bank as QuestionBank).errors.map(issue => `${issue.location}: ${issue.message}`);
+}
+
+test('the sample bank lints without errors', () => {
+  const report = lintQuestionBankFile(sampleBankPath);
+  assert.deepEqual(report.errors, []);
+  assert.ok(report.questionCount > 0);
+});
+
+test('the bundled schema is used from any working directory', () => {
+  const cwd = process.cwd();
+  try {
+    process.chdir(os.tmpdir());
+    assert.equal(lintQuestionBankFile(sampleBankPath).valid, true);
+  } finally {
+    process.chdir(cwd);
+  }
+});
+
+test('an unreadable schema is reported, not thrown', () => {
+  const report = lintQuestionBank([], { schemaPath: path.join(os.tmpdir(), 'missing-schema.json') });
+  assert.equal(report.valid, false);
+  assert.equal(report.errors[0].code, 'schema');
+});
+
+test('entries that are not objects are reported at their index', () => {
+  assert.deepEqual(errorLocations([null]), ['questions[0]: Expected object']);
+  assert.deepEqual(errorLocations({ questions: [], questionGroups: [null] }), ['questionGroups[0]: Expected object']);
+  assert.deepEqual(
+    errorLocations({ questions: [42, 'text'], questionGroups: [{ id: 'g', stimulus: 's', questions: [null] }] }),
+    ['questions[0]: Expected object', 'questions[1]: Expected object', 'questionGroups[0].questions[0]: Expected object']
+  );
+  assert.deepEqual(errorLocations({ questions: [], questionGroups: {} }), ['questionGroups: Question bank questionGroups must be an array']);
+  assert.deepEqual(errorLocations(null), ['questions: Question bank must have a questions array']);
+});
+
+test('entries that are not objects do not hide problems in the rest of the bank', () => {
+  const question: Question = {
+    id: 'q-1',
+    text: 'Pick A',
+    type: 'multipleChoice',
+    category: 'Logical Reasoning',
+    answers: [
+      { id: 0, text: 'A' },
+      { id: 1, text: 'B' },
+    ],
+    correctAnswers: [0],
+    score: 10,
+    weight: 1,
+  };
+  const report = lintQuestionBank([question, null as unknown as Question, question]);
+  assert.equal(report.questionCount, 2);
+  assert.deepEqual(report.errors.map(issue => issue.code), ['schema', 'duplicate-id']);
+});
+
+test('a question without a type gets no type-specific errors', () => {
+  assert.deepEqual(
+    errorLocations([{ id: 'q-1', text: 'Untyped', category: 'Logical Reasoning', answers: [], correctAnswers: [0], score: 10, weight: 1 }]),
+    ['questions[0].type: Missing required field type']
+  );
+});
@@ -0,0 +1,603 @@
+/**
+ * Question Bank Linter
+ *
+ * This module checks a whole question bank before it is used:
+ * - Structure against the JSON schema (templates/question-template.json)
+ * - Semantic rules shared with the scorer (answer ranges, type rules)
+ * - Bank-level rules (duplicate IDs, duplicate text, option IDs)
+ * - Coverage of the 8 categories and question types
+ *
+ * Every problem is collected with its location rather than stopping at the first.
+ */
+
+import * as fs from 'fs';
+import {
+  Question,
+  QuestionBank,
+  QuestionGroup,
+  QuestionType,
+} from '../types/assessment.types';
+import {
+  BankCoverage,
+  CategoryCoverage,
+  LintIssue,
+  LintOptions,
+  QuestionBankLintReport,
+} from '../types/validation.types';
+import { CATEGORY_NAMES } from '../constants/categories';
+import { getQuestionValidationErrors } from '../scoring/question-scorer';
+import questionTemplate from '../../templates/question-template.json';
+
+/**
+ * Default minimum questions per category
+ */
+export const DEFAULT_MIN_QUESTIONS_PER_CATEGORY = 2;
+
+/**
+ * Maximum answer options before a warning is raised, per question type
+ */
+const MAX_ANSWER_OPTIONS: Partial<Record<QuestionType, number>> = {
+  multipleChoice: 6,
+  multipleSelect: 8,
+  ordering: 8,
+  matching: 10,
+};
+
+/**
+ * Default question schema (bundled, so linting works from any directory)
+ */
+const DEFAULT_SCHEMA = questionTemplate as unknown as LoadedSchema;
+
+/**
+ * Lint a question bank
+ *
+ * @param bank - Question bank object or a plain array of questions
+ * @param options - Lint options
+ * @returns QuestionBankLintReport with errors, warnings and coverage
+ */
+export function lintQuestionBank(
+  bank: QuestionBank | Question[],
+  options: LintOptions = {}
+): QuestionBankLintReport {
+  const issues: LintIssue[] = [];
+  const normalized: QuestionBank = Array.isArray(bank) ? { questions: bank } : bank;
+
+  if (!isObject(normalized) || !Array.isArray(normalized.questions)) {
+    issues.push(createIssue('error', 'schema', 'Question bank must have a questions array', 'questions'));
+    return buildReport(issues, [], options);
+  }
+
+  let schema: LoadedSchema;
+  try {
+    schema = loadSchema(options.schemaPath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    issues.push(createIssue('error', 'schema', `Could not read schema ${options.schemaPath}: ${message}`, '$'));
+    return buildReport(issues, [], options);
+  }
+  if (normalized.questionGroups !== undefined && !Array.isArray(normalized.questionGroups)) {
+    issues.push(createIssue('error', 'schema', 'Question bank questionGroups must be an array', 'questionGroups'));
+  }
+  const entries = collectQuestions(normalized);
+
+  // Structure first, semantic rules only for questions that pass the schema
+  for (const { question, location } of entries) {
+    const schemaErrors = validateAgainstSchema(
+      question,
+      schema.definitions.question,
+      schema,
+      location
+    );
+    for (const error of schemaErrors) {
+      issues.push(createIssue('error', 'schema', error.message, error.location, getQuestionId(question)));
+    }
+    if (schemaErrors.length > 0) {
+      continue;
+    }
+
+    for (const message of getQuestionValidationErrors(question)) {
+      issues.push(createIssue('error', 'invalid-question', message, location, question.id));
+    }
+    issues.push(...lintQuestion(question, location));
+  }
+
+  getQuestionGroups(normalized).forEach((group, index) => {
+    const location = `questionGroups[${index}]`;
+    // Grouped questions are checked above, so only check the group's own fields
+    const groupSchema = {
+      ...schema.definitions.questionGroup,
+      properties: { ...schema.definitions.questionGroup.properties, questions: { type: 'array' } },
+    };
+    for (const error of validateAgainstSchema(group, groupSchema, schema, location)) {
+      issues.push(createIssue('error', 'schema', error.message, error.location));
+    }
+  });
+
+  // Entries that are not objects were reported above and are left out from here on
+  const questionEntries = entries.filter(entry => isObject(entry.question));
+  issues.push(...lintDuplicates(normalized, questionEntries));
+
+  return buildReport(issues, questionEntries.map(entry => entry.question), options);
+}
+
+/**
+ * Lint a question bank JSON file
+ *
+ * Unreadable or malformed files are reported as errors rather than thrown.
+ *
+ * @param filePath - Path to the question bank file
+ * @param options - Lint options
+ * @returns QuestionBankLintReport
+ */
+export function lintQuestionBankFile(
+  filePath: string,
+  options: LintOptions = {}
+): QuestionBankLintReport {
+  let bank: QuestionBank | Question[];
+  try {
+    bank = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return buildReport(
+      [createIssue('error', 'parse', `Could not read ${filePath}: ${message}`, '$')],
+      [],
+      options
+    );
+  }
+
+  return lintQuestionBank(bank, options);
+}
+
+/**
+ * Format a lint report as plain text
+ */
+export function formatLintReport(report: QuestionBankLintReport): string {
+  const lines: string[] = [];
+
+  lines.push(
+    `${report.valid ? 'PASS' : 'FAIL'}: ${report.questionCount} questions, ` +
+    `${report.errors.length} errors, ${report.warnings.length} warnings`
+  );
+
+  for (const issue of [...report.errors, ...report.warnings]) {
+    lines.push(`  ${issue.severity.toUpperCase()} [${issue.code}] ${issue.location}: ${issue.message}`);
+  }
+
+  lines.push('');
+  lines.push('Coverage:');
+  for (const category of report.coverage.byCategory) {
+    const marker = category.meetsMinimum ? ' ' : '!';
+    lines.push(`  ${marker} ${category.category}: ${category.questionCount}`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Bank Rules
+// ============================================================================
+
+interface QuestionEntry {
+  question: Question;
+  location: string;
+}
+
+/**
+ * Collect standalone and grouped questions with their locations
+ *
+ * Entries are collected as given (even if they are not objects) so the schema
+ * check can report them; groups that are not objects are skipped.
+ */
+function collectQuestions(bank: QuestionBank): QuestionEntry[] {
+  const entries: QuestionEntry[] = bank.questions.map((question, index) => ({
+    question,
+    location: `questions[${index}]`,
+  }));
+
+  getQuestionGroups(bank).forEach((group, groupIndex) => {
+    if (!isObject(group) || !Array.isArray(group.questions)) {
+      return;
+    }
+    group.questions.forEach((question, index) => {
+      entries.push({ question, location: `questionGroups[${groupIndex}].questions[${index}]` });
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Get the bank's question groups (none if the field is not an array)
+ */
+function getQuestionGroups(bank: QuestionBank): QuestionGroup[] {
+  return Array.isArray(bank.questionGroups) ? bank.questionGroups : [];
+}
+
+/**
+ * Get a question's ID if it has one
+ */
+function getQuestionId(question: unknown): string | undefined {
+  return isObject(question) && typeof question.id === 'string' ? question.id : undefined;
+}
+
+/**
+ * Check rules for a single question that the scorer does not enforce
+ */
+function lintQuestion(question: Question, location: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  // Answer and premise ids must match their position (scoring uses indices)
+  const optionLists: Array<[string, { id: number; text: string }[] | undefined]> = [
+    ['answers', question.answers],
+    ['premises', question.premises],
+  ];
+  for (const [field, options] of optionLists) {
+    (options || []).forEach((option, index) => {
+      if (option.id !== index) {
+        issues.push(createIssue(
+          'error',
+          'option-id-mismatch',
+          `${field} id ${option.id} does not match its position ${index}`,
+          `${location}.${field}[${index}].id`,
+          question.id
+        ));
+      }
+    });
+
+    const seenText = new Set<string>();
+    (options || []).forEach((option, index) => {
+      const text = normalizeText(option.text);
+      if (seenText.has(text)) {
+        issues.push(createIssue(
+          'warning',
+          'duplicate-option-text',
+          `Duplicate ${field} text "${option.text}"`,
+          `${location}.${field}[${index}].text`,
+          question.id
+        ));
+      }
+      seenText.add(text);
+    });
+  }
+
+  const maxOptions = MAX_ANSWER_OPTIONS[question.type];
+  if (maxOptions !== undefined && question.answers.length > maxOptions) {
+    issues.push(createIssue(
+      'warning',
+      'too-many-options',
+      `${question.answers.length} answer options (recommended at most ${maxOptions} for ${question.type})`,
+      `${location}.answers`,
+      question.id
+    ));
+  }
+
+  if (question.score <= 0) {
+    issues.push(createIssue(
+      'warning',
+      'zero-score',
+      'Question is worth no points',
+      `${location}.score`,
+      question.id
+    ));
+  }
+
+  if (question.weight < 1 || question.weight > 5) {
+    issues.push(createIssue(
+      'warning',
+      'weight-range',
+      `Weight ${question.weight} is outside the usual 1-5 range`,
+      `${location}.weight`,
+      question.id
+    ));
+  }
+
+  return issues;
+}
+
+/**
+ * Check for duplicate question IDs, group IDs and question text
+ */
+function lintDuplicates(bank: QuestionBank, entries: QuestionEntry[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const ids = new Map<string, string>();
+  const texts = new Map<string, string>();
+
+  for (const { question, location } of entries) {
+    if (question.id) {
+      const firstLocation = ids.get(question.id);
+      if (firstLocation) {
+        issues.push(createIssue(
+          'error',
+          'duplicate-id',
+          `Duplicate question id ${question.id} (first used at ${firstLocation})`,
+          `${location}.id`,
+          question.id
+        ));
+      } else {
+        ids.set(question.id, location);
+      }
+    }
+
+    if (typeof question.text === 'string') {
+      const text = normalizeText(question.text);
+      const firstLocation = texts.get(text);
+      if (firstLocation) {
+        issues.push(createIssue(
+          'warning',
+          'duplicate-text',
+          `Question text duplicates ${firstLocation}`,
+          `${location}.text`,
+          question.id
+        ));
+      } else {
+        texts.set(text, location);
+      }
+    }
+  }
+
+  const groupIds = new Set<string>();
+  getQuestionGroups(bank).forEach((group, index) => {
+    if (!isObject(group)) {
+      return;
+    }
+    if (group.id && groupIds.has(group.id)) {
+      issues.push(createIssue(
+        'error',
+        'duplicate-group-id',
+        `Duplicate question group id ${group.id}`,
+        `questionGroups[${index}].id`
+      ));
+    }
+    groupIds.add(group.id);
+  });
+
+  return issues;
+}
+
+/**
+ * Calculate category and question type coverage
+ */
+function calculateCoverage(questions: Question[], minQuestions: number): BankCoverage {
+  const byType: Partial<Record<QuestionType, number>> = {};
+  const byCategory: CategoryCoverage[] = CATEGORY_NAMES.map(category => ({
+    category,
+    questionCount: 0,
+    byType: {},
+    totalScore: 0,
+    totalWeight: 0,
+    meetsMinimum: false,
+  }));
+
+  for (const question of questions) {
+    byType[question.type] = (byType[question.type] || 0) + 1;
+
+    const coverage = byCategory.find(c => c.category === question.category);
+    if (!coverage) {
+      continue;
+    }
+    coverage.questionCount++;
+    coverage.byType[question.type] = (coverage.byType[question.type] || 0) + 1;
+    coverage.totalScore += typeof question.score === 'number' ? question.score : 0;
+    coverage.totalWeight += typeof question.weight === 'number' ? question.weight : 0;
+  }
+
+  for (const coverage of byCategory) {
+    coverage.meetsMinimum = coverage.questionCount >= minQuestions;
+  }
+
+  return {
+    byCategory,
+    byType,
+    missingCategories: byCategory
+      .filter(coverage => coverage.questionCount === 0)
+      .map(coverage => coverage.category),
+  };
+}
+
+/**
+ * Build the final report, adding coverage issues
+ */
+function buildReport(
+  issues: LintIssue[],
+  questions: Question[],
+  options: LintOptions
+): QuestionBankLintReport {
+  const {
+    minQuestionsPerCategory = DEFAULT_MIN_QUESTIONS_PER_CATEGORY,
+    requireAllCategories = false,
+  } = options;
+  const coverage = calculateCoverage(questions, minQuestionsPerCategory);
+
+  if (questions.length > 0) {
+    for (const category of coverage.byCategory) {
+      if (category.questionCount === 0) {
+        issues.push(createIssue(
+          requireAllCategories ? 'error' : 'warning',
+          'missing-category',
+          `No questions for category ${category.category}`,
+          'questions'
+        ));
+      } else if (!category.meetsMinimum) {
+        issues.push(createIssue(
+          'warning',
+          'low-coverage',
+          `Only ${category.questionCount} question(s) for category ${category.category} ` +
+          `(minimum ${minQuestionsPerCategory})`,
+          'questions'
+        ));
+      }
+    }
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  return {
+    valid: errors.length === 0,
+    questionCount: questions.length,
+    errors,
+    warnings,
+    coverage,
+  };
+}
+
+function createIssue(
+  severity: LintIssue['severity'],
+  code: string,
+  message: string,
+  location: string,
+  questionId?: string
+): LintIssue {
+  return questionId ? { severity, code, message, location, questionId } : { severity, code, message, location };
+}
+
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// ============================================================================
+// JSON Schema Validation
+// ============================================================================
+
+/**
+ * Subset of JSON Schema (draft-07) used by the question template
+ */
+interface JsonSchema {
+  type?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  minItems?: number;
+  $ref?: string;
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+}
+
+interface SchemaError {
+  message: string;
+  location: string;
+}
+
+type LoadedSchema = JsonSchema & { definitions: Record<string, JsonSchema> };
+
+const schemaCache = new Map<string, LoadedSchema>();
+
+/**
+ * Load the question schema (cached per path; the bundled template if no path is given)
+ */
+function loadSchema(schemaPath?: string): LoadedSchema {
+  if (schemaPath === undefined) {
+    return DEFAULT_SCHEMA;
+  }
+  let schema = schemaCache.get(schemaPath);
+  if (!schema) {
+    schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8')) as LoadedSchema;
+    if (!schema.definitions?.question) {
+      throw new Error('schema has no definitions.question');
+    }
+    schemaCache.set(schemaPath, schema);
+  }
+  return schema;
+}
+
+/**
+ * Validate a value against the schema subset used by the question template
+ *
+ * Supports type, required, properties, items, enum, const, minimum,
+ * minItems, local $ref, allOf and if/then.
+ */
+function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  location: string
+): SchemaError[] {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    const target = root.definitions?.[name];
+    if (!target) {
+      return [{ message: `Unknown schema reference ${schema.$ref}`, location }];
+    }
+    return validateAgainstSchema(value, target, root, location);
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ message: `Expected ${schema.type}`, location }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ message: `Value ${JSON.stringify(value)} is not one of ${schema.enum.join(', ')}`, location });
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ message: `Expected ${JSON.stringify(schema.const)}`, location });
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ message: `Value ${value} is below the minimum ${schema.minimum}`, location });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ message: `Expected at least ${schema.minItems} items`, location });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, root, `${location}[${index}]`));
+      });
+    }
+  }
+
+  if (isObject(value)) {
+    for (const field of schema.required || []) {
+      if (!(field in value)) {
+        errors.push({ message: `Missing required field ${field}`, location: `${location}.${field}` });
+      }
+    }
+    for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+      if (field in value) {
+        errors.push(...validateAgainstSchema(value[field], fieldSchema, root, `${location}.${field}`));
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf || []) {
+    errors.push(...validateAgainstSchema(value, subschema, root, location));
+  }
+
+  if (schema.if && schema.then && validateAgainstSchema(value, schema.if, root, location).length === 0) {
+    errors.push(...validateAgainstSchema(value, schema.then, root, location));
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}